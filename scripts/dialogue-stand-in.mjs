@@ -0,0 +1,92 @@
+/**
+ * Local stand-in for the Magic Words dialogue endpoint, to exercise the loader's timeout, retry and fallback paths.
+ *
+ * Serves public/dialogue/magicwords.json on any path, misbehaving according to the mode:
+ * - ok: responds normally
+ * - slow: never responds, so every attempt times out
+ * - error: responds with 503 Service Unavailable
+ * - invalid: responds with malformed JSON
+ * - flaky: fails the first 2 requests, then responds normally (retry succeeds)
+ * - broken-images: responds normally, but with emoji and avatar URLs that fail to load
+ *
+ * Usage: node scripts/dialogue-stand-in.mjs [mode] [port]
+ * Then run the app with VITE_DIALOGUE_URL=http://localhost:<port>/v2/magicwords
+ */
+import { createServer } from 'node:http';
+import { readFileSync } from 'node:fs';
+
+const MODES = ['ok', 'slow', 'error', 'invalid', 'flaky', 'broken-images'];
+const FLAKY_FAILURES = 2;
+
+const mode = process.argv[2] ?? 'ok';
+const port = Number(process.argv[3] ?? 8787);
+
+if (!MODES.includes(mode)) {
+	console.error(`Unknown mode "${mode}". Use one of: ${MODES.join(', ')}`);
+	process.exit(1);
+}
+
+const dialogue = JSON.parse(
+	readFileSync(new URL('../public/dialogue/magicwords.json', import.meta.url))
+);
+
+let requestCount = 0;
+
+// Served by the stand-in itself, whose origin the app allows in development, so that the images pass validation
+// and fail when they load
+function brokenImageUrl(name) {
+	return `http://localhost:${port}/missing/${encodeURIComponent(name)}.png`;
+}
+
+createServer((request, response) => {
+	requestCount++;
+	console.log(`[${mode}] #${requestCount} ${request.method} ${request.url}`);
+
+	response.setHeader('Access-Control-Allow-Origin', '*');
+
+	if (request.url?.startsWith('/missing/')) {
+		response.writeHead(404).end();
+		return;
+	}
+
+	switch (mode) {
+		case 'slow':
+			// Leave the request hanging until the client aborts it
+			return;
+		case 'error':
+			response.writeHead(503).end('Service Unavailable');
+			return;
+		case 'invalid':
+			response
+				.writeHead(200, { 'Content-Type': 'application/json' })
+				.end('{"dialogue": [');
+			return;
+		case 'flaky':
+			if (requestCount <= FLAKY_FAILURES) {
+				response.writeHead(500).end('Internal Server Error');
+				return;
+			}
+			break;
+		case 'broken-images':
+			response.writeHead(200, { 'Content-Type': 'application/json' }).end(
+				JSON.stringify({
+					...dialogue,
+					emojies: dialogue.emojies.map(emoji => ({
+						...emoji,
+						url: brokenImageUrl(emoji.name),
+					})),
+					avatars: dialogue.avatars.map(avatar => ({
+						...avatar,
+						url: brokenImageUrl(avatar.name),
+					})),
+				})
+			);
+			return;
+	}
+
+	response
+		.writeHead(200, { 'Content-Type': 'application/json' })
+		.end(JSON.stringify(dialogue));
+}).listen(port, () => {
+	console.log(`Dialogue stand-in (${mode}) listening on port ${port}`);
+});
@@ -0,0 +1,123 @@
+import type { Container, FederatedPointerEvent } from 'pixi.js';
+
+/**
+ * Callbacks deciding which cards can be dragged and where they end up
+ *
+ * @property onGrab - Called when a card is pressed. Takes the card off wherever it was and returns true if it can be
+ * picked up, or returns false to leave it
+ * @property onDrop - Called when a held card is released, at its current position, or cancelled. Puts it down where it
+ * belongs, e.g. snapped onto the nearest stack, or back where it was picked up from when cancelled
+ */
+export interface CardDragHandlers<T extends Container> {
+	onGrab: (card: T) => boolean;
+	onDrop: (card: T, cancelled: boolean) => void;
+}
+
+/**
+ * A card being dragged by a pointer
+ *
+ * @property card - The card
+ * @property offsetX - The x distance from the pointer to the card's position, kept while dragging
+ * @property offsetY - The y distance from the pointer to the card's position, kept while dragging
+ */
+interface Drag<T> {
+	card: T;
+	offsetX: number;
+	offsetY: number;
+}
+
+/**
+ * Lets players drag the cards of a container around with a mouse, a pen or touch, a card per pointer so that
+ * several fingers can drag at once. Cards must be interactive (eventMode 'static') for presses to reach them.
+ *
+ * Held cards are moved to the top of the container, so that they are drawn over the other cards.
+ *
+ * @param container - The container holding the cards, and only them
+ * @param handlers - Callbacks deciding which cards can be dragged and where they end up
+ */
+export class CardDrag<T extends Container> {
+	// Core
+	private container: Container;
+	private handlers: CardDragHandlers<T>;
+	private drags: Map<number, Drag<T>> = new Map();
+
+	constructor(container: Container, handlers: CardDragHandlers<T>) {
+		this.container = container;
+		this.handlers = handlers;
+		this.container.eventMode = 'static';
+		this.addEventListeners();
+	}
+
+	private addEventListeners(): void {
+		this.container.on('pointerdown', this.onPointerDown, this);
+		this.container.on('globalpointermove', this.onPointerMove, this);
+		this.container.on('pointerup', this.onPointerUp, this);
+		this.container.on('pointerupoutside', this.onPointerUp, this);
+	}
+
+	private removeEventListeners(): void {
+		this.container.off('pointerdown', this.onPointerDown, this);
+		this.container.off('globalpointermove', this.onPointerMove, this);
+		this.container.off('pointerup', this.onPointerUp, this);
+		this.container.off('pointerupoutside', this.onPointerUp, this);
+	}
+
+	/**
+	 * Whether a card is being dragged
+	 */
+	public isDragging(card: T): boolean {
+		return [...this.drags.values()].some(drag => drag.card === card);
+	}
+
+	/**
+	 * Drops every held card as cancelled, e.g. before the cards are dealt elsewhere
+	 */
+	public cancelAll(): void {
+		const drags = [...this.drags.values()];
+		this.drags.clear();
+		drags.forEach(drag => this.handlers.onDrop(drag.card, true));
+	}
+
+	private onPointerDown(event: FederatedPointerEvent): void {
+		// A pointer only drags one card at a time
+		if (this.drags.has(event.pointerId)) return;
+
+		const card = event.target as T;
+		if (card.parent !== this.container || this.isDragging(card)) return;
+		if (!this.handlers.onGrab(card)) return;
+
+		event.stopPropagation();
+		const pointer = this.container.toLocal(event.global);
+		this.drags.set(event.pointerId, {
+			card,
+			offsetX: card.x - pointer.x,
+			offsetY: card.y - pointer.y,
+		});
+		this.container.setChildIndex(card, this.container.children.length - 1);
+	}
+
+	private onPointerMove(event: FederatedPointerEvent): void {
+		const drag = this.drags.get(event.pointerId);
+		if (!drag) return;
+
+		const pointer = this.container.toLocal(event.global);
+		drag.card.x = pointer.x + drag.offsetX;
+		drag.card.y = pointer.y + drag.offsetY;
+	}
+
+	private onPointerUp(event: FederatedPointerEvent): void {
+		const drag = this.drags.get(event.pointerId);
+		if (!drag) return;
+
+		this.drags.delete(event.pointerId);
+		this.handlers.onDrop(drag.card, false);
+	}
+
+	/**
+	 * Stops listening, leaving held cards where they are
+	 */
+	public destroy(): void {
+		this.removeEventListeners();
+		this.drags.clear();
+	}
+}
@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest';
+import { dealToStacks, planDeal } from './Deal';
+import { EXODIA_PIECES, isExodiaComplete, type CardData } from './Deck';
+import {
+	DEFAULT_DECK_SETTINGS,
+	STACK_LAYOUTS,
+	type DeckSettings,
+} from './DeckSettings';
+import { getPlayerSeatIndex, layoutStacks } from './StackSeats';
+
+const HAND_SIZE = EXODIA_PIECES.length;
+
+/**
+ * Gets the top five cards of the player's stack once the deck is dealt, the hand the win sequence reveals
+ */
+function dealHand(
+	seed: number,
+	settings: Partial<DeckSettings> = {}
+): CardData[] {
+	const { cardCount, stackCount, dealOrder, layout } = {
+		...DEFAULT_DECK_SETTINGS,
+		...settings,
+	};
+	const stacks = dealToStacks(
+		planDeal({ cardCount, stackCount, dealOrder }, seed),
+		stackCount
+	);
+	const player = getPlayerSeatIndex(
+		layoutStacks(layout, stackCount, 1920, 1080, 200)
+	);
+	return stacks[player].slice(-HAND_SIZE);
+}
+
+describe('planDeal', () => {
+	it('gives the same deal for the same seed', () => {
+		expect(planDeal(DEFAULT_DECK_SETTINGS, 42)).toEqual(
+			planDeal(DEFAULT_DECK_SETTINGS, 42)
+		);
+	});
+
+	it('gives a different deal for a different seed', () => {
+		expect(planDeal(DEFAULT_DECK_SETTINGS, 42)).not.toEqual(
+			planDeal(DEFAULT_DECK_SETTINGS, 43)
+		);
+	});
+
+	it('deals every card once, to a stack that exists', () => {
+		const settings = {
+			cardCount: 50,
+			stackCount: 5,
+			dealOrder: 'random' as const,
+		};
+		const plan = planDeal(settings, 7);
+		expect(plan.stackIndices).toHaveLength(50);
+		plan.stackIndices.forEach(index => {
+			expect(index).toBeGreaterThanOrEqual(0);
+			expect(index).toBeLessThan(5);
+		});
+
+		const stacks = dealToStacks(plan, settings.stackCount);
+		expect(
+			stacks
+				.flat()
+				.map(card => card.id)
+				.sort()
+		).toEqual(plan.pile.map(card => card.id).sort());
+	});
+
+	it('deals the top card of the pile first', () => {
+		const plan = planDeal(
+			{ cardCount: 4, stackCount: 2, dealOrder: 'round-robin' },
+			1
+		);
+		const [first, second] = dealToStacks(plan, 2);
+		expect(first.map(card => card.id)).toEqual([
+			plan.pile[3].id,
+			plan.pile[1].id,
+		]);
+		expect(second.map(card => card.id)).toEqual([
+			plan.pile[2].id,
+			plan.pile[0].id,
+		]);
+	});
+});
+
+describe('getPlayerSeatIndex', () => {
+	it('picks the stack at the bottom of the table', () => {
+		STACK_LAYOUTS.forEach(layout => {
+			const seats = layoutStacks(layout, 4, 1920, 1080, 200);
+			const player = seats[getPlayerSeatIndex(seats)];
+			seats.forEach(seat => expect(seat.y).toBeLessThanOrEqual(player.y));
+		});
+	});
+
+	it('picks the second of two stacks in rows', () => {
+		expect(
+			getPlayerSeatIndex(layoutStacks('rows', 2, 1920, 1080, 200))
+		).toBe(1);
+	});
+});
+
+describe('the win check on dealt hands', () => {
+	it('wins the deal the README gives, ?cards=10&seed=64', () => {
+		expect(isExodiaComplete(dealHand(64, { cardCount: 10 }))).toBe(true);
+	});
+
+	it('wins other known winning deals', () => {
+		[563, 724, 1431].forEach(seed => {
+			expect(isExodiaComplete(dealHand(seed, { cardCount: 10 }))).toBe(
+				true
+			);
+		});
+		expect(isExodiaComplete(dealHand(76, { cardCount: 12 }))).toBe(true);
+	});
+
+	it('loses known losing deals', () => {
+		[0, 1, 63, 65].forEach(seed => {
+			expect(isExodiaComplete(dealHand(seed, { cardCount: 10 }))).toBe(
+				false
+			);
+		});
+	});
+
+	it("loses when a piece is buried under the top five of the player's stack", () => {
+		// The player's stack gets six of the 12 cards, all five pieces among them but one under the top five
+		[85, 249].forEach(seed => {
+			const hand = dealHand(seed, { cardCount: 12 });
+			expect(
+				hand.filter(card => card.id.startsWith('exodia-'))
+			).toHaveLength(HAND_SIZE - 1);
+			expect(isExodiaComplete(hand)).toBe(false);
+		});
+	});
+
+	it('loses the default deal of 144 cards for a known seed', () => {
+		expect(isExodiaComplete(dealHand(42))).toBe(false);
+	});
+});
@@ -0,0 +1,60 @@
+import {
+	createExodiaDeck,
+	createSeededRandom,
+	Deck,
+	type CardData,
+} from './Deck';
+import { createDealOrder, type DeckSettings } from './DeckSettings';
+
+/**
+ * A deal of the Ace of Shadows deck, worked out before any card moves
+ *
+ * @property pile - The shuffled central pile, from its bottom card to its top card
+ * @property stackIndices - The stack each card is dealt to, in the order they are dealt, the pile's top card first
+ */
+export interface DealPlan {
+	pile: CardData[];
+	stackIndices: number[];
+}
+
+/**
+ * Shuffles an Exodia deck and picks the stack each card is dealt to. The seed drives both, so that it repeats
+ * the whole deal
+ *
+ * @param settings - The card count, the stack count and the dealing order
+ * @param seed - The seed, a 32-bit unsigned integer
+ * @returns The deal
+ */
+export function planDeal(
+	settings: Pick<DeckSettings, 'cardCount' | 'stackCount' | 'dealOrder'>,
+	seed: number
+): DealPlan {
+	const random = createSeededRandom(seed);
+	const deck = new Deck(createExodiaDeck(settings.cardCount));
+	deck.shuffle(random);
+
+	const nextStackIndex = createDealOrder(
+		settings.dealOrder,
+		settings.stackCount,
+		random
+	);
+	return {
+		pile: [...deck.getCards()],
+		stackIndices: deck.getCards().map(() => nextStackIndex()),
+	};
+}
+
+/**
+ * Gets the stacks once every card of a deal is dealt
+ * @param plan - The deal
+ * @param stackCount - The number of stacks
+ * @returns The cards of each stack, from its bottom card to its top card
+ */
+export function dealToStacks(plan: DealPlan, stackCount: number): CardData[][] {
+	const stacks: CardData[][] = Array.from({ length: stackCount }, () => []);
+	const deck = new Deck(plan.pile);
+	plan.stackIndices.forEach(stackIndex => {
+		stacks[stackIndex].push(deck.draw()!);
+	});
+	return stacks;
+}
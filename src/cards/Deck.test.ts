@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import {
+	createExodiaDeck,
+	createSeededRandom,
+	Deck,
+	EXODIA_PIECES,
+	isExodiaComplete,
+} from './Deck';
+
+const HAND_SIZE = EXODIA_PIECES.length;
+
+function shuffledIds(cardCount: number, seed: number): string[] {
+	const deck = new Deck(createExodiaDeck(cardCount));
+	deck.shuffle(createSeededRandom(seed));
+	return deck.getCards().map(card => card.id);
+}
+
+describe('createSeededRandom', () => {
+	it('gives the same numbers for the same seed', () => {
+		const a = createSeededRandom(42);
+		const b = createSeededRandom(42);
+		const numbers = Array.from({ length: 100 }, () => a());
+		expect(Array.from({ length: 100 }, () => b())).toEqual(numbers);
+	});
+
+	it('gives different numbers for different seeds', () => {
+		const a = createSeededRandom(1);
+		const b = createSeededRandom(2);
+		expect(Array.from({ length: 10 }, () => a())).not.toEqual(
+			Array.from({ length: 10 }, () => b())
+		);
+	});
+
+	it('gives numbers from 0 included to 1 excluded', () => {
+		[0, 1, 2 ** 32 - 1].forEach(seed => {
+			const random = createSeededRandom(seed);
+			for (let i = 0; i < 1000; i++) {
+				const value = random();
+				expect(value).toBeGreaterThanOrEqual(0);
+				expect(value).toBeLessThan(1);
+			}
+		});
+	});
+});
+
+describe('Deck.shuffle', () => {
+	it('gives the same order for the same seed', () => {
+		expect(shuffledIds(144, 42)).toEqual(shuffledIds(144, 42));
+	});
+
+	it('gives different orders for different seeds', () => {
+		expect(shuffledIds(144, 42)).not.toEqual(shuffledIds(144, 43));
+	});
+
+	it('is a permutation of the deck', () => {
+		const unshuffled = createExodiaDeck(144).map(card => card.id);
+		[0, 7, 42, 2 ** 32 - 1].forEach(seed => {
+			const ids = shuffledIds(144, seed);
+			expect(ids).toHaveLength(unshuffled.length);
+			expect([...ids].sort()).toEqual([...unshuffled].sort());
+		});
+	});
+
+	it('handles empty and single card decks', () => {
+		expect(shuffledIds(0, 42)).toEqual([]);
+		expect(shuffledIds(1, 42)).toEqual([EXODIA_PIECES[0].id]);
+	});
+});
+
+describe('isExodiaComplete', () => {
+	const pieces = () => EXODIA_PIECES.map(piece => ({ ...piece }));
+	const fillers = createExodiaDeck(20).slice(HAND_SIZE);
+
+	it('passes with all five pieces, in any order', () => {
+		expect(isExodiaComplete(pieces())).toBe(true);
+		expect(isExodiaComplete(pieces().reverse())).toBe(true);
+	});
+
+	it('fails when a piece is missing', () => {
+		EXODIA_PIECES.forEach((_, index) => {
+			const hand = pieces();
+			hand.splice(index, 1, fillers[0]);
+			expect(isExodiaComplete(hand)).toBe(false);
+		});
+		expect(isExodiaComplete([])).toBe(false);
+		expect(isExodiaComplete(fillers)).toBe(false);
+	});
+
+	it('fails when a piece is repeated in place of another', () => {
+		const hand = pieces();
+		hand[4] = { ...hand[0] };
+		expect(isExodiaComplete(hand)).toBe(false);
+	});
+});
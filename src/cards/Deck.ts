@@ -0,0 +1,168 @@
+/**
+ * A card, independent of the sprite showing it
+ *
+ * @property id - Unique within its deck, e.g. 'exodia-left-arm' or 'card-12'
+ * @property name - The card's name, e.g. 'Left Arm of the Forbidden One'
+ * @property faceTexture - The texture of its face, or null for cards without art, which show their back dimmed when revealed
+ * @property backTexture - The texture of its back
+ */
+export interface CardData {
+	id: string;
+	name: string;
+	faceTexture: string | null;
+	backTexture: string;
+}
+
+export const CARD_BACK_TEXTURE = 'assets/sprites/yu-gi-oh_small.png';
+
+/**
+ * The five pieces of Exodia, in the order of the duel disk's card holders, from the right leg to the left leg
+ */
+export const EXODIA_PIECES: readonly CardData[] = [
+	{
+		id: 'exodia-right-leg',
+		name: 'Right Leg of the Forbidden One',
+		faceTexture: 'assets/sprites/exodia_right_leg.png',
+		backTexture: CARD_BACK_TEXTURE,
+	},
+	{
+		id: 'exodia-right-arm',
+		name: 'Right Arm of the Forbidden One',
+		faceTexture: 'assets/sprites/exodia_right_arm.png',
+		backTexture: CARD_BACK_TEXTURE,
+	},
+	{
+		id: 'exodia-forbidden-one',
+		name: 'Exodia the Forbidden One',
+		faceTexture: 'assets/sprites/exodia_forbidden_one.png',
+		backTexture: CARD_BACK_TEXTURE,
+	},
+	{
+		id: 'exodia-left-arm',
+		name: 'Left Arm of the Forbidden One',
+		faceTexture: 'assets/sprites/exodia_left_arm.png',
+		backTexture: CARD_BACK_TEXTURE,
+	},
+	{
+		id: 'exodia-left-leg',
+		name: 'Left Leg of the Forbidden One',
+		faceTexture: 'assets/sprites/exodia_left_leg.png',
+		backTexture: CARD_BACK_TEXTURE,
+	},
+];
+
+// Names the rest of the deck cycles through, as there is no art for them
+const FILLER_CARD_NAMES = [
+	'Kuriboh',
+	'Dark Magician',
+	'Blue-Eyes White Dragon',
+	'Celtic Guardian',
+	'Mystical Elf',
+	'Feral Imp',
+	'Giant Soldier of Stone',
+	'Summoned Skull',
+];
+
+/**
+ * Creates the cards of an Exodia deck: the five pieces of Exodia, or as many as fit, then cards without art
+ * @param cardCount - The number of cards
+ * @returns The cards, Exodia first, unshuffled
+ */
+export function createExodiaDeck(cardCount: number): CardData[] {
+	return Array.from({ length: cardCount }, (_, i) =>
+		i < EXODIA_PIECES.length
+			? { ...EXODIA_PIECES[i] }
+			: {
+					id: `card-${i + 1}`,
+					name: FILLER_CARD_NAMES[
+						(i - EXODIA_PIECES.length) % FILLER_CARD_NAMES.length
+					],
+					faceTexture: null,
+					backTexture: CARD_BACK_TEXTURE,
+				}
+	);
+}
+
+/**
+ * Gets the index of an Exodia piece in EXODIA_PIECES
+ * @returns The index, or -1 if the card is not a piece of Exodia
+ */
+export function getExodiaPieceIndex(card: CardData): number {
+	return EXODIA_PIECES.findIndex(piece => piece.id === card.id);
+}
+
+/**
+ * Whether the cards hold all five pieces of Exodia
+ */
+export function isExodiaComplete(cards: readonly CardData[]): boolean {
+	return EXODIA_PIECES.every(piece =>
+		cards.some(card => card.id === piece.id)
+	);
+}
+
+/**
+ * Creates a random seed for createSeededRandom
+ */
+export function createSeed(): number {
+	return Math.floor(Math.random() * 2 ** 32);
+}
+
+/**
+ * Creates a random number generator that always gives the same numbers for the same seed (mulberry32)
+ * @param seed - The seed, a 32-bit unsigned integer
+ * @returns A function giving numbers from 0 included to 1 excluded, like Math.random
+ */
+export function createSeededRandom(seed: number): () => number {
+	let state = seed >>> 0;
+	return () => {
+		state = (state + 0x6d2b79f5) >>> 0;
+		let t = state;
+		t = Math.imul(t ^ (t >>> 15), t | 1);
+		t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+		return ((t ^ (t >>> 14)) >>> 0) / 2 ** 32;
+	};
+}
+
+/**
+ * A deck of cards, face down, that can be shuffled and drawn from the top
+ *
+ * @param cards - The cards, from the bottom of the deck to the top
+ */
+export class Deck {
+	// Core
+	private cards: CardData[];
+
+	constructor(cards: CardData[]) {
+		this.cards = [...cards];
+	}
+
+	/**
+	 * Gets the cards left, from the bottom of the deck to the top
+	 */
+	public getCards(): readonly CardData[] {
+		return this.cards;
+	}
+
+	public getSize(): number {
+		return this.cards.length;
+	}
+
+	/**
+	 * Shuffles the deck in place (Fisher-Yates)
+	 * @param random - Gives numbers from 0 included to 1 excluded, e.g. createSeededRandom(seed) for a repeatable shuffle
+	 */
+	public shuffle(random: () => number = Math.random): void {
+		for (let i = this.cards.length - 1; i > 0; i--) {
+			const j = Math.floor(random() * (i + 1));
+			[this.cards[i], this.cards[j]] = [this.cards[j], this.cards[i]];
+		}
+	}
+
+	/**
+	 * Takes the top card off the deck
+	 * @returns The card, or undefined if the deck is empty
+	 */
+	public draw(): CardData | undefined {
+		return this.cards.pop();
+	}
+}
@@ -0,0 +1,235 @@
+import { ValidationReport, type ValidationResult } from '../core/Validation';
+
+/**
+ * How the stacks are laid out around the central pile:
+ * in a row along the top and bottom edges, on a ring around the pile, or in a column along the left and right edges
+ */
+export type StackLayout = 'rows' | 'ring' | 'columns';
+
+/**
+ * Which stack each card is dealt to: back and forth across the stacks, to a random one, or to each one in turn
+ */
+export type DealOrder = 'alternate' | 'random' | 'round-robin';
+
+export const STACK_LAYOUTS: readonly StackLayout[] = [
+	'rows',
+	'ring',
+	'columns',
+];
+export const DEAL_ORDERS: readonly DealOrder[] = [
+	'alternate',
+	'random',
+	'round-robin',
+];
+
+/**
+ * How the Ace of Shadows deck is dealt. Can be set with URL parameters, e.g. ?cards=60&stacks=4&layout=ring
+ *
+ * @property cardCount - Number of cards in the central pile. Set with `cards`
+ * @property stackCount - Number of stacks the cards are dealt to, from 2 to 8. Set with `stacks`
+ * @property layout - How the stacks are laid out around the pile. Set with `layout`
+ * @property dealIntervalMS - Time between two cards being dealt, in milliseconds. Set with `interval`
+ * @property animationDurationMS - Time a card takes to reach its stack, in milliseconds. Set with `duration`
+ * @property dealOrder - Which stack each card is dealt to. Set with `order`
+ * @property seed - Seed of the shuffle and of the random dealing order, to repeat a deal, or null for a new one every time.
+ * Set with `seed`, a whole number from 0 to 4294967295
+ */
+export interface DeckSettings {
+	cardCount: number;
+	stackCount: number;
+	layout: StackLayout;
+	dealIntervalMS: number;
+	animationDurationMS: number;
+	dealOrder: DealOrder;
+	seed: number | null;
+}
+
+export type NumericDeckSetting =
+	'cardCount' | 'stackCount' | 'dealIntervalMS' | 'animationDurationMS';
+
+export const DEFAULT_DECK_SETTINGS: DeckSettings = {
+	cardCount: 144,
+	stackCount: 2,
+	layout: 'rows',
+	dealIntervalMS: 1000,
+	animationDurationMS: 2000,
+	dealOrder: 'alternate',
+	seed: null,
+};
+
+/**
+ * Range of each numeric setting, and the values the settings panel steps through
+ */
+export const DECK_SETTING_LIMITS: Record<
+	NumericDeckSetting,
+	{ min: number; max: number; steps: number[] }
+> = {
+	cardCount: {
+		min: 1,
+		max: 1000,
+		steps: [12, 24, 48, 72, 96, 144, 200, 300, 500, 1000],
+	},
+	stackCount: { min: 2, max: 8, steps: [2, 3, 4, 5, 6, 7, 8] },
+	dealIntervalMS: {
+		min: 10,
+		max: 10000,
+		steps: [10, 50, 100, 250, 500, 1000, 2000, 5000],
+	},
+	animationDurationMS: {
+		min: 50,
+		max: 10000,
+		steps: [100, 250, 500, 1000, 2000, 3000, 5000],
+	},
+};
+
+// URL parameter of each setting
+const SETTING_PARAMS: Record<keyof DeckSettings, string> = {
+	cardCount: 'cards',
+	stackCount: 'stacks',
+	layout: 'layout',
+	dealIntervalMS: 'interval',
+	animationDurationMS: 'duration',
+	dealOrder: 'order',
+	seed: 'seed',
+};
+
+// Largest seed, as seeds are 32-bit unsigned integers
+const MAX_SEED = 2 ** 32 - 1;
+
+// Settings that must be whole numbers
+const INTEGER_SETTINGS: NumericDeckSetting[] = ['cardCount', 'stackCount'];
+
+/**
+ * Reads the deck settings from URL parameters. Missing ones keep their default, out of range ones are clamped,
+ * and invalid ones are reported and keep their default
+ *
+ * @param search - The URL's query string, e.g. location.search
+ * @returns The settings, never null
+ */
+export function readDeckSettings(
+	search: string
+): ValidationResult<DeckSettings> {
+	const report = new ValidationReport();
+	const params = new URLSearchParams(search);
+	const settings: DeckSettings = { ...DEFAULT_DECK_SETTINGS };
+
+	(Object.keys(DECK_SETTING_LIMITS) as NumericDeckSetting[]).forEach(key => {
+		const param = SETTING_PARAMS[key];
+		const raw = params.get(param);
+		if (raw === null) return;
+
+		const value = Number(raw);
+		const isInteger = INTEGER_SETTINGS.includes(key);
+		if (
+			raw.trim() === '' ||
+			!Number.isFinite(value) ||
+			(isInteger && !Number.isInteger(value))
+		) {
+			report.warn(
+				param,
+				`must be a ${isInteger ? 'whole number' : 'number'}, got '${raw}', using ${settings[key]}`
+			);
+			return;
+		}
+
+		const { min, max } = DECK_SETTING_LIMITS[key];
+		settings[key] = Math.min(Math.max(value, min), max);
+		if (settings[key] !== value) {
+			report.warn(
+				param,
+				`must be from ${min} to ${max}, got ${value}, using ${settings[key]}`
+			);
+		}
+	});
+
+	const layout = params.get(SETTING_PARAMS.layout);
+	if (layout !== null) {
+		if (STACK_LAYOUTS.includes(layout as StackLayout)) {
+			settings.layout = layout as StackLayout;
+		} else {
+			report.warn(
+				SETTING_PARAMS.layout,
+				`must be one of ${STACK_LAYOUTS.join(', ')}, got '${layout}', using ${settings.layout}`
+			);
+		}
+	}
+
+	const dealOrder = params.get(SETTING_PARAMS.dealOrder);
+	if (dealOrder !== null) {
+		if (DEAL_ORDERS.includes(dealOrder as DealOrder)) {
+			settings.dealOrder = dealOrder as DealOrder;
+		} else {
+			report.warn(
+				SETTING_PARAMS.dealOrder,
+				`must be one of ${DEAL_ORDERS.join(', ')}, got '${dealOrder}', using ${settings.dealOrder}`
+			);
+		}
+	}
+
+	const seed = params.get(SETTING_PARAMS.seed);
+	if (seed !== null) {
+		const value = Number(seed);
+		if (
+			seed.trim() !== '' &&
+			Number.isInteger(value) &&
+			value >= 0 &&
+			value <= MAX_SEED
+		) {
+			settings.seed = value;
+		} else {
+			report.warn(
+				SETTING_PARAMS.seed,
+				`must be a whole number from 0 to ${MAX_SEED}, got '${seed}', ignored`
+			);
+		}
+	}
+
+	return report.result(settings);
+}
+
+/**
+ * Writes the deck settings to the URL parameters, leaving defaults out, so that the current URL can be shared.
+ * Replaces the current history entry, keeping the URL hash
+ */
+export function writeDeckSettings(settings: DeckSettings): void {
+	const url = new URL(location.href);
+	(Object.keys(SETTING_PARAMS) as (keyof DeckSettings)[]).forEach(key => {
+		const param = SETTING_PARAMS[key];
+		if (settings[key] === DEFAULT_DECK_SETTINGS[key]) {
+			url.searchParams.delete(param);
+		} else {
+			url.searchParams.set(param, String(settings[key]));
+		}
+	});
+	history.replaceState(history.state, '', url);
+}
+
+/**
+ * Picks the stack each card is dealt to
+ * @param order - The dealing order
+ * @param stackCount - The number of stacks
+ * @param random - Gives numbers from 0 included to 1 excluded, for the random order
+ * @returns A function giving the index of the stack the next card goes to, starting with the first stack
+ */
+export function createDealOrder(
+	order: DealOrder,
+	stackCount: number,
+	random: () => number = Math.random
+): () => number {
+	let dealt = 0;
+	return () => {
+		const index = dealt++;
+		switch (order) {
+			case 'random':
+				return Math.floor(random() * stackCount);
+			case 'round-robin':
+				return index % stackCount;
+			case 'alternate': {
+				// 0, 1, ..., n - 1, n - 2, ..., 1, then again
+				const period = Math.max(2 * (stackCount - 1), 1);
+				const position = index % period;
+				return position < stackCount ? position : period - position;
+			}
+		}
+	};
+}
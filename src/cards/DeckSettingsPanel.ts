@@ -0,0 +1,457 @@
+import {
+	Application,
+	Container,
+	Graphics,
+	Text,
+	TextStyle,
+	type FederatedPointerEvent,
+} from 'pixi.js';
+import { fitText, scaled } from '../core/Utils';
+import { i18n, type MessageKey } from '../core/I18n';
+import { Button } from '../ui/Button';
+import {
+	DEAL_ORDERS,
+	DECK_SETTING_LIMITS,
+	STACK_LAYOUTS,
+	type DealOrder,
+	type DeckSettings,
+	type NumericDeckSetting,
+	type StackLayout,
+} from './DeckSettings';
+
+/**
+ * Callback of the settings panel's apply button, with the picked settings
+ */
+export interface DeckSettingsPanelHandlers {
+	onApply: (settings: DeckSettings) => void;
+}
+
+// Settings listed on the panel. The seed is only set with URL parameters
+type PanelSetting = Exclude<keyof DeckSettings, 'seed'>;
+
+interface SettingRow {
+	key: PanelSetting;
+	label: Text;
+	value: Text;
+	decreaseButton: Button;
+	increaseButton: Button;
+}
+
+// Settings in the order they are listed, with their label
+const SETTING_LABELS: [PanelSetting, MessageKey][] = [
+	['cardCount', 'aceOfShadows.cardCount'],
+	['stackCount', 'aceOfShadows.stackCount'],
+	['layout', 'aceOfShadows.layout'],
+	['dealOrder', 'aceOfShadows.dealOrder'],
+	['dealIntervalMS', 'aceOfShadows.dealInterval'],
+	['animationDurationMS', 'aceOfShadows.animationDuration'],
+];
+
+const LAYOUT_NAMES: Record<StackLayout, MessageKey> = {
+	rows: 'aceOfShadows.layoutRows',
+	ring: 'aceOfShadows.layoutRing',
+	columns: 'aceOfShadows.layoutColumns',
+};
+
+const DEAL_ORDER_NAMES: Record<DealOrder, MessageKey> = {
+	alternate: 'aceOfShadows.orderAlternate',
+	random: 'aceOfShadows.orderRandom',
+	'round-robin': 'aceOfShadows.orderRoundRobin',
+};
+
+/**
+ * Overlay to change the Ace of Shadows deck settings, each with buttons stepping through its values.
+ * Changes only take effect once applied.
+ *
+ * Swallows all pointer events while open, so that clicks never reach the table underneath.
+ *
+ * @param app - The application, for the screen size
+ * @param handlers - Callback of the apply button
+ * @extends Container
+ */
+export class DeckSettingsPanel extends Container {
+	// UI Constants
+	private readonly OVERLAY_COLOR = 0x000000; // Black
+	private readonly OVERLAY_ALPHA = 0.6;
+	private readonly PANEL_COLOR = 0x222222; // Dark grey
+	private readonly PANEL_ALPHA = 0.95;
+	private readonly PANEL_WIDTH = 1000;
+	private readonly PANEL_PADDING = 32;
+	private readonly PANEL_BORDER_RADIUS = 16;
+	private readonly TITLE_FONT_SIZE = 48;
+	private readonly TITLE_HEIGHT = 80;
+	private readonly CLOSE_BUTTON_SIZE = 80;
+	private readonly ROW_HEIGHT = 90;
+	private readonly LABEL_FONT_SIZE = 32;
+	private readonly LABEL_COLOR = 0xffd700; // Golden
+	private readonly VALUE_FONT_SIZE = 32;
+	private readonly VALUE_COLOR = 0xffffff; // White
+	private readonly VALUE_WIDTH = 260;
+	private readonly STEP_BUTTON_SIZE = 70;
+	private readonly STEP_BUTTON_FONT_SIZE = 40;
+	private readonly STEP_BUTTON_SPACING = 16;
+	private readonly STEP_BUTTON_COLOR = 0x2196f3; // Blue
+	private readonly SEED_FONT_SIZE = 24;
+	private readonly SEED_COLOR = 0xaaaaaa; // Light grey
+	private readonly SEED_HEIGHT = 40;
+	private readonly APPLY_BUTTON_WIDTH = 300;
+	private readonly APPLY_BUTTON_HEIGHT = 80;
+	private readonly APPLY_BUTTON_FONT_SIZE = 32;
+	private readonly APPLY_BUTTON_COLOR = 0x4caf50; // Green
+	private readonly CLOSE_BUTTON_COLOR = 0xffd700; // Golden
+
+	// UI Elements
+	private overlay: Graphics;
+	private panel: Graphics;
+	private title: Text;
+	private closeButton: Button;
+	private applyButton: Button;
+	private rows: SettingRow[];
+	private seedText: Text;
+
+	// Core
+	private app: Application;
+	private handlers: DeckSettingsPanelHandlers;
+	private settings: DeckSettings | null = null;
+
+	constructor(app: Application, handlers: DeckSettingsPanelHandlers) {
+		super();
+		this.app = app;
+		this.handlers = handlers;
+		this.visible = false;
+
+		// Swallow pointer events meant for the table
+		this.eventMode = 'static';
+		this.hitArea = this.app.screen;
+		this.on('pointerdown', this.onPointerDown, this);
+
+		// Dimmed background
+		this.overlay = new Graphics();
+		this.addChild(this.overlay);
+
+		// Panel
+		this.panel = new Graphics();
+		this.addChild(this.panel);
+
+		// Title
+		this.title = new Text(
+			i18n.t('aceOfShadows.settings'),
+			new TextStyle({
+				fontFamily: 'Arial, sans-serif',
+				fill: 0xffffff,
+				fontWeight: 'bold',
+			})
+		);
+		this.title.anchor.set(0, 0.5);
+		this.addChild(this.title);
+
+		// Close button
+		this.closeButton = new Button({
+			emoji: '✖️',
+			color: this.CLOSE_BUTTON_COLOR,
+			width: this.CLOSE_BUTTON_SIZE,
+			height: this.CLOSE_BUTTON_SIZE,
+			margin: 1,
+			fontSize: this.TITLE_FONT_SIZE,
+			onClick: () => this.close(),
+		});
+		this.addChild(this.closeButton);
+
+		// A row per setting
+		this.rows = SETTING_LABELS.map(([key, labelKey]) => {
+			const label = new Text(
+				i18n.t(labelKey),
+				new TextStyle({
+					fontFamily: 'Arial, sans-serif',
+					fill: this.LABEL_COLOR,
+					fontWeight: 'bold',
+				})
+			);
+			label.anchor.set(0, 0.5);
+			const value = new Text(
+				'',
+				new TextStyle({
+					fontFamily: 'Arial, sans-serif',
+					fill: this.VALUE_COLOR,
+				})
+			);
+			value.anchor.set(0.5, 0.5);
+			this.addChild(label, value);
+
+			return {
+				key,
+				label,
+				value,
+				decreaseButton: this.createStepButton('−', () =>
+					this.step(key, -1)
+				),
+				increaseButton: this.createStepButton('+', () =>
+					this.step(key, 1)
+				),
+			};
+		});
+
+		// Seed of the current deal, to repeat it with the seed URL parameter
+		this.seedText = new Text(
+			'',
+			new TextStyle({
+				fontFamily: 'Arial, sans-serif',
+				fill: this.SEED_COLOR,
+			})
+		);
+		this.seedText.anchor.set(0.5, 0.5);
+		this.addChild(this.seedText);
+
+		// Apply button
+		this.applyButton = new Button({
+			text: i18n.t('aceOfShadows.apply'),
+			color: this.APPLY_BUTTON_COLOR,
+			width: this.APPLY_BUTTON_WIDTH,
+			height: this.APPLY_BUTTON_HEIGHT,
+			fontSize: this.APPLY_BUTTON_FONT_SIZE,
+			onClick: () => this.apply(),
+		});
+		this.addChild(this.applyButton);
+
+		this.onResize();
+	}
+
+	public isOpen(): boolean {
+		return this.visible;
+	}
+
+	/**
+	 * Shows the panel
+	 * @param settings - The settings in use, to start from
+	 * @param seed - The seed of the current deal, shown so that it can be repeated
+	 */
+	public open(settings: DeckSettings, seed: number): void {
+		this.settings = { ...settings };
+		this.seedText.text = i18n.t('aceOfShadows.seed', {
+			seed: String(seed),
+		});
+		this.visible = true;
+		this.refresh();
+	}
+
+	public close(): void {
+		this.visible = false;
+	}
+
+	private createStepButton(text: string, onClick: () => void): Button {
+		const button = new Button({
+			text,
+			color: this.STEP_BUTTON_COLOR,
+			width: this.STEP_BUTTON_SIZE,
+			height: this.STEP_BUTTON_SIZE,
+			fontSize: this.STEP_BUTTON_FONT_SIZE,
+			onClick,
+		});
+		this.addChild(button);
+		return button;
+	}
+
+	/**
+	 * Steps a setting to its next or previous value. Numbers stop at their first and last steps, choices wrap around
+	 * @param key - The setting
+	 * @param direction - 1 for the next value, -1 for the previous one
+	 */
+	private step(key: PanelSetting, direction: 1 | -1): void {
+		if (!this.settings) return;
+
+		if (key === 'layout') {
+			this.settings.layout = cycle(
+				STACK_LAYOUTS,
+				this.settings.layout,
+				direction
+			);
+		} else if (key === 'dealOrder') {
+			this.settings.dealOrder = cycle(
+				DEAL_ORDERS,
+				this.settings.dealOrder,
+				direction
+			);
+		} else {
+			const current = this.settings[key];
+			const steps = DECK_SETTING_LIMITS[key].steps;
+			const next =
+				direction > 0
+					? steps.find(value => value > current)
+					: [...steps].reverse().find(value => value < current);
+			this.settings[key] = next ?? current;
+		}
+		this.refresh();
+	}
+
+	private apply(): void {
+		if (!this.settings) return;
+
+		this.close();
+		this.handlers.onApply({ ...this.settings });
+	}
+
+	/**
+	 * Shows the current value of every setting
+	 */
+	private refresh(): void {
+		if (!this.settings) return;
+
+		this.rows.forEach(row => {
+			row.value.text = this.formatValue(row.key);
+		});
+		this.onResize();
+	}
+
+	private formatValue(key: PanelSetting): string {
+		const settings = this.settings!;
+		switch (key) {
+			case 'layout':
+				return i18n.t(LAYOUT_NAMES[settings.layout]);
+			case 'dealOrder':
+				return i18n.t(DEAL_ORDER_NAMES[settings.dealOrder]);
+			case 'dealIntervalMS':
+			case 'animationDurationMS':
+				return i18n.t('aceOfShadows.milliseconds', {
+					ms: settings[key],
+				});
+			default:
+				return settings[key as NumericDeckSetting].toLocaleString(
+					i18n.getLocale()
+				);
+		}
+	}
+
+	private onPointerDown(event: FederatedPointerEvent): void {
+		event.stopPropagation();
+	}
+
+	public onResize(): void {
+		const screenWidth = this.app.screen.width;
+		const screenHeight = this.app.screen.height;
+		const padding = scaled(this.PANEL_PADDING);
+		const rowHeight = scaled(this.ROW_HEIGHT);
+		const titleHeight = scaled(this.TITLE_HEIGHT);
+		const seedHeight = scaled(this.SEED_HEIGHT);
+		const applyButtonHeight = scaled(this.APPLY_BUTTON_HEIGHT);
+		const panelWidth = Math.min(scaled(this.PANEL_WIDTH), screenWidth);
+		const panelHeight =
+			padding * 3 +
+			titleHeight +
+			this.rows.length * rowHeight +
+			seedHeight +
+			applyButtonHeight;
+		const panelX = (screenWidth - panelWidth) * 0.5;
+		const panelY = (screenHeight - panelHeight) * 0.5;
+
+		this.overlay.clear();
+		this.overlay.beginFill(this.OVERLAY_COLOR, this.OVERLAY_ALPHA);
+		this.overlay.drawRect(0, 0, screenWidth, screenHeight);
+		this.overlay.endFill();
+
+		this.panel.clear();
+		this.panel.beginFill(this.PANEL_COLOR, this.PANEL_ALPHA);
+		this.panel.drawRoundedRect(
+			panelX,
+			panelY,
+			panelWidth,
+			panelHeight,
+			scaled(this.PANEL_BORDER_RADIUS)
+		);
+		this.panel.endFill();
+
+		this.title.style.fontSize = scaled(this.TITLE_FONT_SIZE);
+		this.title.x = panelX + padding;
+		this.title.y = panelY + padding + titleHeight * 0.5;
+
+		this.closeButton.x =
+			panelX +
+			panelWidth -
+			padding -
+			scaled(this.CLOSE_BUTTON_SIZE) * 0.5;
+		this.closeButton.y = this.title.y;
+		fitText(
+			this.title,
+			this.closeButton.x -
+				scaled(this.CLOSE_BUTTON_SIZE) * 0.5 -
+				this.title.x,
+			false
+		);
+
+		// Rows below the title, with their value between the step buttons on the right
+		const buttonSize = scaled(this.STEP_BUTTON_SIZE);
+		const buttonSpacing = scaled(this.STEP_BUTTON_SPACING);
+		const valueWidth = scaled(this.VALUE_WIDTH);
+		const increaseButtonX =
+			panelX + panelWidth - padding - buttonSize * 0.5;
+		const valueX =
+			increaseButtonX -
+			buttonSize * 0.5 -
+			buttonSpacing -
+			valueWidth * 0.5;
+		const decreaseButtonX =
+			valueX - valueWidth * 0.5 - buttonSpacing - buttonSize * 0.5;
+		const labelWidth =
+			decreaseButtonX -
+			buttonSize * 0.5 -
+			buttonSpacing -
+			panelX -
+			padding;
+		this.rows.forEach((row, i) => {
+			const rowY = panelY + padding + titleHeight + (i + 0.5) * rowHeight;
+
+			row.label.style.fontSize = scaled(this.LABEL_FONT_SIZE);
+			fitText(row.label, labelWidth, false);
+			row.label.x = panelX + padding;
+			row.label.y = rowY;
+			row.value.style.fontSize = scaled(this.VALUE_FONT_SIZE);
+			fitText(row.value, valueWidth, false);
+			row.value.x = valueX;
+			row.value.y = rowY;
+
+			row.decreaseButton.x = decreaseButtonX;
+			row.decreaseButton.y = rowY;
+			row.increaseButton.x = increaseButtonX;
+			row.increaseButton.y = rowY;
+		});
+
+		// Seed and apply button centered below the rows
+		this.seedText.style.fontSize = scaled(this.SEED_FONT_SIZE);
+		fitText(this.seedText, panelWidth - padding * 2, false);
+		this.seedText.x = screenWidth * 0.5;
+		this.seedText.y =
+			panelY +
+			padding +
+			titleHeight +
+			this.rows.length * rowHeight +
+			seedHeight * 0.5;
+		this.applyButton.x = screenWidth * 0.5;
+		this.applyButton.y =
+			panelY + panelHeight - padding - applyButtonHeight * 0.5;
+	}
+
+	public destroy(): void {
+		this.off('pointerdown', this.onPointerDown, this);
+		this.rows.forEach(row => {
+			row.label.destroy();
+			row.value.destroy();
+			row.decreaseButton.destroy();
+			row.increaseButton.destroy();
+		});
+		this.rows = [];
+		this.overlay.destroy();
+		this.panel.destroy();
+		this.title.destroy();
+		this.seedText.destroy();
+		this.closeButton.destroy();
+		this.applyButton.destroy();
+		super.destroy();
+	}
+}
+
+/**
+ * Gets the choice before or after the current one, wrapping around
+ */
+function cycle<T>(choices: readonly T[], current: T, direction: 1 | -1): T {
+	const index = choices.indexOf(current);
+	return choices[(index + direction + choices.length) % choices.length];
+}
@@ -0,0 +1,140 @@
+import type { StackLayout } from './DeckSettings';
+
+/**
+ * Where a stack sits on the table.
+ *
+ * @property x - The x position of the stack's duel disk center
+ * @property y - The y position of the stack's duel disk center
+ * @property rotation - The rotation of the duel disk, in radians. 0 faces up, like a stack at the bottom of the screen
+ */
+export interface StackSeat {
+	x: number;
+	y: number;
+	rotation: number;
+}
+
+/**
+ * Lays out the stacks around the central pile, in clockwise order from the top, facing the pile.
+ * Two stacks in rows or on a ring sit at the top and the bottom of the table, like the original two-stack layout
+ *
+ * @param layout - How the stacks are laid out
+ * @param count - The number of stacks
+ * @param width - The width of the table
+ * @param height - The height of the table
+ * @param inset - The distance from the edges of the table to the duel disk centers
+ * @returns The seat of each stack
+ */
+export function layoutStacks(
+	layout: StackLayout,
+	count: number,
+	width: number,
+	height: number,
+	inset: number
+): StackSeat[] {
+	if (layout === 'rows') {
+		// Top row left to right, then bottom row right to left
+		const topCount = Math.ceil(count / 2);
+		const bottomCount = count - topCount;
+		return [
+			...spread(topCount, width).map(x => ({
+				x,
+				y: inset,
+				rotation: Math.PI,
+			})),
+			...spread(bottomCount, width)
+				.reverse()
+				.map(x => ({ x, y: height - inset, rotation: 0 })),
+		];
+	}
+
+	if (layout === 'columns') {
+		// Right column top to bottom, then left column bottom to top
+		const rightCount = Math.ceil(count / 2);
+		const leftCount = count - rightCount;
+		return [
+			...spread(rightCount, height).map(y => ({
+				x: width - inset,
+				y,
+				rotation: -Math.PI * 0.5,
+			})),
+			...spread(leftCount, height)
+				.reverse()
+				.map(y => ({ x: inset, y, rotation: Math.PI * 0.5 })),
+		];
+	}
+
+	// Ring, on an ellipse starting at the top
+	const centerX = width * 0.5;
+	const centerY = height * 0.5;
+	const radiusX = Math.max(centerX - inset, 0);
+	const radiusY = Math.max(centerY - inset, 0);
+	return Array.from({ length: count }, (_, i) => {
+		const angle = (Math.PI * 2 * i) / count;
+		const x = centerX + Math.sin(angle) * radiusX;
+		const y = centerY - Math.cos(angle) * radiusY;
+		return {
+			x,
+			y,
+			rotation: Math.atan2(centerX - x, y - centerY),
+		};
+	});
+}
+
+/**
+ * Gets the shortest distance between two seats, or Infinity if there is only one
+ */
+export function getSeatSpacing(seats: StackSeat[]): number {
+	let spacing = Infinity;
+	seats.forEach((seat, i) => {
+		seats.slice(i + 1).forEach(other => {
+			spacing = Math.min(
+				spacing,
+				Math.hypot(other.x - seat.x, other.y - seat.y)
+			);
+		});
+	});
+	return spacing;
+}
+
+/**
+ * Gets the seat of the player's stack, which the win sequence deals from: the one nearest the bottom of the table.
+ * The first one wins ties
+ *
+ * @returns The index of the seat
+ */
+export function getPlayerSeatIndex(seats: StackSeat[]): number {
+	return seats.reduce(
+		(player, seat, i) => (seat.y > seats[player].y + 1 ? i : player),
+		0
+	);
+}
+
+/**
+ * Moves an offset from a seat's own frame, where it faces up, to the table
+ * @param seat - The seat
+ * @param x - The offset's x, e.g. to the left of the duel disk center when negative
+ * @param y - The offset's y, e.g. towards the player when positive
+ * @returns The offset position on the table
+ */
+export function toTable(
+	seat: StackSeat,
+	x: number,
+	y: number
+): { x: number; y: number } {
+	const cos = Math.cos(seat.rotation);
+	const sin = Math.sin(seat.rotation);
+	return {
+		x: seat.x + x * cos - y * sin,
+		y: seat.y + x * sin + y * cos,
+	};
+}
+
+/**
+ * Spreads evenly spaced positions across a length, each in the middle of its share
+ */
+function spread(count: number, length: number): number[] {
+	return Array.from(
+		{ length: count },
+		(_, i) => (length * (i + 0.5)) / count
+	);
+}
@@ -1,84 +1,158 @@
 import { Assets, Texture } from 'pixi.js';
+import type { EmitterConfigV3 } from '@pixi/particle-emitter';
 import { LoadingScreen } from '../scenes/LoadingScreen';
-import { convertUrlToBase64 } from './Utils';
-import { sound } from '@pixi/sound';
+import {
+	fetchJsonWithRetry,
+	fetchTextWithRetry,
+	withTimeout,
+	type FetchRetryOptions,
+} from './Utils';
+import { audio } from './AudioManager';
+import { logValidationResult } from './Validation';
+import {
+	getParticleTexturePaths,
+	validateParticleConfig,
+} from './ParticleConfig';
+import {
+	validateDialogueData,
+	type DialogueData,
+} from '../dialogue/DialogueData';
+import { DIALOGUE_AUTHORING_FILE } from '../dialogue/DialogueAuthoring';
+import { getDialogueFormat, importDialogue } from '../dialogue/DialogueImport';
+import { i18n } from './I18n';
 
 type AssetList = string[];
 
-const regularAssets: AssetList = [
-	// Main Menu
-	'assets/sprites/softgames_logo.png',
-	// Ace of Shadows
-	'assets/sprites/yu-gi-oh_small.png',
-	'assets/sprites/duel_disk.png',
-	'assets/sprites/duel_disk_card_holder.png',
-	'assets/sprites/street.jpg',
-	'assets/sprites/exodia_forbidden_one.png',
-	'assets/sprites/exodia_left_arm.png',
-	'assets/sprites/exodia_left_leg.png',
-	'assets/sprites/exodia_right_arm.png',
-	'assets/sprites/exodia_right_leg.png',
-	// Magic Words
-	'assets/sprites/neighbourhood.jpg',
-	'assets/sprites/unknown.png',
-];
-
-const backgroundVideoAssets: AssetList = ['assets/videos/space.mp4'];
-
-const videoAssets: AssetList = ['assets/videos/exodia_obliterate.mp4'];
-
-const dialogueAssets: AssetList = [
-	// 'dialogue/magicwords.json',
-	'https://private-624120-softgamesassignment.apiary-mock.com/v2/magicwords',
-];
-
-const particleConfigAssets: AssetList = [
-	'assets/particles/flame.json',
-	'assets/particles/flame_hotter.json',
-];
-
-const audioAssets: AssetList = [
-	// Ace of Shadows
-	'assets/audio/deal_1.mp3',
-	'assets/audio/deal_2.mp3',
-	'assets/audio/card_flip.mp3',
-	'assets/audio/yu-gi-oh_full_theme.mp3',
-	// Magic Words
-	'assets/audio/dialogue_next.mp3',
-	'assets/audio/street_ambience.mp3',
-	// Phoenix Flame,
-	'assets/audio/fireplace.mp3',
-	'assets/audio/flame_on.mp3',
-	// Main Menu
-	'assets/audio/space_loop.mp3',
-	'assets/audio/button_hover.mp3',
-	'assets/audio/button_click.mp3',
-];
+const MANIFEST_PATH = 'assets/assets.json';
+
+// Defaults for dialogue requests, and the timeout for each emoji and avatar image
+const DEFAULT_DIALOGUE_RETRY_OPTIONS: FetchRetryOptions = {
+	timeoutMS: 5000,
+	retries: 2,
+	retryDelayMS: 500,
+};
+const DIALOGUE_IMAGE_TIMEOUT = 5000;
+
+/**
+ * Where a loaded dialogue script came from: its endpoint, the bundled copy, or a translation bundled with the app
+ */
+export type DialogueOrigin = 'remote' | 'fallback' | 'translation';
 
 /**
- * Handles preloading of all game assets, including sprites, videos, dialogue data, and particle configurations.
+ * A dialogue script fetched from an endpoint, with a bundled copy to fall back to.
+ * The endpoint can be overridden with the VITE_DIALOGUE_URL environment variable, e.g. to point it at a local stand-in.
+ * In development, VITE_DIALOGUE_AUTHORING_FILE loads a local file in its place, see DialogueAuthoring.
+ * Yarn Spinner and compiled Ink scripts are imported, see DialogueImport.
+ * Translations play in place of the endpoint's script, in the locales they exist in
  *
- * All asset loading is done in parallel, with fallback handling for failed assets.
+ * @property url - The dialogue endpoint. Its last path segment names the cache keys
+ * @property fallbackUrl - The bundled copy, used when the endpoint can't be reached
+ * @property timeoutMS - Optional time before a request is aborted, in milliseconds. Defaults to 5000
+ * @property retries - Optional number of retries after the first request fails. Defaults to 2
+ * @property retryDelayMS - Optional delay before the first retry, doubling after each one. Defaults to 500
+ * @property imageOrigins - Optional origins the script's emoji and avatar images may load from,
+ * e.g. 'https://api.dicebear.com'. Images elsewhere are dropped. Image data URLs are always allowed
+ * @property castUrl - Optional cast file with the emojis and avatars of Yarn and Ink scripts
+ * @property locales - Optional locales the script is translated to. Translations are bundled next to the fallback copy,
+ * named after their locale, e.g. dialogue/magicwords.de.json
+ */
+export interface DialogueAsset {
+	url: string;
+	fallbackUrl: string;
+	timeoutMS?: number;
+	retries?: number;
+	retryDelayMS?: number;
+	imageOrigins?: string[];
+	castUrl?: string;
+	locales?: string[];
+}
+
+/**
+ * A named group of assets that is loaded together, listed by asset type.
  *
- * Tracks loading progress and updates the loading scene.
+ * @property sprites - Optional textures, loaded through Pixi's Assets
+ * @property backgroundVideos - Optional looping videos, cached as textures
+ * @property videos - Optional videos, cached as video elements
+ * @property dialogues - Optional dialogue scripts, along with their emoji and avatar images
+ * @property particleConfigs - Optional particle emitter configs, along with their textures
+ * @property audio - Optional sounds, registered with the audio manager under their file name
+ */
+export interface AssetBundle {
+	sprites?: AssetList;
+	backgroundVideos?: AssetList;
+	videos?: AssetList;
+	dialogues?: DialogueAsset[];
+	particleConfigs?: AssetList;
+	audio?: AssetList;
+}
+
+/**
+ * The assets.json manifest, mapping bundle names to their assets
+ */
+export interface AssetManifest {
+	bundles: Record<string, AssetBundle>;
+}
+
+/**
+ * Ownership and memory bookkeeping for a loaded bundle.
  *
- * @param loadingScene - The loading scene to update with the progress
+ * @property refCount - Number of scenes currently using the bundle. Only unused bundles can be unloaded
+ * @property lastUsed - Time the bundle was last acquired or released, for least recently used eviction
+ * @property estimatedBytes - Rough memory footprint of the bundle's decoded assets
+ */
+interface LoadedBundle {
+	refCount: number;
+	lastUsed: number;
+	estimatedBytes: number;
+}
+
+// Name of an asset file without its folder or extension, used for cache keys and sound aliases
+function getAssetName(path: string): string {
+	return path.split('/').pop()?.split('.')[0] || 'unknown';
+}
+
+// Path of a dialogue script's translation, with the locale before the extension, e.g. dialogue/magicwords.de.json
+function getTranslationUrl(path: string, locale: string): string {
+	return path.replace(/(\.ink\.json|\.[^./]*)?$/i, `.${locale}$1`);
+}
+
+/**
+ * Handles loading and unloading of asset bundles, including sprites, videos, dialogue data, audio and particle configurations.
+ *
+ * Bundles are described by the assets.json manifest and loaded on demand, each one only once.
+ * All assets of a load are loaded in parallel, with fallback handling for failed assets.
+ *
+ * Scenes acquire the bundles they use and release them when destroyed. Released bundles stay cached for quick
+ * revisits until the total estimated memory goes over the memory budget, at which point the least recently used
+ * unreferenced bundles are unloaded. A budget of 0 unloads bundles as soon as nothing holds them.
+ * Assets shared between bundles belong in the boot bundle, since unloading a bundle unloads all of its assets.
+ *
+ * Tracks loading progress and updates the given loading scene.
+ *
+ * @param memoryBudgetMB - The memory budget in megabytes
  */
 export class AssetLoader {
 	// Core
-	private loadingScene: LoadingScreen;
+	private manifest: AssetManifest | null = null;
+	private loadedBundles: Map<string, LoadedBundle> = new Map();
+	private loadingScene: LoadingScreen | null = null;
 
 	// Progress Tracking
 	private totalAssets: number = 0;
 	private completedAssets: number = 0;
 
-	constructor(loadingScene: LoadingScreen) {
-		this.loadingScene = loadingScene;
+	// Memory Budget
+	private memoryBudgetBytes: number;
+	private readonly BYTES_PER_PIXEL = 4;
+	private readonly AUDIO_BYTES_PER_SECOND = 44100 * 2 * 4; // 44.1kHz stereo, 32-bit float
+
+	constructor(memoryBudgetMB: number) {
+		this.memoryBudgetBytes = memoryBudgetMB * 1024 * 1024;
 	}
 
 	private updateProgress(): void {
 		const progress = this.completedAssets / this.totalAssets;
-		this.loadingScene.updateProgress(progress);
+		this.loadingScene?.updateProgress(progress);
 	}
 
 	private markAssetComplete(): void {
@@ -86,29 +160,346 @@ export class AssetLoader {
 		this.updateProgress();
 	}
 
-	async loadAllAssets(): Promise<void> {
+	/**
+	 * Checks whether a bundle has already been loaded
+	 * @param bundleName - The bundle name, as listed in the manifest
+	 */
+	public isBundleLoaded(bundleName: string): boolean {
+		return this.loadedBundles.has(bundleName);
+	}
+
+	/**
+	 * Loads the given bundles in parallel, skipping any that are already loaded.
+	 * Assets that fail to load are logged and left out, and their bundles still count as loaded.
+	 * Only one load should run at a time, since they share the progress tracking
+	 *
+	 * @param bundleNames - The bundle names, as listed in the manifest
+	 * @param loadingScene - The loading scene to update with the progress
+	 */
+	async loadBundles(
+		bundleNames: string[],
+		loadingScene: LoadingScreen
+	): Promise<void> {
+		const manifest = await this.loadManifest();
+
+		const bundlesToLoad = bundleNames.filter(
+			bundleName => !this.isBundleLoaded(bundleName)
+		);
+		const bundles = bundlesToLoad.map(bundleName => {
+			const bundle = manifest.bundles[bundleName];
+			if (!bundle) {
+				throw new Error(`Unknown asset bundle: ${bundleName}`);
+			}
+			return bundle;
+		});
+
+		// Merge all bundles, so that they share one progress bar
+		const assets = (key: Exclude<keyof AssetBundle, 'dialogues'>) =>
+			bundles.flatMap(bundle => bundle[key] ?? []);
+		const sprites = assets('sprites');
+		const backgroundVideos = assets('backgroundVideos');
+		const videos = assets('videos');
+		const dialogues = bundles.flatMap(bundle => bundle.dialogues ?? []);
+		const particleConfigs = assets('particleConfigs');
+		const audioAssets = assets('audio');
+
+		this.loadingScene = loadingScene;
+		this.completedAssets = 0;
 		this.totalAssets =
-			regularAssets.length +
-			backgroundVideoAssets.length +
-			videoAssets.length +
-			dialogueAssets.length +
-			particleConfigAssets.length +
+			sprites.length +
+			backgroundVideos.length +
+			videos.length +
+			dialogues.length +
+			particleConfigs.length +
 			audioAssets.length;
 
-		// Execute all tasks in parallel
-		await Promise.all([
-			this.loadRegularAssets(regularAssets),
-			this.createBackgroundVideoTexture(backgroundVideoAssets),
-			this.loadVideos(videoAssets),
-			this.loadDialogueData(dialogueAssets),
-			this.loadParticleConfigs(particleConfigAssets),
-			this.loadAudioAssets(audioAssets),
-		]);
+		// Nothing to load, e.g. bundles with no assets
+		if (this.totalAssets === 0) {
+			loadingScene.updateProgress(1);
+		}
+
+		// Execute all tasks in parallel. A failed asset doesn't stop the others, and the bundles are registered with
+		// whatever did load, so that they aren't fetched again on every visit
+		const tasks: [string, Promise<void>][] = [
+			['sprites', this.loadRegularAssets(sprites)],
+			[
+				'background videos',
+				this.createBackgroundVideoTexture(backgroundVideos),
+			],
+			['videos', this.loadVideos(videos)],
+			['dialogues', this.loadDialogueData(dialogues)],
+			['particle configs', this.loadParticleConfigs(particleConfigs)],
+			['audio', this.loadAudioAssets(audioAssets)],
+		];
+		const results = await Promise.allSettled(tasks.map(([, task]) => task));
+		const failedTasks = tasks.filter(([name], i) => {
+			const result = results[i];
+			if (result.status === 'fulfilled') return false;
+
+			console.error(`Failed to load ${name}:`, result.reason);
+			return true;
+		});
+
+		// Failed assets count as done, so that the progress bar completes
+		if (failedTasks.length > 0) {
+			this.completedAssets = this.totalAssets;
+			this.updateProgress();
+		}
+
+		bundlesToLoad.forEach((bundleName, i) => {
+			this.loadedBundles.set(bundleName, {
+				refCount: 0,
+				lastUsed: performance.now(),
+				estimatedBytes: this.estimateBundleBytes(bundles[i]),
+			});
+		});
+		this.loadingScene = null;
+
+		if (failedTasks.length > 0) {
+			console.warn(
+				`Asset bundles partially loaded: ${bundlesToLoad.join(', ')}. Failed: ${failedTasks.map(([name]) => name).join(', ')}`
+			);
+		}
+	}
+
+	/**
+	 * Marks a loaded bundle as in use, so that it is never unloaded while held
+	 * @param bundleName - The bundle name, as listed in the manifest
+	 */
+	public acquireBundle(bundleName: string): void {
+		const bundle = this.loadedBundles.get(bundleName);
+		if (!bundle) {
+			console.warn(`Acquired asset bundle is not loaded: ${bundleName}`);
+			return;
+		}
+
+		bundle.refCount++;
+		bundle.lastUsed = performance.now();
+		this.enforceMemoryBudget();
+	}
+
+	/**
+	 * Releases a bundle acquired with acquireBundle. Once nothing holds it, it can be unloaded to stay within the memory budget
+	 * @param bundleName - The bundle name, as listed in the manifest
+	 */
+	public releaseBundle(bundleName: string): void {
+		const bundle = this.loadedBundles.get(bundleName);
+		if (!bundle) return;
+
+		bundle.refCount = Math.max(0, bundle.refCount - 1);
+		bundle.lastUsed = performance.now();
+		this.enforceMemoryBudget();
+	}
+
+	/**
+	 * Unloads the bundles with translated dialogue scripts, so that they load again in the current locale.
+	 * Bundles in use are kept, so should be reloaded by their scene if needed
+	 */
+	public unloadTranslatedBundles(): void {
+		this.loadedBundles.forEach((bundle, bundleName) => {
+			const isTranslated = this.manifest?.bundles[
+				bundleName
+			]?.dialogues?.some(dialogue => dialogue.locales?.length);
+			if (isTranslated && bundle.refCount === 0) {
+				this.unloadBundle(bundleName);
+			}
+		});
+	}
+
+	/**
+	 * Gets the estimated memory used by all loaded bundles
+	 * @returns The estimated memory in bytes
+	 */
+	public getEstimatedMemoryUsage(): number {
+		let total = 0;
+		this.loadedBundles.forEach(bundle => (total += bundle.estimatedBytes));
+		return total;
+	}
+
+	/**
+	 * Unloads the least recently used unreferenced bundles until the memory usage is within budget
+	 */
+	private enforceMemoryBudget(): void {
+		while (this.getEstimatedMemoryUsage() > this.memoryBudgetBytes) {
+			let leastRecentlyUsed: string | null = null;
+			let oldestUse = Infinity;
+			this.loadedBundles.forEach((bundle, bundleName) => {
+				if (bundle.refCount === 0 && bundle.lastUsed < oldestUse) {
+					leastRecentlyUsed = bundleName;
+					oldestUse = bundle.lastUsed;
+				}
+			});
+
+			// Everything left is in use
+			if (!leastRecentlyUsed) return;
+
+			this.unloadBundle(leastRecentlyUsed);
+		}
+	}
+
+	/**
+	 * Frees every asset of a bundle and removes it from the cache. It will be loaded again the next time it is needed
+	 */
+	private unloadBundle(bundleName: string): void {
+		const bundle = this.manifest?.bundles[bundleName];
+		this.loadedBundles.delete(bundleName);
+		if (!bundle) return;
+
+		// Sprites
+		if (bundle.sprites?.length) {
+			Assets.unload(bundle.sprites).catch(error =>
+				console.error(
+					`Failed to unload sprites of ${bundleName}:`,
+					error
+				)
+			);
+		}
+
+		// Background videos
+		bundle.backgroundVideos?.forEach(videoPath => {
+			const cacheKey = `background-video-texture-${getAssetName(videoPath)}`;
+			const texture: Texture | undefined = Assets.cache.get(cacheKey);
+			texture?.destroy(true);
+			Assets.cache.remove(cacheKey);
+		});
+
+		// Videos
+		bundle.videos?.forEach(videoPath => {
+			const cacheKey = `video-${getAssetName(videoPath)}`;
+			const videoElement: HTMLVideoElement | undefined =
+				Assets.cache.get(cacheKey);
+			if (videoElement) {
+				// Dropping the source is the only way to make the browser free the decoded video
+				videoElement.pause();
+				videoElement.removeAttribute('src');
+				videoElement.load();
+			}
+			Assets.cache.remove(cacheKey);
+		});
+
+		// Dialogue data, with its emojis and avatars
+		bundle.dialogues?.forEach(dialogueAsset => {
+			const dialogueName = getAssetName(dialogueAsset.url);
+			Assets.cache.remove(`dialogue-data-${dialogueName}`);
+			Assets.cache.remove(`dialogue-origin-${dialogueName}`);
+			Assets.cache.remove(`dialogue-asset-${dialogueName}`);
+
+			const avatarMap: Map<string, Texture> | undefined =
+				Assets.cache.get(`avatar-textures-${dialogueName}`);
+			avatarMap?.forEach(texture => texture.destroy(true));
+			Assets.cache.remove(`avatar-textures-${dialogueName}`);
+			const emojiMap: Map<string, Texture> | undefined = Assets.cache.get(
+				`emoji-textures-${dialogueName}`
+			);
+			emojiMap?.forEach(texture => texture.destroy(true));
+			Assets.cache.remove(`emoji-textures-${dialogueName}`);
+		});
+
+		// Particle configs, with their textures
+		bundle.particleConfigs?.forEach(configPath => {
+			const cacheKey = `particle-config-${getAssetName(configPath)}`;
+			const config = Assets.cache.get(cacheKey);
+			if (config) {
+				Assets.unload(getParticleTexturePaths(config)).catch(error =>
+					console.error(
+						`Failed to unload particle textures of ${configPath}:`,
+						error
+					)
+				);
+			}
+			Assets.cache.remove(cacheKey);
+		});
+
+		// Audio
+		bundle.audio?.forEach(audioPath =>
+			audio.remove(getAssetName(audioPath))
+		);
+	}
+
+	/**
+	 * Roughly estimates the memory taken by a loaded bundle's decoded textures, video frames and sound buffers
+	 */
+	private estimateBundleBytes(bundle: AssetBundle): number {
+		const textureBytes = (texture: Texture | null | undefined): number =>
+			texture?.baseTexture
+				? texture.baseTexture.realWidth *
+					texture.baseTexture.realHeight *
+					this.BYTES_PER_PIXEL
+				: 0;
+		let bytes = 0;
+
+		bundle.sprites?.forEach(spritePath => {
+			bytes += textureBytes(Assets.cache.get(spritePath));
+		});
+
+		bundle.backgroundVideos?.forEach(videoPath => {
+			bytes += textureBytes(
+				Assets.cache.get(
+					`background-video-texture-${getAssetName(videoPath)}`
+				)
+			);
+		});
 
-		console.log('Assets preloaded successfully');
+		bundle.videos?.forEach(videoPath => {
+			const videoElement: HTMLVideoElement | undefined = Assets.cache.get(
+				`video-${getAssetName(videoPath)}`
+			);
+			if (videoElement) {
+				bytes +=
+					videoElement.videoWidth *
+					videoElement.videoHeight *
+					this.BYTES_PER_PIXEL;
+			}
+		});
+
+		bundle.dialogues?.forEach(dialogueAsset => {
+			const dialogueName = getAssetName(dialogueAsset.url);
+			const avatarMap: Map<string, Texture> | undefined =
+				Assets.cache.get(`avatar-textures-${dialogueName}`);
+			avatarMap?.forEach(texture => (bytes += textureBytes(texture)));
+
+			const emojiMap: Map<string, Texture> | undefined = Assets.cache.get(
+				`emoji-textures-${dialogueName}`
+			);
+			emojiMap?.forEach(texture => (bytes += textureBytes(texture)));
+		});
+
+		bundle.particleConfigs?.forEach(configPath => {
+			const config = Assets.cache.get(
+				`particle-config-${getAssetName(configPath)}`
+			);
+			if (!config) return;
+			getParticleTexturePaths(config).forEach(texturePath => {
+				bytes += textureBytes(Assets.cache.get(texturePath));
+			});
+		});
+
+		bundle.audio?.forEach(audioPath => {
+			bytes +=
+				audio.getDuration(getAssetName(audioPath)) *
+				this.AUDIO_BYTES_PER_SECOND;
+		});
+
+		return bytes;
+	}
+
+	private async loadManifest(): Promise<AssetManifest> {
+		if (this.manifest) return this.manifest;
+
+		const response = await fetch(MANIFEST_PATH);
+		if (!response.ok) {
+			throw new Error(
+				`Failed to fetch asset manifest: ${response.status}`
+			);
+		}
+
+		this.manifest = (await response.json()) as AssetManifest;
+		return this.manifest;
 	}
 
 	private async loadRegularAssets(assets: AssetList): Promise<void> {
+		if (assets.length === 0) return;
+
 		return new Promise((resolve, reject) => {
 			Assets.load(assets, () => {
 				// Each call to this callback means one asset has loaded
@@ -122,19 +513,13 @@ export class AssetLoader {
 	private async loadAudioAssets(audioAssets: AssetList): Promise<void> {
 		try {
 			const audioPromises = audioAssets.map(async asset => {
-				const alias =
-					asset.split('/').pop()?.split('.')[0] || 'unknown';
+				const alias = getAssetName(asset);
 
 				return new Promise<void>(resolve => {
 					try {
-						sound.add(alias, {
-							volume: 0.2,
-							url: asset,
-							preload: true,
-							loaded: () => {
-								this.markAssetComplete();
-								resolve();
-							},
+						audio.add(alias, asset, () => {
+							this.markAssetComplete();
+							resolve();
 						});
 					} catch (error) {
 						console.error(
@@ -158,130 +543,252 @@ export class AssetLoader {
 	}
 
 	private async loadVideos(videoAssets: AssetList): Promise<void> {
-		try {
-			const videoPromises = videoAssets.map((videoPath, i) => {
-				return new Promise<void>((resolve, reject) => {
-					const videoElement = document.createElement('video');
-					videoElement.src = videoPath;
-					videoElement.loop = false;
-					videoElement.autoplay = false;
-					videoElement.muted = true;
-					videoElement.playsInline = true;
-
-					videoElement.addEventListener('loadeddata', () => {
-						const videoFileName =
-							videoPath.split('/').pop()?.split('.')[0] ||
-							`video-${i}`;
-						const cacheKey = `video-${videoFileName}`;
-
-						Assets.cache.set(cacheKey, videoElement);
-						this.markAssetComplete();
-						resolve();
-					});
-
-					videoElement.addEventListener('error', error => {
-						console.error(`Failed to load video ${i}:`, error);
-						reject(error);
-					});
+		const videoPromises = videoAssets.map((videoPath, i) => {
+			return new Promise<void>((resolve, reject) => {
+				const videoElement = document.createElement('video');
+				videoElement.src = videoPath;
+				videoElement.loop = false;
+				videoElement.autoplay = false;
+				videoElement.muted = true;
+				videoElement.playsInline = true;
+
+				videoElement.addEventListener('loadeddata', () => {
+					const cacheKey = `video-${getAssetName(videoPath)}`;
+
+					Assets.cache.set(cacheKey, videoElement);
+					this.markAssetComplete();
+					resolve();
+				});
 
-					videoElement.load();
+				videoElement.addEventListener('error', error => {
+					console.error(`Failed to load video ${i}:`, error);
+					reject(error);
 				});
+
+				videoElement.load();
 			});
+		});
 
-			await Promise.all(videoPromises);
-		} catch (error) {
-			console.error('Failed to load videos:', error);
-			throw error;
+		// Let every video finish loading or failing, so that one failure doesn't hide the others
+		const results = await Promise.allSettled(videoPromises);
+		const failedCount = results.filter(
+			result => result.status === 'rejected'
+		).length;
+		if (failedCount > 0) {
+			throw new Error(
+				`${failedCount} of ${videoAssets.length} videos failed to load`
+			);
 		}
 	}
 
 	private async createBackgroundVideoTexture(
 		backgroundVideoAssets: AssetList
 	): Promise<void> {
-		try {
-			const videoPromises = backgroundVideoAssets.map((videoPath, i) => {
-				return new Promise<void>((resolve, reject) => {
-					// I had to create a video element to load and create a texture from it, because if not the Sprite wouldn't loop
-					const videoElement = document.createElement('video');
-					videoElement.src = videoPath;
-					videoElement.loop = true;
-					videoElement.autoplay = true;
-					videoElement.muted = true;
-					videoElement.playsInline = true;
-
-					videoElement.addEventListener('loadeddata', () => {
-						const videoTexture = Texture.from(videoElement);
-						const videoFileName =
-							videoPath.split('/').pop()?.split('.')[0] ||
-							`video-${i}`;
-						const cacheKey = `background-video-texture-${videoFileName}`;
-						Assets.cache.set(cacheKey, videoTexture);
-
-						// Clean up the video element after creating the texture
-						videoElement.remove();
-
-						this.markAssetComplete();
-						resolve();
-					});
+		const videoPromises = backgroundVideoAssets.map((videoPath, i) => {
+			return new Promise<void>((resolve, reject) => {
+				// I had to create a video element to load and create a texture from it, because if not the Sprite wouldn't loop
+				const videoElement = document.createElement('video');
+				videoElement.src = videoPath;
+				videoElement.loop = true;
+				videoElement.autoplay = true;
+				videoElement.muted = true;
+				videoElement.playsInline = true;
+
+				videoElement.addEventListener('loadeddata', () => {
+					const videoTexture = Texture.from(videoElement);
+					const cacheKey = `background-video-texture-${getAssetName(videoPath)}`;
+					Assets.cache.set(cacheKey, videoTexture);
+
+					// Clean up the video element after creating the texture
+					videoElement.remove();
 
-					videoElement.addEventListener('error', error => {
-						console.error(
-							`Failed to load background video ${i}:`,
-							error
-						);
-						reject(error);
-					});
+					this.markAssetComplete();
+					resolve();
+				});
 
-					videoElement.load();
+				videoElement.addEventListener('error', error => {
+					console.error(
+						`Failed to load background video ${i}:`,
+						error
+					);
+					reject(error);
 				});
+
+				videoElement.load();
 			});
+		});
 
-			await Promise.all(videoPromises);
-		} catch (error) {
-			console.error('Failed to create background video textures:', error);
-			throw error;
+		// Let every video finish loading or failing, so that one failure doesn't hide the others
+		const results = await Promise.allSettled(videoPromises);
+		const failedCount = results.filter(
+			result => result.status === 'rejected'
+		).length;
+		if (failedCount > 0) {
+			throw new Error(
+				`${failedCount} of ${backgroundVideoAssets.length} background videos failed to load`
+			);
 		}
 	}
 
-	private async loadDialogueData(dialogueAssets: AssetList): Promise<void> {
-		try {
-			const dialoguePromises = dialogueAssets.map(async dialoguePath => {
-				const response = await fetch(dialoguePath);
-				if (!response.ok) {
-					throw new Error(
-						`Failed to fetch dialogue data: ${response.status}`
-					);
-				}
+	/**
+	 * Loads dialogue scripts, falling back to their bundled copies if their endpoints can't be reached.
+	 * Never rejects: a script that can't be loaded at all is cached as null
+	 */
+	private async loadDialogueData(
+		dialogueAssets: DialogueAsset[]
+	): Promise<void> {
+		const dialoguePromises = dialogueAssets.map(async dialogueAsset => {
+			const dialogueName = getAssetName(dialogueAsset.url);
+			const { data, origin } = await this.fetchDialogue(dialogueAsset);
+
+			// Images fail per item, so a missing emoji or avatar never blocks the script
+			if (data) {
+				await this.loadEmojiTextures(dialogueName, data);
+				await this.loadAvatarTextures(dialogueName, data);
+			}
 
-				const dialogueData = await response.json();
+			Assets.cache.set(`dialogue-data-${dialogueName}`, data);
+			Assets.cache.set(`dialogue-origin-${dialogueName}`, origin);
+			Assets.cache.set(`dialogue-asset-${dialogueName}`, dialogueAsset);
+			this.markAssetComplete();
+		});
 
-				const dialogueFileName =
-					dialoguePath.split('/').pop()?.split('.')[0] ||
-					'magicwords';
-				const cacheKey = `dialogue-data-${dialogueFileName}`;
+		await Promise.all(dialoguePromises);
+	}
 
-				await this.loadEmojiTextures(dialogueData);
-				await this.loadAvatarTextures(dialogueData);
+	private async fetchDialogue(dialogueAsset: DialogueAsset): Promise<{
+		data: DialogueData | null;
+		origin: DialogueOrigin | null;
+	}> {
+		const url =
+			DIALOGUE_AUTHORING_FILE ||
+			import.meta.env.VITE_DIALOGUE_URL ||
+			dialogueAsset.url;
+		const retryOptions: FetchRetryOptions = {
+			timeoutMS:
+				dialogueAsset.timeoutMS ??
+				DEFAULT_DIALOGUE_RETRY_OPTIONS.timeoutMS,
+			retries:
+				dialogueAsset.retries ?? DEFAULT_DIALOGUE_RETRY_OPTIONS.retries,
+			retryDelayMS:
+				dialogueAsset.retryDelayMS ??
+				DEFAULT_DIALOGUE_RETRY_OPTIONS.retryDelayMS,
+		};
+
+		// Translations are bundled with the app, so a single attempt is enough. Overridden endpoints play as they are
+		const locale = i18n.pickLocale(dialogueAsset.locales ?? []);
+		if (locale && url === dialogueAsset.url) {
+			const translationUrl = getTranslationUrl(
+				dialogueAsset.fallbackUrl,
+				locale
+			);
+			try {
+				const data = await this.fetchValidDialogue(
+					translationUrl,
+					{ ...retryOptions, retries: 0 },
+					dialogueAsset
+				);
+				return { data, origin: 'translation' };
+			} catch (error) {
+				console.error(
+					`Failed to load dialogue translation ${translationUrl}, falling back to ${url}:`,
+					error
+				);
+			}
+		}
 
-				Assets.cache.set(cacheKey, dialogueData);
-				this.markAssetComplete();
-				return dialogueData;
-			});
+		try {
+			const data = await this.fetchValidDialogue(
+				url,
+				retryOptions,
+				dialogueAsset
+			);
+			return { data, origin: 'remote' };
+		} catch (error) {
+			console.error(
+				`Failed to fetch dialogue data, falling back to ${dialogueAsset.fallbackUrl}:`,
+				error
+			);
+		}
 
-			await Promise.all(dialoguePromises);
+		try {
+			// Bundled with the app, so a single attempt is enough
+			const data = await this.fetchValidDialogue(
+				dialogueAsset.fallbackUrl,
+				{ ...retryOptions, retries: 0 },
+				dialogueAsset
+			);
+			return { data, origin: 'fallback' };
 		} catch (error) {
-			console.error('Failed to load dialogue data:', error);
-			dialogueAssets.forEach(dialoguePath => {
-				const dialogueFileName =
-					dialoguePath.split('/').pop()?.split('.')[0] ||
-					'magicwords';
-				Assets.cache.set(`dialogue-data-${dialogueFileName}`, null);
-			});
-			// Mark remaining assets as complete to avoid hanging
-			for (let i = 0; i < dialogueAssets.length; i++) {
-				this.markAssetComplete();
-			}
+			console.error('Failed to load fallback dialogue data:', error);
+			return { data: null, origin: null };
+		}
+	}
+
+	/**
+	 * Origins a dialogue script's images may load from. In development, an endpoint overridden with VITE_DIALOGUE_URL
+	 * may also serve its own images, e.g. the local stand-in's broken-images mode
+	 */
+	private getImageOrigins(
+		url: string,
+		dialogueAsset: DialogueAsset
+	): string[] {
+		const origins = dialogueAsset.imageOrigins ?? [];
+		if (!import.meta.env.DEV || url !== import.meta.env.VITE_DIALOGUE_URL) {
+			return origins;
 		}
+		return [...origins, new URL(url, location.href).origin];
+	}
+
+	/**
+	 * Fetches and validates a dialogue script. Invalid lines are dropped, and a rejected script counts as a failed fetch
+	 */
+	private async fetchValidDialogue(
+		url: string,
+		retryOptions: FetchRetryOptions,
+		dialogueAsset: DialogueAsset
+	): Promise<DialogueData> {
+		const validation = validateDialogueData(
+			await this.fetchDialogueScript(
+				url,
+				retryOptions,
+				dialogueAsset.castUrl
+			),
+			this.getImageOrigins(url, dialogueAsset)
+		);
+		logValidationResult(`Dialogue data ${url}`, validation);
+
+		if (!validation.value) {
+			throw new Error(`Invalid dialogue data: ${validation.errors[0]}`);
+		}
+		return validation.value;
+	}
+
+	/**
+	 * Fetches a dialogue script, importing Yarn and Ink scripts along with their cast file
+	 * @returns The script in the endpoint's format, still to be validated
+	 */
+	private async fetchDialogueScript(
+		url: string,
+		retryOptions: FetchRetryOptions,
+		castUrl?: string
+	): Promise<unknown> {
+		const format = getDialogueFormat(url);
+		if (format === 'json') {
+			return fetchJsonWithRetry(url, retryOptions);
+		}
+
+		const [source, cast] = await Promise.all([
+			fetchTextWithRetry(url, retryOptions),
+			castUrl ? fetchJsonWithRetry(castUrl, retryOptions) : {},
+		]);
+		const imported = importDialogue(format, source, cast);
+		logValidationResult(`Dialogue script ${url}`, imported);
+
+		if (!imported.value) {
+			throw new Error(`Invalid dialogue script: ${imported.errors[0]}`);
+		}
+		return imported.value;
 	}
 
 	private async loadParticleConfigs(
@@ -297,13 +804,21 @@ export class AssetLoader {
 						);
 					}
 
-					const config = await response.json();
+					const cacheKey = `particle-config-${getAssetName(configPath)}`;
 
-					const configFileName =
-						configPath.split('/').pop()?.split('.')[0] || 'unknown';
-					const cacheKey = `particle-config-${configFileName}`;
+					// An invalid config is cached as null, so its emitter is skipped rather than crashing
+					const validation = validateParticleConfig(
+						await response.json()
+					);
+					logValidationResult(
+						`Particle config ${configPath}`,
+						validation
+					);
 
-					await this.loadTexturesForConfig(config);
+					const config = validation.value;
+					if (config) {
+						await this.loadTexturesForConfig(config);
+					}
 
 					Assets.cache.set(cacheKey, config);
 					this.markAssetComplete();
@@ -315,9 +830,10 @@ export class AssetLoader {
 		} catch (error) {
 			console.error('Failed to load particle configurations:', error);
 			particleConfigAssets.forEach(configPath => {
-				const configFileName =
-					configPath.split('/').pop()?.split('.')[0] || 'unknown';
-				Assets.cache.set(`particle-config-${configFileName}`, null);
+				Assets.cache.set(
+					`particle-config-${getAssetName(configPath)}`,
+					null
+				);
 			});
 			// Mark remaining assets as complete to avoid hanging
 			for (let i = 0; i < particleConfigAssets.length; i++) {
@@ -326,30 +842,28 @@ export class AssetLoader {
 		}
 	}
 
-	private async loadTexturesForConfig(config: any): Promise<void> {
-		const textureRandomBehavior = config.behaviors.find(
-			(b: any) => b.type === 'textureRandom'
+	private async loadTexturesForConfig(
+		config: EmitterConfigV3
+	): Promise<void> {
+		const texturePromises = getParticleTexturePaths(config).map(fullPath =>
+			Assets.load(fullPath)
 		);
 
-		if (textureRandomBehavior && textureRandomBehavior.config.textures) {
-			const texturePaths = textureRandomBehavior.config.textures;
-
-			const texturePromises = texturePaths.map((texturePath: string) => {
-				const fullPath = `assets/particles/${texturePath}`;
-				return Assets.load(fullPath);
-			});
-
-			await Promise.all(texturePromises);
-		}
+		await Promise.all(texturePromises);
 	}
 
-	private async loadEmojiTextures(dialogueData: any): Promise<void> {
-		if (!dialogueData?.emojies) return;
-
-		const emojiPromises = dialogueData.emojies.map(async (emoji: any) => {
+	private async loadEmojiTextures(
+		dialogueName: string,
+		dialogueData: DialogueData
+	): Promise<void> {
+		const emojiPromises = dialogueData.emojies.map(async emoji => {
 			try {
-				const base64 = await convertUrlToBase64(emoji.url);
-				return { name: emoji.name, base64 };
+				const texture = await withTimeout(
+					Texture.fromURL(emoji.url),
+					DIALOGUE_IMAGE_TIMEOUT,
+					`Timed out loading emoji ${emoji.name}`
+				);
+				return { name: emoji.name, texture };
 			} catch (error) {
 				console.error(`Failed to load emoji ${emoji.name}:`, error);
 				return null;
@@ -357,23 +871,28 @@ export class AssetLoader {
 		});
 
 		const emojiResults = await Promise.all(emojiPromises);
-		const emojiBase64Map = new Map<string, string>();
+		const emojiMap = new Map<string, Texture>();
 
 		emojiResults.forEach(result => {
 			if (result) {
-				emojiBase64Map.set(result.name, result.base64);
+				emojiMap.set(result.name, result.texture);
 			}
 		});
 
-		Assets.cache.set('emoji-base64', emojiBase64Map);
+		Assets.cache.set(`emoji-textures-${dialogueName}`, emojiMap);
 	}
 
-	private async loadAvatarTextures(dialogueData: any): Promise<void> {
-		if (!dialogueData?.avatars) return;
-
-		const avatarPromises = dialogueData.avatars.map(async (avatar: any) => {
+	private async loadAvatarTextures(
+		dialogueName: string,
+		dialogueData: DialogueData
+	): Promise<void> {
+		const avatarPromises = dialogueData.avatars.map(async avatar => {
 			try {
-				const texture = await Texture.fromURL(avatar.url);
+				const texture = await withTimeout(
+					Texture.fromURL(avatar.url),
+					DIALOGUE_IMAGE_TIMEOUT,
+					`Timed out loading avatar ${avatar.name}`
+				);
 				return { name: avatar.name, texture };
 			} catch (error) {
 				console.error(`Failed to load avatar ${avatar.name}:`, error);
@@ -390,6 +909,6 @@ export class AssetLoader {
 			}
 		});
 
-		Assets.cache.set('avatar-textures', avatarMap);
+		Assets.cache.set(`avatar-textures-${dialogueName}`, avatarMap);
 	}
 }
@@ -0,0 +1,399 @@
+import { Ticker } from 'pixi.js';
+import { sound, type IMediaInstance } from '@pixi/sound';
+import { Easing, TweenManager } from './Tween';
+
+export type AudioBus = 'music' | 'sfx' | 'ambience' | 'ui';
+
+/**
+ * Options for playing a sound through the audio manager.
+ *
+ * @property volume - Optional volume of this sound, before bus and master volume. Defaults to 1
+ * @property speed - Optional playback speed. Defaults to 1
+ * @property duck - Optional. Duck the music while this sound plays (one-shot sounds only)
+ */
+export interface AudioPlayOptions {
+	volume?: number;
+	speed?: number;
+	duck?: boolean;
+}
+
+interface AudioSettings {
+	masterVolume: number;
+	muted: boolean;
+	busVolumes: Record<AudioBus, number>;
+}
+
+interface PlayingSound {
+	alias: string;
+	bus: AudioBus;
+	volume: number;
+	fade: number; // Fade multiplier, tweened for music crossfades
+	instance: IMediaInstance;
+}
+
+const SETTINGS_STORAGE_KEY = 'softgames-audio-settings';
+
+const DEFAULT_SETTINGS: AudioSettings = {
+	masterVolume: 1,
+	muted: false,
+	busVolumes: { music: 1, sfx: 1, ambience: 1, ui: 1 },
+};
+
+/**
+ * Central audio manager on top of @pixi/sound. All sounds should be played through it rather than through sound directly.
+ *
+ * Routes every sound through a music, SFX, ambience or UI bus, each with its own volume, under a master volume and mute.
+ * Only one music track plays at a time, crossfading into the next. Music can be ducked, either explicitly or
+ * automatically while a one-shot sound plays.
+ *
+ * Master volume, mute and bus volumes persist in localStorage.
+ */
+export class AudioManager {
+	// Core
+	private tweens: TweenManager = new TweenManager(Ticker.shared);
+	private settings: AudioSettings;
+
+	// Playback state
+	private playing: Set<PlayingSound> = new Set();
+	private currentMusic: PlayingSound | null = null;
+	private duck = { level: 1 };
+	private duckRequests: number = 0;
+	private pendingRemovals: Set<string> = new Set();
+
+	// Ducking defaults
+	private readonly DUCK_LEVEL = 0.3;
+	private readonly DUCK_FADE_DURATION = 200;
+
+	constructor() {
+		this.settings = this.loadSettings();
+		this.applyGlobalSettings();
+	}
+
+	/**
+	 * Registers and preloads a sound
+	 * @param alias - The alias to play the sound with
+	 * @param url - The sound file URL
+	 * @param onLoaded - Called once the sound has loaded, or failed to
+	 */
+	public add(alias: string, url: string, onLoaded: () => void): void {
+		this.pendingRemovals.delete(alias);
+		sound.add(alias, { url, preload: true, loaded: onLoaded });
+	}
+
+	/**
+	 * Unregisters a sound and frees its buffer. If the sound is still playing, e.g. fading out,
+	 * it is removed once every instance has finished
+	 * @param alias - The sound alias
+	 */
+	public remove(alias: string): void {
+		if (!sound.exists(alias)) return;
+
+		if (this.isPlaying(alias)) {
+			this.pendingRemovals.add(alias);
+		} else {
+			sound.remove(alias);
+		}
+	}
+
+	/**
+	 * Gets the duration of a loaded sound
+	 * @returns The duration in seconds, or 0 if the sound is not loaded
+	 */
+	public getDuration(alias: string): number {
+		return sound.exists(alias) ? sound.duration(alias) : 0;
+	}
+
+	/**
+	 * Plays a looping music track, crossfading out the current one. Does nothing if the track is already playing
+	 * @param alias - The sound alias
+	 * @param options - The play options
+	 * @param crossfadeMS - The crossfade duration in milliseconds
+	 */
+	public playMusic(
+		alias: string,
+		options: AudioPlayOptions = {},
+		crossfadeMS: number = 1000
+	): void {
+		if (this.currentMusic?.alias === alias) return;
+
+		this.stopMusic(undefined, crossfadeMS);
+
+		const music = this.play(alias, 'music', options, true);
+		if (!music) return;
+
+		this.currentMusic = music;
+		music.fade = 0;
+		this.refreshVolume(music);
+		this.tweens.to(music, {
+			to: { fade: 1 },
+			duration: crossfadeMS,
+			ease: Easing.sineInOut,
+			onUpdate: () => this.refreshVolume(music),
+		});
+	}
+
+	/**
+	 * Fades out and stops the current music track
+	 * @param alias - Optional. Only stop the music if this track is the one playing
+	 * @param fadeMS - The fade out duration in milliseconds
+	 */
+	public stopMusic(alias?: string, fadeMS: number = 1000): void {
+		const music = this.currentMusic;
+		if (!music || (alias && music.alias !== alias)) return;
+
+		this.currentMusic = null;
+		this.tweens.killTweensOf(music);
+		this.tweens.to(music, {
+			to: { fade: 0 },
+			duration: fadeMS,
+			ease: Easing.sineInOut,
+			onUpdate: () => this.refreshVolume(music),
+			onComplete: () => music.instance.stop(),
+		});
+	}
+
+	/**
+	 * Plays a looping ambience sound
+	 */
+	public playAmbience(alias: string, options: AudioPlayOptions = {}): void {
+		this.play(alias, 'ambience', options, true);
+	}
+
+	/**
+	 * Plays a one-shot sound effect
+	 */
+	public playSfx(alias: string, options: AudioPlayOptions = {}): void {
+		this.play(alias, 'sfx', options, false);
+	}
+
+	/**
+	 * Plays a one-shot UI sound, such as a button click
+	 */
+	public playUi(alias: string, options: AudioPlayOptions = {}): void {
+		this.play(alias, 'ui', options, false);
+	}
+
+	/**
+	 * Stops every playing instance of a sound, on any bus
+	 */
+	public stop(alias: string): void {
+		this.playing.forEach(playingSound => {
+			if (playingSound.alias === alias) {
+				playingSound.instance.stop();
+			}
+		});
+	}
+
+	/**
+	 * Changes the volume of every playing instance of a sound, e.g. to raise an ambience loop
+	 */
+	public setVolume(alias: string, volume: number): void {
+		this.playing.forEach(playingSound => {
+			if (playingSound.alias === alias) {
+				playingSound.volume = volume;
+				this.refreshVolume(playingSound);
+			}
+		});
+	}
+
+	/**
+	 * Lowers the music until unduckMusic is called as many times as duckMusic was
+	 * @param level - The music volume multiplier while ducked
+	 * @param fadeMS - The fade duration in milliseconds
+	 */
+	public duckMusic(
+		level: number = this.DUCK_LEVEL,
+		fadeMS: number = this.DUCK_FADE_DURATION
+	): void {
+		this.duckRequests++;
+		this.fadeDuck(level, fadeMS);
+	}
+
+	/**
+	 * Releases a duck request, bringing the music back once no requests are left
+	 * @param fadeMS - The fade duration in milliseconds
+	 */
+	public unduckMusic(fadeMS: number = this.DUCK_FADE_DURATION): void {
+		this.duckRequests = Math.max(0, this.duckRequests - 1);
+		if (this.duckRequests === 0) {
+			this.fadeDuck(1, fadeMS);
+		}
+	}
+
+	public pauseAll(): void {
+		sound.pauseAll();
+	}
+
+	public resumeAll(): void {
+		sound.resumeAll();
+	}
+
+	public getMasterVolume(): number {
+		return this.settings.masterVolume;
+	}
+
+	public setMasterVolume(volume: number): void {
+		this.settings.masterVolume = Math.max(0, Math.min(1, volume));
+		this.applyGlobalSettings();
+		this.saveSettings();
+	}
+
+	public getBusVolume(bus: AudioBus): number {
+		return this.settings.busVolumes[bus];
+	}
+
+	public setBusVolume(bus: AudioBus, volume: number): void {
+		this.settings.busVolumes[bus] = Math.max(0, Math.min(1, volume));
+		this.playing.forEach(playingSound => {
+			if (playingSound.bus === bus) {
+				this.refreshVolume(playingSound);
+			}
+		});
+		this.saveSettings();
+	}
+
+	public isMuted(): boolean {
+		return this.settings.muted;
+	}
+
+	public setMuted(muted: boolean): void {
+		this.settings.muted = muted;
+		this.applyGlobalSettings();
+		this.saveSettings();
+	}
+
+	public toggleMute(): boolean {
+		this.setMuted(!this.settings.muted);
+		return this.settings.muted;
+	}
+
+	/**
+	 * Plays a sound on a bus and tracks it until it ends, so bus and ducking changes apply to it
+	 * @returns The playing sound, or null if it failed to play
+	 */
+	private play(
+		alias: string,
+		bus: AudioBus,
+		options: AudioPlayOptions,
+		loop: boolean
+	): PlayingSound | null {
+		if (!sound.exists(alias)) {
+			console.error(`Sound not found: ${alias}`);
+			return null;
+		}
+
+		// All sounds are preloaded, so play returns an instance rather than a promise
+		const instance = sound.play(alias, {
+			loop,
+			speed: options.speed ?? 1,
+			volume: 0,
+		}) as IMediaInstance;
+
+		const playingSound: PlayingSound = {
+			alias,
+			bus,
+			volume: options.volume ?? 1,
+			fade: 1,
+			instance,
+		};
+		this.playing.add(playingSound);
+		this.refreshVolume(playingSound);
+
+		const shouldDuck = options.duck && !loop;
+		if (shouldDuck) {
+			this.duckMusic();
+		}
+
+		const onFinished = () => {
+			if (!this.playing.delete(playingSound)) return;
+			if (shouldDuck) {
+				this.unduckMusic();
+			}
+			if (this.pendingRemovals.has(alias) && !this.isPlaying(alias)) {
+				this.pendingRemovals.delete(alias);
+				sound.remove(alias);
+			}
+		};
+		instance.on('end', onFinished);
+		instance.on('stop', onFinished);
+
+		return playingSound;
+	}
+
+	private isPlaying(alias: string): boolean {
+		return [...this.playing].some(
+			playingSound => playingSound.alias === alias
+		);
+	}
+
+	private fadeDuck(level: number, fadeMS: number): void {
+		this.tweens.killTweensOf(this.duck);
+		this.tweens.to(this.duck, {
+			to: { level },
+			duration: fadeMS,
+			ease: Easing.sineInOut,
+			onUpdate: () => {
+				this.playing.forEach(playingSound => {
+					if (playingSound.bus === 'music') {
+						this.refreshVolume(playingSound);
+					}
+				});
+			},
+		});
+	}
+
+	private refreshVolume(playingSound: PlayingSound): void {
+		const duckLevel = playingSound.bus === 'music' ? this.duck.level : 1;
+		playingSound.instance.volume =
+			playingSound.volume *
+			playingSound.fade *
+			duckLevel *
+			this.settings.busVolumes[playingSound.bus];
+	}
+
+	private applyGlobalSettings(): void {
+		sound.volumeAll = this.settings.masterVolume;
+		if (this.settings.muted) {
+			sound.muteAll();
+		} else {
+			sound.unmuteAll();
+		}
+	}
+
+	private loadSettings(): AudioSettings {
+		try {
+			const stored = localStorage.getItem(SETTINGS_STORAGE_KEY);
+			if (stored) {
+				const parsed = JSON.parse(stored) as Partial<AudioSettings>;
+				return {
+					masterVolume:
+						parsed.masterVolume ?? DEFAULT_SETTINGS.masterVolume,
+					muted: parsed.muted ?? DEFAULT_SETTINGS.muted,
+					busVolumes: {
+						...DEFAULT_SETTINGS.busVolumes,
+						...parsed.busVolumes,
+					},
+				};
+			}
+		} catch (error) {
+			console.error('Failed to load audio settings:', error);
+		}
+		return {
+			...DEFAULT_SETTINGS,
+			busVolumes: { ...DEFAULT_SETTINGS.busVolumes },
+		};
+	}
+
+	private saveSettings(): void {
+		try {
+			localStorage.setItem(
+				SETTINGS_STORAGE_KEY,
+				JSON.stringify(this.settings)
+			);
+		} catch (error) {
+			console.error('Failed to save audio settings:', error);
+		}
+	}
+}
+
+export const audio = new AudioManager();
@@ -1,4 +1,5 @@
-import { Container, Application } from 'pixi.js';
+import { Container, Application, Ticker } from 'pixi.js';
+import { TweenManager } from './Tween';
 
 /**
  * Abstract base class that defines the interface for all games.
@@ -10,7 +11,9 @@ import { Container, Application } from 'pixi.js';
  * @optional addEventListeners - Add event listeners to the game, if any
  * @optional removeEventListeners - Remove event listeners from the game, if any. Automatically called on destroy
  * @method start - Start the game update cycle
- * @method update - Update the game
+ * @method update - Update the game. Should be added to the game's own ticker, not app.ticker, so it freezes while paused
+ * @optional pause - Freeze anything not driven by the game ticker, such as HTML video. Called when the game scene pauses
+ * @optional resume - Restore anything frozen in pause. Called when the game scene resumes
  * @method destroy - Called by the game scene when destroying the scene
  */
 export abstract class Game {
@@ -19,6 +22,12 @@ export abstract class Game {
 	protected backgroundContainer: Container;
 	protected foregroundContainer: Container;
 
+	// Game clock, driven by the game scene and frozen while paused
+	public readonly ticker: Ticker = new Ticker();
+
+	// Tweens run on the game ticker, and are killed when the game's scene is destroyed
+	protected tweens: TweenManager = new TweenManager(this.ticker);
+
 	constructor(
 		app: Application,
 		backgroundContainer: Container,
@@ -27,6 +36,7 @@ export abstract class Game {
 		this.app = app;
 		this.backgroundContainer = backgroundContainer;
 		this.foregroundContainer = foregroundContainer;
+		this.tweens.bindTo(foregroundContainer);
 	}
 
 	// These methods are by order of the game's lifecycle
@@ -37,6 +47,8 @@ export abstract class Game {
 	public addEventListeners?(): void;
 	public abstract start(): void;
 	public abstract update(deltaTime: number): void;
+	public pause?(): void;
+	public resume?(): void;
 	public removeEventListeners?(): void;
 	public abstract destroy(): void;
 }
@@ -1,25 +1,41 @@
-import { AceOfShadows } from '../games/AceOfShadows';
-import { MagicWords } from '../games/MagicWords';
-import { PhoenixFlame } from '../games/PhoenixFlame';
+import '../games';
 import { FPSDisplay } from '../ui/FPSDisplay';
 import { Application, Container } from 'pixi.js';
 import { MainMenu } from '../scenes/MainMenu';
 import { LoadingScreen } from '../scenes/LoadingScreen';
 import { AssetLoader } from './AssetLoader';
 import { GameScene } from '../ui/GameScene';
+import { getGame } from './GameRegistry';
+import { Router } from './Router';
+import { isMobileDevice } from './Utils';
+import { TweenManager } from './Tween';
+import { i18n } from './I18n';
+import {
+	CrossfadeTransition,
+	FadeToBlackTransition,
+	IrisTransition,
+	SceneTransition,
+	TransitionEffect,
+	WipeTransition,
+} from './SceneTransition';
 
-const GameToClassMap = {
-	ACE_OF_SHADOWS: AceOfShadows,
-	MAGIC_WORDS: MagicWords,
-	PHOENIX_FLAME: PhoenixFlame,
-} as const;
+// Bundles loaded at startup, before the main menu is shown
+const STARTUP_BUNDLES = ['boot', 'menu'];
 
-type GameType = keyof typeof GameToClassMap;
+// Memory budgets for cached asset bundles no scene is using
+const MOBILE_MEMORY_BUDGET_MB = 64;
+const DESKTOP_MEMORY_BUDGET_MB = 256;
 
 /**
- * Game manager that triggers initial asset loading, handle scene transitions, and typical application lifecycle.
+ * Game manager that triggers asset loading, handle scene transitions, and typical application lifecycle.
  *
- * Manages the flow between loading screen, main menu, and game scenes
+ * Manages the flow between loading screen, main menu, and game scenes, animating every switch with a scene transition.
+ * Input is blocked while a transition runs, and the outgoing scene is only destroyed once it ends
+ *
+ * Only the boot and menu asset bundles load at startup. Each game's bundle loads the first time the game is entered,
+ * behind a loading screen. Scenes hold their bundle while they exist, so the asset loader never unloads it from under them
+ *
+ * Keeps the URL hash in sync with the current scene through the router, and opens deep linked games after loading
  *
  * Also handles renderer and scene resize
  */
@@ -27,10 +43,16 @@ export class GameManager {
 	// Core
 	private app: Application;
 	private assetLoader: AssetLoader;
+	private router: Router;
+	private tweens: TweenManager;
 
 	// Scene Management
 	private currentScene: GameScene | Container | null = null;
-	private sceneContainer!: Container;
+	private sceneContainer: Container = new Container();
+	private transitionOverlay: Container = new Container();
+	private transition: SceneTransition | null = null;
+	private isLoadingBundle: boolean = false;
+	private currentGameId: string | null = null;
 	private loadingScene: LoadingScreen = new LoadingScreen();
 
 	// UI Elements
@@ -38,7 +60,13 @@ export class GameManager {
 
 	constructor(app: Application) {
 		this.app = app;
-		this.assetLoader = new AssetLoader(this.loadingScene);
+		this.assetLoader = new AssetLoader(
+			isMobileDevice()
+				? MOBILE_MEMORY_BUDGET_MB
+				: DESKTOP_MEMORY_BUDGET_MB
+		);
+		this.router = new Router(this);
+		this.tweens = new TweenManager(this.app.ticker);
 
 		this.onResize();
 		this.setEventListeners();
@@ -46,12 +74,23 @@ export class GameManager {
 	}
 
 	private startLoading(): void {
+		// Scene container holds all scenes, with the transition overlay always on top
+		this.app.stage.addChild(this.sceneContainer);
+		this.sceneContainer.addChild(this.transitionOverlay);
+
 		// Loading scene
-		this.app.stage.addChild(this.loadingScene);
+		this.currentScene = this.loadingScene;
+		this.sceneContainer.addChildAt(this.loadingScene, 0);
+
+		// A deep linked game's bundle loads along with the startup bundles, to avoid a second loading screen
+		const deepLinkedGame = getGame(this.router.getGameIdFromHash() ?? '');
+		const bundles = deepLinkedGame
+			? [...STARTUP_BUNDLES, deepLinkedGame.bundle]
+			: STARTUP_BUNDLES;
 
 		// Trigger asset loading
 		this.assetLoader
-			.loadAllAssets()
+			.loadBundles(bundles, this.loadingScene)
 			.then(() => {
 				setTimeout(() => {
 					this.finishLoading();
@@ -67,21 +106,22 @@ export class GameManager {
 	}
 
 	private finishLoading(): void {
-		// Remove loading scene
-		if (this.loadingScene) {
-			this.app.stage.removeChild(this.loadingScene);
-			this.loadingScene.destroy();
-		}
-
-		// Create scene container to hold all game scenes
-		this.sceneContainer = new Container();
-		this.app.stage.addChild(this.sceneContainer);
+		// Boot assets are used everywhere, so they are held for the lifetime of the app
+		this.assetLoader.acquireBundle('boot');
 
 		// Add FPS tracker last so it's always on top
 		this.fpsDisplay = new FPSDisplay(this.app);
 		this.app.stage.addChild(this.fpsDisplay);
 
-		this.startMainMenu();
+		// Only start routing now that the startup assets are loaded, then open the deep linked game, if any.
+		// Loading scene is destroyed once the transition to the next scene ends
+		this.router.start();
+		const deepLinkedGameId = this.router.getGameIdFromHash();
+		if (deepLinkedGameId) {
+			this.startGame(deepLinkedGameId, new FadeToBlackTransition());
+		} else {
+			this.startMainMenu(new FadeToBlackTransition());
+		}
 	}
 
 	private setEventListeners(): void {
@@ -90,29 +130,178 @@ export class GameManager {
 		});
 	}
 
-	private clearCurrentScene(): void {
-		if (this.currentScene) {
-			this.sceneContainer.removeChild(this.currentScene);
-			this.currentScene.destroy();
-			this.currentScene = null;
+	/**
+	 * Adds the next scene above the current one and transitions to it.
+	 * The outgoing scene is removed and destroyed once the effect finishes
+	 *
+	 * @param nextScene - The scene to switch to
+	 * @param effect - The transition effect to use
+	 * @param onComplete - Optional callback once the transition has ended
+	 */
+	private changeScene(
+		nextScene: Container,
+		effect: TransitionEffect,
+		onComplete?: () => void
+	): void {
+		const outgoingScene = this.currentScene;
+		this.currentScene = nextScene;
+
+		// New scene goes right below the transition overlay
+		this.sceneContainer.addChildAt(
+			nextScene,
+			this.sceneContainer.getChildIndex(this.transitionOverlay)
+		);
+
+		// Block input on both scenes for the duration of the transition
+		this.sceneContainer.interactiveChildren = false;
+
+		this.transition = new SceneTransition(
+			this.tweens,
+			effect,
+			{
+				app: this.app,
+				outgoing: outgoingScene,
+				incoming: nextScene,
+				overlay: this.transitionOverlay,
+			},
+			() => {
+				if (outgoingScene) {
+					this.sceneContainer.removeChild(outgoingScene);
+					outgoingScene.destroy();
+				}
+				this.sceneContainer.interactiveChildren = true;
+				this.transition = null;
+				onComplete?.();
+
+				// Catch up with any back/forward navigation made during the transition
+				this.router.syncWithHash();
+			}
+		);
+		this.transition.start();
+	}
+
+	/**
+	 * Acquires an asset bundle for as long as the scene exists
+	 * @param scene - The scene using the bundle
+	 * @param bundleName - The bundle name, as listed in the manifest
+	 * @returns The scene
+	 */
+	private holdBundle<T extends Container>(scene: T, bundleName: string): T {
+		this.assetLoader.acquireBundle(bundleName);
+		scene.once('destroyed', () =>
+			this.assetLoader.releaseBundle(bundleName)
+		);
+		return scene;
+	}
+
+	public getCurrentGameId(): string | null {
+		return this.currentGameId;
+	}
+
+	/**
+	 * Checks whether a scene switch is in progress, including loading a game's assets
+	 */
+	public isTransitioning(): boolean {
+		return this.transition !== null || this.isLoadingBundle;
+	}
+
+	public startMainMenu(
+		effect: TransitionEffect = new CrossfadeTransition()
+	): void {
+		if (this.isTransitioning()) return;
+
+		this.currentGameId = null;
+		this.router.updateHash(null);
+		this.changeSceneWithBundle(
+			'menu',
+			() => new MainMenu(this),
+			effect,
+			i18n.t('loading.menu')
+		);
+	}
+
+	public startGame(
+		gameToStart: string,
+		effect: TransitionEffect = new IrisTransition()
+	): void {
+		if (this.isTransitioning()) return;
+
+		const game = getGame(gameToStart);
+		if (!game) {
+			console.error(`Unknown game: ${gameToStart}`);
+			return;
 		}
+
+		this.currentGameId = game.id;
+		this.router.updateHash(game.id);
+		this.changeSceneWithBundle(
+			game.bundle,
+			() => new GameScene(this, game.GameClass),
+			effect,
+			i18n.t('loading.game', { game: game.name })
+		);
 	}
 
-	public startMainMenu(): void {
-		this.clearCurrentScene();
-		this.currentScene = new MainMenu(this);
-		this.sceneContainer.addChild(this.currentScene);
+	/**
+	 * Switches to a scene that needs an asset bundle, holding the bundle for as long as the scene exists.
+	 * If the bundle isn't loaded yet, e.g. on the first visit or after it was unloaded, a loading screen is shown until it is
+	 *
+	 * @param bundleName - The bundle the scene needs
+	 * @param createScene - Creates the scene, once its bundle is loaded
+	 * @param effect - The transition effect into the scene
+	 * @param loadingSubtitle - Text shown on the loading screen, if needed
+	 */
+	private changeSceneWithBundle(
+		bundleName: string,
+		createScene: () => Container,
+		effect: TransitionEffect,
+		loadingSubtitle: string
+	): void {
+		if (this.assetLoader.isBundleLoaded(bundleName)) {
+			this.changeScene(
+				this.holdBundle(createScene(), bundleName),
+				effect
+			);
+			return;
+		}
+
+		const loadingScene = new LoadingScreen(loadingSubtitle);
+		this.isLoadingBundle = true;
+		this.changeScene(loadingScene, new FadeToBlackTransition(), () => {
+			this.assetLoader
+				.loadBundles([bundleName], loadingScene)
+				.catch(error => {
+					// Still show the scene even if some assets fail
+					console.error(
+						`Failed to load bundle ${bundleName}:`,
+						error
+					);
+				})
+				.finally(() => {
+					this.isLoadingBundle = false;
+					this.changeScene(
+						this.holdBundle(createScene(), bundleName),
+						effect
+					);
+				});
+		});
 	}
 
-	public startGame(gameToStart: GameType): void {
-		this.clearCurrentScene();
-		const GameClass = GameToClassMap[gameToStart];
-		this.currentScene = new GameScene(this, GameClass);
-		this.sceneContainer.addChild(this.currentScene);
+	/**
+	 * Switches the language of the app. Scenes created from now on are translated to it, and dialogue scripts with
+	 * translations load again in it the next time they are needed
+	 *
+	 * @param locale - An available locale, see i18n.getLocales
+	 */
+	public setLocale(locale: string): void {
+		if (locale === i18n.getLocale()) return;
+
+		i18n.setLocale(locale);
+		this.assetLoader.unloadTranslatedBundles();
 	}
 
 	public backToMainMenu(): void {
-		this.startMainMenu();
+		this.startMainMenu(new WipeTransition());
 	}
 
 	public onResize(): void {
@@ -120,6 +309,12 @@ export class GameManager {
 		if (this.currentScene && 'onResize' in this.currentScene) {
 			this.currentScene.onResize();
 		}
+
+		// Outgoing scene is still visible while transitioning
+		const outgoingScene = this.transition?.outgoing;
+		if (outgoingScene && 'onResize' in outgoingScene) {
+			(outgoingScene as GameScene | MainMenu).onResize();
+		}
 	}
 
 	public getApp(): Application {
@@ -0,0 +1,72 @@
+import { Application, Container } from 'pixi.js';
+import { Game } from './Game';
+
+export type GameConstructor = new (
+	app: Application,
+	backgroundContainer: Container,
+	foregroundContainer: Container
+) => Game;
+
+/**
+ * Everything the rest of the application needs to know about a game.
+ *
+ * @property id - Unique identifier, used by GameManager.startGame
+ * @property name - Display name shown on the main menu button
+ * @property route - URL hash route, e.g. 'ace-of-shadows' for #/ace-of-shadows
+ * @property emoji - Icon shown on both sides of the main menu button
+ * @property color - Main menu button color
+ * @property bundle - Name of the assets.json bundle the game needs, loaded the first time the game is entered
+ * @property GameClass - The Game subclass to instantiate
+ */
+export interface GameDefinition {
+	id: string;
+	name: string;
+	route: string;
+	emoji: string;
+	color: number;
+	bundle: string;
+	GameClass: GameConstructor;
+}
+
+const registry = new Map<string, GameDefinition>();
+
+/**
+ * Registers a game so that it shows up on the main menu and can be started by the game manager.
+ * Games are listed in registration order.
+ *
+ * Should be called once at the bottom of each game module.
+ *
+ * @param definition - The game's definition
+ */
+export function registerGame(definition: GameDefinition): void {
+	if (registry.has(definition.id)) {
+		throw new Error(`Game "${definition.id}" is already registered`);
+	}
+	registry.set(definition.id, definition);
+}
+
+/**
+ * Gets a registered game by its id
+ * @param id - The game id
+ * @returns The game definition, or undefined if no game is registered with that id
+ */
+export function getGame(id: string): GameDefinition | undefined {
+	return registry.get(id);
+}
+
+/**
+ * Gets a registered game by its URL hash route
+ * @param route - The game route, without the leading '#/'
+ * @returns The game definition, or undefined if no game is registered with that route
+ */
+export function getGameByRoute(route: string): GameDefinition | undefined {
+	return getGames().find(game => game.route === route);
+}
+
+/**
+ * Gets all registered games, in registration order
+ * @returns The registered game definitions
+ */
+export function getGames(): GameDefinition[] {
+	return Array.from(registry.values());
+}
@@ -0,0 +1,253 @@
+import { isRecord } from './Validation';
+
+/**
+ * Key of a UI string, as listed in the default locale's file
+ */
+export type MessageKey = Exclude<
+	keyof typeof import('../locales/en.json'),
+	`$${string}`
+>;
+
+/**
+ * Values of a UI string's placeholders, e.g. { game: 'Magic Words' } for 'Preparing {game}'.
+ * Numbers are formatted for the locale, and `count` picks the plural form
+ */
+export type MessageParams = Record<string, string | number>;
+
+/**
+ * A UI string, or its plural forms by plural category, e.g. { "one": "{count} particle", "other": "{count} particles" }.
+ * Plural forms must include "other", used for any category they leave out
+ */
+type Message = string | Partial<Record<Intl.LDMLPluralRule, string>>;
+
+/**
+ * A locale file, read from src/locales/<locale>.json
+ *
+ * @property name - The language's own name, shown on the language picker. Set with "$name"
+ * @property fallback - Optional locale to look missing strings up in before the default one. Set with "$fallback"
+ * @property messages - The UI strings, by key
+ */
+interface Locale {
+	name: string;
+	fallback?: string;
+	messages: Map<string, Message>;
+}
+
+// Locale every string is looked up in last, and the app starts in if none of the player's languages is available
+const DEFAULT_LOCALE = 'en';
+
+const LOCALE_STORAGE_KEY = 'softgames-locale';
+
+/**
+ * Translates the UI strings of the app, from the locale files bundled in src/locales.
+ *
+ * Starts in the locale picked last, which persists in localStorage, or else the first of the browser's languages that
+ * is available, matching its base language if needed, e.g. de for de-AT.
+ *
+ * Strings missing from a locale are looked up along its fallback chain: the locale, its base language, its "$fallback"
+ * locale and finally the default locale. Strings missing everywhere are shown as their key, with a warning.
+ */
+export class I18n {
+	// Core
+	private locales: Map<string, Locale> = new Map();
+	private locale: string = DEFAULT_LOCALE;
+	private fallbackChain: string[] = [DEFAULT_LOCALE];
+	private pluralRules!: Intl.PluralRules;
+	private numberFormat!: Intl.NumberFormat;
+	private missingKeys: Set<string> = new Set();
+
+	/**
+	 * @param files - The parsed locale files, by path
+	 */
+	constructor(files: Record<string, unknown>) {
+		Object.entries(files).forEach(([path, file]) => {
+			const locale = path
+				.split('/')
+				.pop()!
+				.replace(/\.json$/, '');
+			this.locales.set(locale, readLocale(locale, file));
+		});
+		this.applyLocale(this.detectLocale());
+	}
+
+	/**
+	 * Gets the current locale, e.g. 'de'
+	 */
+	public getLocale(): string {
+		return this.locale;
+	}
+
+	/**
+	 * Gets the available locales, with their language's own name, in alphabetical order of locale
+	 */
+	public getLocales(): { locale: string; name: string }[] {
+		return [...this.locales.entries()]
+			.map(([locale, { name }]) => ({ locale, name }))
+			.sort((a, b) => a.locale.localeCompare(b.locale));
+	}
+
+	/**
+	 * Gets the locales strings are looked up in, in order, starting with the current locale
+	 */
+	public getFallbackChain(): string[] {
+		return this.fallbackChain;
+	}
+
+	/**
+	 * Switches the locale and remembers it for the next visit.
+	 * Only affects strings translated from now on, so scenes already shown keep theirs until rebuilt
+	 *
+	 * @param locale - An available locale
+	 */
+	public setLocale(locale: string): void {
+		if (!this.locales.has(locale)) {
+			console.warn(`Unknown locale: ${locale}`);
+			return;
+		}
+
+		this.applyLocale(locale);
+		try {
+			localStorage.setItem(LOCALE_STORAGE_KEY, locale);
+		} catch (error) {
+			console.error('Failed to save locale:', error);
+		}
+	}
+
+	/**
+	 * Translates a UI string to the current locale
+	 * @param key - The string's key
+	 * @param params - Optional values of its placeholders. A numeric `count` picks the plural form
+	 * @returns The translated string, or the key if no locale has it
+	 */
+	public t(key: MessageKey, params: MessageParams = {}): string {
+		const message = this.findMessage(key);
+		if (message === undefined) {
+			if (!this.missingKeys.has(key)) {
+				this.missingKeys.add(key);
+				console.warn(`Missing UI string: ${key}`);
+			}
+			return key;
+		}
+
+		const text =
+			typeof message === 'string'
+				? message
+				: (message[
+						this.pluralRules.select(Number(params.count ?? 0))
+					] ?? message.other!);
+		return text.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+			const value = params[name];
+			if (value === undefined) return placeholder;
+			return typeof value === 'number'
+				? this.numberFormat.format(value)
+				: value;
+		});
+	}
+
+	/**
+	 * Picks the locale to use out of the ones something is available in, e.g. a translated dialogue script
+	 * @param available - The locales it is available in
+	 * @returns The first of them on the fallback chain, or null if there is none
+	 */
+	public pickLocale(available: string[]): string | null {
+		return (
+			this.fallbackChain.find(locale => available.includes(locale)) ??
+			null
+		);
+	}
+
+	private findMessage(key: string): Message | undefined {
+		for (const locale of this.fallbackChain) {
+			const message = this.locales.get(locale)?.messages.get(key);
+			if (message !== undefined) return message;
+		}
+		return undefined;
+	}
+
+	private applyLocale(locale: string): void {
+		this.locale = locale;
+		this.fallbackChain = this.buildFallbackChain(locale);
+		this.pluralRules = new Intl.PluralRules(locale);
+		this.numberFormat = new Intl.NumberFormat(locale);
+		document.documentElement.lang = locale;
+	}
+
+	/**
+	 * Lists a locale, its base language, its fallback's chain and the default locale, skipping unavailable and repeated ones
+	 */
+	private buildFallbackChain(locale: string): string[] {
+		const chain: string[] = [];
+		const visit = (candidate: string | undefined): void => {
+			if (
+				!candidate ||
+				chain.includes(candidate) ||
+				!this.locales.has(candidate)
+			) {
+				return;
+			}
+			chain.push(candidate);
+			visit(candidate.split('-')[0]);
+			visit(this.locales.get(candidate)!.fallback);
+		};
+
+		visit(locale);
+		visit(DEFAULT_LOCALE);
+		return chain;
+	}
+
+	private detectLocale(): string {
+		try {
+			const stored = localStorage.getItem(LOCALE_STORAGE_KEY);
+			if (stored && this.locales.has(stored)) return stored;
+		} catch (error) {
+			console.error('Failed to load locale:', error);
+		}
+
+		for (const language of navigator.languages ?? []) {
+			const match = [language, language.split('-')[0]].find(locale =>
+				this.locales.has(locale)
+			);
+			if (match) return match;
+		}
+		return DEFAULT_LOCALE;
+	}
+}
+
+/**
+ * Reads a locale file, skipping strings that are neither text nor plural forms with an "other" form
+ */
+function readLocale(locale: string, file: unknown): Locale {
+	const messages = new Map<string, Message>();
+	let name = locale;
+	let fallback: string | undefined;
+
+	if (!isRecord(file)) {
+		console.warn(`Locale ${locale} must be an object, ignored`);
+		return { name, messages };
+	}
+
+	Object.entries(file).forEach(([key, value]) => {
+		if (key === '$name' && typeof value === 'string') {
+			name = value;
+		} else if (key === '$fallback' && typeof value === 'string') {
+			fallback = value;
+		} else if (
+			typeof value === 'string' ||
+			(isRecord(value) &&
+				typeof value.other === 'string' &&
+				Object.values(value).every(form => typeof form === 'string'))
+		) {
+			messages.set(key, value as Message);
+		} else {
+			console.warn(
+				`Locale ${locale} string ${key} must be text or plural forms with an "other" form, ignored`
+			);
+		}
+	});
+
+	return { name, fallback, messages };
+}
+
+export const i18n = new I18n(
+	import.meta.glob('../locales/*.json', { eager: true, import: 'default' })
+);
@@ -0,0 +1,148 @@
+import type { EmitterConfigV3 } from '@pixi/particle-emitter';
+import {
+	ValidationReport,
+	checkNumber,
+	checkString,
+	describeType,
+	isRecord,
+	type ValidationResult,
+} from './Validation';
+
+/**
+ * Folder that particle texture paths in configs are relative to
+ */
+export const PARTICLE_TEXTURE_FOLDER = 'assets/particles/';
+
+/**
+ * Validates a particle emitter config, in the @pixi/particle-emitter v3 format.
+ *
+ * Checks the properties the emitter needs to start, and that every behavior has a type and a config.
+ * Texture paths of textureRandom and textureSingle behaviors must be strings, since they are loaded by the asset loader.
+ * The config is rejected on any error, since a partial emitter would look broken rather than degraded.
+ *
+ * @param config - The parsed JSON
+ * @returns The validated config, or null if it was rejected
+ */
+export function validateParticleConfig(
+	config: unknown
+): ValidationResult<EmitterConfigV3> {
+	const report = new ValidationReport();
+
+	if (!isRecord(config)) {
+		report.error(
+			'(root)',
+			`must be an object, got ${describeType(config)}`
+		);
+		return report.result<EmitterConfigV3>(null);
+	}
+
+	// Lifetime
+	if (isRecord(config.lifetime)) {
+		checkNumber(report, config.lifetime, 'min', 'lifetime');
+		checkNumber(report, config.lifetime, 'max', 'lifetime');
+	} else {
+		report.error(
+			'lifetime',
+			config.lifetime === undefined
+				? 'missing'
+				: `must be an object, got ${describeType(config.lifetime)}`
+		);
+	}
+
+	checkNumber(report, config, 'frequency', '');
+
+	// Position
+	if (isRecord(config.pos)) {
+		checkNumber(report, config.pos, 'x', 'pos');
+		checkNumber(report, config.pos, 'y', 'pos');
+	} else {
+		report.error(
+			'pos',
+			config.pos === undefined
+				? 'missing'
+				: `must be an object, got ${describeType(config.pos)}`
+		);
+	}
+
+	// Behaviors
+	if (Array.isArray(config.behaviors)) {
+		config.behaviors.forEach((behavior, i) =>
+			validateBehavior(report, behavior, `behaviors[${i}]`)
+		);
+	} else {
+		report.error(
+			'behaviors',
+			config.behaviors === undefined
+				? 'missing'
+				: `must be an array, got ${describeType(config.behaviors)}`
+		);
+	}
+
+	if (report.errors.length > 0) {
+		return report.result<EmitterConfigV3>(null);
+	}
+	return report.result(config as unknown as EmitterConfigV3);
+}
+
+function validateBehavior(
+	report: ValidationReport,
+	behavior: unknown,
+	path: string
+): void {
+	if (!isRecord(behavior)) {
+		report.error(path, `must be an object, got ${describeType(behavior)}`);
+		return;
+	}
+
+	const hasType = checkString(report, behavior, 'type', path);
+	if (!isRecord(behavior.config)) {
+		report.error(
+			`${path}.config`,
+			behavior.config === undefined
+				? 'missing'
+				: `must be an object, got ${describeType(behavior.config)}`
+		);
+		return;
+	}
+	if (!hasType) return;
+
+	if (behavior.type === 'textureRandom') {
+		const textures = behavior.config.textures;
+		if (!Array.isArray(textures) || textures.length === 0) {
+			report.error(
+				`${path}.config.textures`,
+				'must be a non-empty array of texture paths'
+			);
+		} else {
+			textures.forEach((texture, i) => {
+				if (typeof texture !== 'string') {
+					report.error(
+						`${path}.config.textures[${i}]`,
+						`must be a texture path, got ${describeType(texture)}`
+					);
+				}
+			});
+		}
+	} else if (behavior.type === 'textureSingle') {
+		checkString(report, behavior.config, 'texture', `${path}.config`);
+	}
+}
+
+/**
+ * Gets the full paths of every texture a validated particle config references
+ */
+export function getParticleTexturePaths(config: EmitterConfigV3): string[] {
+	const texturePaths: string[] = [];
+
+	config.behaviors.forEach(behavior => {
+		if (behavior.type === 'textureRandom') {
+			texturePaths.push(...behavior.config.textures);
+		} else if (behavior.type === 'textureSingle') {
+			texturePaths.push(behavior.config.texture);
+		}
+	});
+
+	return texturePaths.map(
+		texturePath => `${PARTICLE_TEXTURE_FOLDER}${texturePath}`
+	);
+}
@@ -0,0 +1,92 @@
+import { GameManager } from './GameManager';
+import { getGame, getGameByRoute } from './GameRegistry';
+
+const MAIN_MENU_HASH = '#/';
+
+/**
+ * URL hash router that deep links to individual games.
+ *
+ * Maps '#/' to the main menu and '#/<game route>' to the matching registered game.
+ * Keeps the hash in sync with the current scene and handles browser back/forward through popstate.
+ *
+ * Only starts listening once asset loading has finished, so deep links never start a game early.
+ *
+ * @param gameManager - The game manager to navigate with
+ */
+export class Router {
+	// Core
+	private gameManager: GameManager;
+
+	// State
+	private isStarted: boolean = false;
+	private boundOnPopState: () => void;
+
+	constructor(gameManager: GameManager) {
+		this.gameManager = gameManager;
+		this.boundOnPopState = this.onPopState.bind(this);
+	}
+
+	/**
+	 * Starts listening for back/forward navigation, and normalizes the current hash.
+	 * Unknown hashes are replaced with the main menu's
+	 */
+	public start(): void {
+		if (this.isStarted) return;
+		this.isStarted = true;
+
+		const hash = this.getHashForGame(this.getGameIdFromHash());
+		if (location.hash !== hash) {
+			history.replaceState(null, '', hash);
+		}
+		window.addEventListener('popstate', this.boundOnPopState);
+	}
+
+	/**
+	 * Gets the game the current URL hash points to
+	 * @returns The game id, or null if the hash points to the main menu or to an unknown game
+	 */
+	public getGameIdFromHash(): string | null {
+		const route = location.hash.replace(/^#\/?/, '');
+		return getGameByRoute(route)?.id ?? null;
+	}
+
+	/**
+	 * Pushes a new history entry for the given scene, unless the hash already points to it
+	 * @param gameId - The game being shown, or null for the main menu
+	 */
+	public updateHash(gameId: string | null): void {
+		if (!this.isStarted) return;
+
+		const hash = this.getHashForGame(gameId);
+		if (location.hash !== hash) {
+			history.pushState(null, '', hash);
+		}
+	}
+
+	/**
+	 * Navigates to the hash's scene if it differs from the current one.
+	 * Called after each transition, since navigation is ignored while a transition runs
+	 */
+	public syncWithHash(): void {
+		if (!this.isStarted) return;
+
+		const gameId = this.getGameIdFromHash();
+		if (gameId === this.gameManager.getCurrentGameId()) return;
+
+		if (gameId) {
+			this.gameManager.startGame(gameId);
+		} else {
+			this.gameManager.backToMainMenu();
+		}
+	}
+
+	private getHashForGame(gameId: string | null): string {
+		const game = gameId ? getGame(gameId) : undefined;
+		return game ? `#/${game.route}` : MAIN_MENU_HASH;
+	}
+
+	private onPopState(): void {
+		if (this.gameManager.isTransitioning()) return;
+		this.syncWithHash();
+	}
+}
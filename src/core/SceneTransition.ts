@@ -0,0 +1,229 @@
+import { Application, Container, Graphics } from 'pixi.js';
+import { Easing, TweenManager } from './Tween';
+
+/**
+ * Everything a transition effect needs to animate between two scenes.
+ *
+ * @property app - The Pixi application
+ * @property outgoing - The scene being replaced, if any. Destroyed after the transition ends
+ * @property incoming - The scene being shown. Already added above the outgoing scene
+ * @property overlay - Layer above both scenes, for any curtains or masks the effect needs
+ */
+export interface TransitionContext {
+	app: Application;
+	outgoing: Container | null;
+	incoming: Container;
+	overlay: Container;
+}
+
+/**
+ * Abstract base class for pluggable scene transition effects.
+ *
+ * Effects are single use: create a new instance for every transition.
+ *
+ * @method begin - Create any graphics or masks the effect needs
+ * @method update - Apply the effect for the given eased progress, from 0 to 1
+ * @method end - Remove anything the effect created and leave the incoming scene fully visible
+ */
+export abstract class TransitionEffect {
+	public readonly duration: number;
+
+	constructor(duration: number) {
+		this.duration = duration;
+	}
+
+	public abstract begin(context: TransitionContext): void;
+	public abstract update(context: TransitionContext, progress: number): void;
+	public abstract end(context: TransitionContext): void;
+}
+
+/**
+ * Fades the outgoing scene to a solid color, then fades the incoming scene in from it.
+ */
+export class FadeToBlackTransition extends TransitionEffect {
+	private color: number;
+	private curtain: Graphics | null = null;
+
+	constructor(duration: number = 800, color: number = 0x000000) {
+		super(duration);
+		this.color = color;
+	}
+
+	public begin(context: TransitionContext): void {
+		this.curtain = new Graphics();
+		context.overlay.addChild(this.curtain);
+	}
+
+	public update(context: TransitionContext, progress: number): void {
+		// First half covers the outgoing scene, second half uncovers the incoming one
+		const isCovering = progress < 0.5;
+		if (context.outgoing) {
+			context.outgoing.visible = isCovering;
+		}
+		context.incoming.visible = !isCovering;
+
+		const alpha = isCovering ? progress * 2 : (1 - progress) * 2;
+		this.curtain!.clear();
+		this.curtain!.beginFill(this.color, alpha);
+		this.curtain!.drawRect(
+			0,
+			0,
+			context.app.screen.width,
+			context.app.screen.height
+		);
+		this.curtain!.endFill();
+	}
+
+	public end(context: TransitionContext): void {
+		context.incoming.visible = true;
+		this.curtain?.destroy();
+		this.curtain = null;
+	}
+}
+
+/**
+ * Fades the incoming scene in on top of the outgoing scene.
+ */
+export class CrossfadeTransition extends TransitionEffect {
+	constructor(duration: number = 600) {
+		super(duration);
+	}
+
+	public begin(context: TransitionContext): void {
+		context.incoming.alpha = 0;
+	}
+
+	public update(context: TransitionContext, progress: number): void {
+		context.incoming.alpha = progress;
+	}
+
+	public end(context: TransitionContext): void {
+		context.incoming.alpha = 1;
+	}
+}
+
+/**
+ * Reveals the incoming scene with a mask sweeping horizontally across the screen.
+ */
+export class WipeTransition extends TransitionEffect {
+	private direction: 'left' | 'right';
+	private mask: Graphics | null = null;
+
+	constructor(duration: number = 700, direction: 'left' | 'right' = 'right') {
+		super(duration);
+		this.direction = direction;
+	}
+
+	public begin(context: TransitionContext): void {
+		this.mask = new Graphics();
+		context.overlay.addChild(this.mask);
+		context.incoming.mask = this.mask;
+	}
+
+	public update(context: TransitionContext, progress: number): void {
+		const screenWidth = context.app.screen.width;
+		const wipeWidth = screenWidth * progress;
+		const x = this.direction === 'right' ? 0 : screenWidth - wipeWidth;
+
+		this.mask!.clear();
+		this.mask!.beginFill(0xffffff);
+		this.mask!.drawRect(x, 0, wipeWidth, context.app.screen.height);
+		this.mask!.endFill();
+	}
+
+	public end(context: TransitionContext): void {
+		context.incoming.mask = null;
+		this.mask?.destroy();
+		this.mask = null;
+	}
+}
+
+/**
+ * Reveals the incoming scene through a circle growing from the center of the screen.
+ */
+export class IrisTransition extends TransitionEffect {
+	private mask: Graphics | null = null;
+
+	constructor(duration: number = 800) {
+		super(duration);
+	}
+
+	public begin(context: TransitionContext): void {
+		this.mask = new Graphics();
+		context.overlay.addChild(this.mask);
+		context.incoming.mask = this.mask;
+	}
+
+	public update(context: TransitionContext, progress: number): void {
+		const screenWidth = context.app.screen.width;
+		const screenHeight = context.app.screen.height;
+		// Half the screen diagonal, so the circle covers the corners when complete
+		const maxRadius = Math.hypot(screenWidth, screenHeight) * 0.5;
+
+		this.mask!.clear();
+		this.mask!.beginFill(0xffffff);
+		this.mask!.drawCircle(
+			screenWidth * 0.5,
+			screenHeight * 0.5,
+			maxRadius * progress
+		);
+		this.mask!.endFill();
+	}
+
+	public end(context: TransitionContext): void {
+		context.incoming.mask = null;
+		this.mask?.destroy();
+		this.mask = null;
+	}
+}
+
+/**
+ * Runs a transition effect as a tween, calling onComplete once the effect has finished.
+ *
+ * @param tweens - The tween manager to run the transition on
+ * @param effect - The effect to run
+ * @param context - The scenes and overlay to animate
+ * @param onComplete - Called after the effect has ended
+ */
+export class SceneTransition {
+	// Core
+	private tweens: TweenManager;
+	private effect: TransitionEffect;
+	private context: TransitionContext;
+	private onComplete: () => void;
+
+	// Animation state
+	private state = { progress: 0 };
+
+	constructor(
+		tweens: TweenManager,
+		effect: TransitionEffect,
+		context: TransitionContext,
+		onComplete: () => void
+	) {
+		this.tweens = tweens;
+		this.effect = effect;
+		this.context = context;
+		this.onComplete = onComplete;
+	}
+
+	public get outgoing(): Container | null {
+		return this.context.outgoing;
+	}
+
+	public start(): void {
+		this.effect.begin(this.context);
+		this.effect.update(this.context, 0);
+		this.tweens.to(this.state, {
+			to: { progress: 1 },
+			duration: this.effect.duration,
+			ease: Easing.cubicInOut,
+			onUpdate: () =>
+				this.effect.update(this.context, this.state.progress),
+			onComplete: () => {
+				this.effect.end(this.context);
+				this.onComplete();
+			},
+		});
+	}
+}
@@ -0,0 +1,390 @@
+import { Container, Ticker } from 'pixi.js';
+
+export type EasingFunction = (t: number) => number;
+
+/**
+ * Easing functions, mapping linear progress (0 to 1) to eased progress.
+ *
+ * See https://easings.net for visual references
+ */
+export const Easing = {
+	linear: t => t,
+	quadIn: t => t * t,
+	quadOut: t => 1 - (1 - t) * (1 - t),
+	quadInOut: t => (t < 0.5 ? 2 * t * t : 1 - Math.pow(-2 * t + 2, 2) * 0.5),
+	cubicIn: t => t * t * t,
+	cubicOut: t => 1 - Math.pow(1 - t, 3),
+	cubicInOut: t =>
+		t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) * 0.5,
+	sineIn: t => 1 - Math.cos((t * Math.PI) / 2),
+	sineOut: t => Math.sin((t * Math.PI) / 2),
+	sineInOut: t => -(Math.cos(Math.PI * t) - 1) * 0.5,
+	backOut: t => {
+		const overshoot = 1.70158;
+		return (
+			1 +
+			(overshoot + 1) * Math.pow(t - 1, 3) +
+			overshoot * Math.pow(t - 1, 2)
+		);
+	},
+	elasticOut: t =>
+		t === 0 || t === 1
+			? t
+			: Math.pow(2, -10 * t) *
+					Math.sin((t * 10 - 0.75) * ((2 * Math.PI) / 3)) +
+				1,
+} satisfies Record<string, EasingFunction>;
+
+// Keys of T whose values are numbers, i.e. the properties that can be tweened
+type NumericKeys<T> = {
+	[K in keyof T]: T[K] extends number ? K : never;
+}[keyof T];
+
+/**
+ * Options for a property tween.
+ *
+ * @property to - End values of the properties to tween. Start values are read when the tween starts
+ * @property duration - Duration in milliseconds
+ * @property delay - Optional delay in milliseconds before the tween starts
+ * @property ease - Optional easing function. Defaults to linear
+ * @property repeat - Optional number of extra times to play the tween. -1 repeats forever
+ * @property yoyo - Optional. If repeating, play every other repetition backwards
+ * @property onStart - Optional callback when the tween starts, after the delay
+ * @property onUpdate - Optional callback after each update, with the linear progress of the current repetition
+ * @property onComplete - Optional callback when the tween finishes. Not called if killed
+ */
+export interface TweenOptions<T> {
+	to: Partial<Pick<T, NumericKeys<T>>>;
+	duration: number;
+	delay?: number;
+	ease?: EasingFunction;
+	repeat?: number;
+	yoyo?: boolean;
+	onStart?: () => void;
+	onUpdate?: (progress: number) => void;
+	onComplete?: () => void;
+}
+
+/**
+ * Abstract base class for anything the tween manager can run.
+ *
+ * @method advance - Advance by the given time. Returns the time left over after finishing, if finished
+ */
+export abstract class Animation {
+	// Speed multiplier, e.g. 2 plays twice as fast
+	public timeScale: number = 1;
+
+	protected isPaused: boolean = false;
+	protected isKilled: boolean = false;
+	protected isFinished: boolean = false;
+
+	protected abstract advance(deltaMS: number): number;
+
+	/**
+	 * Advances the animation, unless it is paused, killed or finished
+	 * @param deltaMS - Time since the last update, in milliseconds
+	 * @returns The time left over after finishing, in milliseconds. Zero if still running
+	 */
+	public update(deltaMS: number): number {
+		if (!this.isActive() || this.isPaused || this.timeScale <= 0) return 0;
+		return this.advance(deltaMS * this.timeScale) / this.timeScale;
+	}
+
+	public isActive(): boolean {
+		return !this.isKilled && !this.isFinished;
+	}
+
+	public pause(): void {
+		this.isPaused = true;
+	}
+
+	public resume(): void {
+		this.isPaused = false;
+	}
+
+	/**
+	 * Stops the animation where it is, without calling its completion callback
+	 */
+	public kill(): void {
+		this.isKilled = true;
+	}
+
+	protected finish(): void {
+		this.isFinished = true;
+	}
+}
+
+/**
+ * Tweens numeric properties of a target object, such as a sprite's position or alpha.
+ *
+ * Killed automatically if the target is a destroyed display object.
+ *
+ * @param target - The object whose properties to tween
+ * @param options - The tween options
+ */
+export class Tween<T extends object = object> extends Animation {
+	// Core
+	public readonly target: T;
+	private options: TweenOptions<T>;
+
+	// Animation state
+	private fromValues: Record<string, number> = {};
+	private toValues: Record<string, number> = {};
+	private elapsed: number = 0;
+	private repetition: number = 0;
+	private isStarted: boolean = false;
+
+	constructor(target: T, options: TweenOptions<T>) {
+		super();
+		this.target = target;
+		this.options = options;
+	}
+
+	protected advance(deltaMS: number): number {
+		if ((this.target as { destroyed?: boolean }).destroyed) {
+			this.kill();
+			return 0;
+		}
+
+		this.elapsed += deltaMS;
+		const delay = this.options.delay ?? 0;
+		if (this.elapsed < delay) return 0;
+
+		if (!this.isStarted) {
+			this.start();
+		}
+
+		const duration = this.options.duration;
+		const time = this.elapsed - delay;
+		const progress = duration > 0 ? Math.min(time / duration, 1) : 1;
+		this.apply(progress);
+		this.options.onUpdate?.(progress);
+
+		if (progress < 1) return 0;
+
+		const leftover = time - duration;
+		const repeat = this.options.repeat ?? 0;
+		if (repeat === -1 || this.repetition < repeat) {
+			this.repetition++;
+			this.elapsed = delay + leftover;
+			if (this.options.yoyo) {
+				[this.fromValues, this.toValues] = [
+					this.toValues,
+					this.fromValues,
+				];
+			}
+			return 0;
+		}
+
+		this.finish();
+		this.options.onComplete?.();
+		return leftover;
+	}
+
+	private start(): void {
+		this.isStarted = true;
+
+		// Start values are read now rather than on creation, so that sequenced tweens start where the previous ended
+		const target = this.target as Record<string, number>;
+		const to = this.options.to as Record<string, number>;
+		for (const key of Object.keys(to)) {
+			this.fromValues[key] = target[key];
+			this.toValues[key] = to[key];
+		}
+		this.options.onStart?.();
+	}
+
+	private apply(progress: number): void {
+		const ease = this.options.ease ?? Easing.linear;
+		const easedProgress = ease(progress);
+		const target = this.target as Record<string, number>;
+
+		for (const key of Object.keys(this.toValues)) {
+			const from = this.fromValues[key];
+			target[key] = from + (this.toValues[key] - from) * easedProgress;
+		}
+	}
+}
+
+/**
+ * Runs a callback once, as a timeline step
+ */
+class CallbackStep extends Animation {
+	private callback: () => void;
+
+	constructor(callback: () => void) {
+		super();
+		this.callback = callback;
+	}
+
+	protected advance(deltaMS: number): number {
+		this.finish();
+		this.callback();
+		return deltaMS;
+	}
+}
+
+/**
+ * Plays animations one after another. Each step starts exactly where the previous one ended,
+ * carrying over any leftover frame time so sequences don't drift.
+ *
+ * @param onComplete - Optional callback when the last step finishes. Not called if killed
+ */
+export class Timeline extends Animation {
+	private steps: Animation[] = [];
+	private currentStep: number = 0;
+	private onComplete?: () => void;
+
+	constructor(onComplete?: () => void) {
+		super();
+		this.onComplete = onComplete;
+	}
+
+	/**
+	 * Appends a step to the timeline
+	 * @param animation - A tween or another timeline
+	 */
+	public add(animation: Animation): this {
+		this.steps.push(animation);
+		return this;
+	}
+
+	/**
+	 * Appends a property tween to the timeline
+	 */
+	public to<T extends object>(target: T, options: TweenOptions<T>): this {
+		return this.add(new Tween(target, options));
+	}
+
+	/**
+	 * Appends a pause to the timeline
+	 * @param delayMS - The pause duration in milliseconds
+	 */
+	public wait(delayMS: number): this {
+		return this.add(new Tween({}, { to: {}, duration: delayMS }));
+	}
+
+	/**
+	 * Appends a callback to the timeline
+	 */
+	public call(callback: () => void): this {
+		return this.add(new CallbackStep(callback));
+	}
+
+	public kill(): void {
+		super.kill();
+		this.steps[this.currentStep]?.kill();
+	}
+
+	protected advance(deltaMS: number): number {
+		let remaining = deltaMS;
+
+		while (this.currentStep < this.steps.length) {
+			const step = this.steps[this.currentStep];
+			remaining = step.update(remaining);
+			if (step.isActive() || this.isKilled) return 0;
+			this.currentStep++;
+		}
+
+		this.finish();
+		this.onComplete?.();
+		return remaining;
+	}
+}
+
+/**
+ * Runs tweens and timelines on a ticker.
+ *
+ * Each scene or game should have its own manager, bound to the scene with bindTo, so that all of its
+ * animations are killed when the scene is destroyed. Games get one on their own ticker, so it freezes while paused.
+ *
+ * @param ticker - The ticker that drives the animations
+ */
+export class TweenManager {
+	// Core
+	private ticker: Ticker;
+
+	// Animations
+	private animations: Animation[] = [];
+
+	constructor(ticker: Ticker) {
+		this.ticker = ticker;
+		this.ticker.add(this.update, this);
+	}
+
+	/**
+	 * Tweens properties of a target object
+	 * @param target - The object whose properties to tween
+	 * @param options - The tween options
+	 * @returns The tween, already running
+	 */
+	public to<T extends object>(target: T, options: TweenOptions<T>): Tween<T> {
+		return this.add(new Tween(target, options));
+	}
+
+	/**
+	 * Creates a timeline. Steps can be appended until the next ticker update
+	 * @param onComplete - Optional callback when the last step finishes
+	 * @returns The timeline, already running
+	 */
+	public timeline(onComplete?: () => void): Timeline {
+		return this.add(new Timeline(onComplete));
+	}
+
+	/**
+	 * Calls a callback once after a delay, measured on the manager's ticker
+	 * @returns The delay, which can be killed to cancel the callback
+	 */
+	public delay(delayMS: number, callback: () => void): Timeline {
+		return this.timeline().wait(delayMS).call(callback);
+	}
+
+	public add<A extends Animation>(animation: A): A {
+		this.animations.push(animation);
+		return animation;
+	}
+
+	/**
+	 * Gets all running tweens of a target
+	 */
+	public getTweensOf<T extends object>(target: T): Tween<T>[] {
+		return this.animations.filter(
+			(animation): animation is Tween<T> =>
+				animation instanceof Tween &&
+				animation.target === target &&
+				animation.isActive()
+		);
+	}
+
+	public killTweensOf(target: object): void {
+		this.getTweensOf(target).forEach(tween => tween.kill());
+	}
+
+	public killAll(): void {
+		this.animations.forEach(animation => animation.kill());
+		this.animations = [];
+	}
+
+	/**
+	 * Destroys the manager when the given scene is destroyed, killing all of its animations
+	 * @param scene - The scene that owns the animations
+	 */
+	public bindTo(scene: Container): void {
+		scene.once('destroyed', this.destroy, this);
+	}
+
+	public destroy(): void {
+		this.ticker.remove(this.update, this);
+		this.killAll();
+	}
+
+	private update(): void {
+		const deltaMS = this.ticker.deltaMS;
+
+		// Iterate over a copy, since callbacks may add new animations
+		[...this.animations].forEach(animation => animation.update(deltaMS));
+		this.animations = this.animations.filter(animation =>
+			animation.isActive()
+		);
+	}
+}
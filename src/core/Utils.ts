@@ -1,3 +1,5 @@
+import type { Text } from 'pixi.js';
+
 // Base UI dimensions for 1080p
 const baseWidth = 1920;
 const baseHeight = 1080;
@@ -65,109 +67,104 @@ export function isUsingHeight(): boolean {
 }
 
 /**
- * Processes a single emoji match and returns the appropriate HTML.
- * Creates an image tag if the emoji exists, or a fallback span if not.
+ * Options for fetchJsonWithRetry and fetchTextWithRetry.
+ *
+ * @property timeoutMS - Time before an attempt is aborted, in milliseconds
+ * @property retries - Number of extra attempts after the first one fails
+ * @property retryDelayMS - Delay before the first retry, in milliseconds. Doubles after every retry
  */
-function processEmojiMatch(
-	emojiName: string,
-	emojiBase64Map: Map<string, string>,
-	emojiSize: number
-): string {
-	const base64 = emojiBase64Map.get(emojiName);
-
-	if (base64) {
-		// Create image tag for existing emoji
-		const imgStyle = `display:inline-block;vertical-align:middle;width:${emojiSize}px;height:${emojiSize}px;margin:0 4px;padding-bottom:8px;`;
-		return `<img src="${base64}" style="${imgStyle}" />`;
-	} else {
-		// Create fallback span for missing emoji
-		const spanStyle = `display:inline-block;width:${emojiSize}px;height:${emojiSize}px;line-height:${emojiSize}px;text-align:center;`;
-		return `<span style="${spanStyle}">�</span>`;
-	}
+export interface FetchRetryOptions {
+	timeoutMS: number;
+	retries: number;
+	retryDelayMS: number;
 }
 
 /**
- * Converts dialogue text with {emoji} tags to HTML with <img> tags for HTMLText.
- * Emoji images are styled to match the font size and spacing.
+ * Fetches and parses a JSON file, aborting attempts that time out and retrying failed ones with exponential backoff.
+ * HTTP error statuses and invalid JSON count as failures.
+ *
+ * @param url - The URL to fetch
+ * @param options - The timeout and retry options
+ * @returns The parsed JSON
  */
-export function textToHtmlWithEmojis(
-	text: string,
-	emojiBase64Map: Map<string, string>,
-	fontSize: number = 32
-): string {
-	const emojiRegex = /\{(\w+)\}/g;
-	const emojiSize = Math.round(fontSize * 1.1); // Slightly larger than text
-
-	let result = '';
-	let lastIndex = 0;
-	let match: RegExpExecArray | null;
-
-	// Process each emoji match in the text
-	while ((match = emojiRegex.exec(text)) !== null) {
-		// Add text before the emoji
-		if (match.index > lastIndex) {
-			result += text.slice(lastIndex, match.index);
-		}
-
-		// Add the emoji HTML
-		result += processEmojiMatch(match[1], emojiBase64Map, emojiSize);
-		lastIndex = match.index + match[0].length;
-	}
-
-	// Add any remaining text after the last emoji
-	if (lastIndex < text.length) {
-		result += text.slice(lastIndex);
-	}
+export async function fetchJsonWithRetry<T>(
+	url: string,
+	options: FetchRetryOptions
+): Promise<T> {
+	return fetchWithRetry(
+		url,
+		options,
+		async response => (await response.json()) as T
+	);
+}
 
-	return result;
+/**
+ * Fetches a text file, such as a Yarn script, with the timeout and retries of fetchJsonWithRetry.
+ *
+ * @param url - The URL to fetch
+ * @param options - The timeout and retry options
+ * @returns The text
+ */
+export async function fetchTextWithRetry(
+	url: string,
+	options: FetchRetryOptions
+): Promise<string> {
+	return fetchWithRetry(url, options, response => response.text());
 }
 
 /**
- * Converts an image element to a base64 data URL
+ * @param read - Reads the body. Failures to read it count as failed attempts
  */
-function imageToBase64(img: HTMLImageElement): string {
-	const canvas = document.createElement('canvas');
-	const context = canvas.getContext('2d');
+async function fetchWithRetry<T>(
+	url: string,
+	options: FetchRetryOptions,
+	read: (response: Response) => Promise<T>
+): Promise<T> {
+	let lastError: unknown = null;
+
+	for (let attempt = 0; attempt <= options.retries; attempt++) {
+		if (attempt > 0) {
+			const delay = options.retryDelayMS * Math.pow(2, attempt - 1);
+			await new Promise(resolve => setTimeout(resolve, delay));
+		}
 
-	if (!context) {
-		throw new Error('Could not get canvas context');
+		const controller = new AbortController();
+		const timeout = setTimeout(() => controller.abort(), options.timeoutMS);
+		try {
+			const response = await fetch(url, { signal: controller.signal });
+			if (!response.ok) {
+				throw new Error(`HTTP ${response.status}`);
+			}
+			// Body is read before the timeout is cleared, so a stalled body also times out
+			return await read(response);
+		} catch (error) {
+			lastError = error;
+			console.warn(
+				`Attempt ${attempt + 1}/${options.retries + 1} to fetch ${url} failed:`,
+				error
+			);
+		} finally {
+			clearTimeout(timeout);
+		}
 	}
 
-	// Set canvas size to match image dimensions
-	canvas.width = img.width;
-	canvas.height = img.height;
-
-	// Draw the image onto the canvas
-	context.drawImage(img, 0, 0);
-	return canvas.toDataURL('image/png');
+	throw new Error(`Failed to fetch ${url}: ${lastError}`);
 }
 
 /**
- * Loads an image from a URL and converts it to a base64 data URL, to use with HTMLText.
+ * Rejects if a promise doesn't settle in time, e.g. for image loads that have no timeout of their own
+ * @param promise - The promise to wait for
+ * @param timeoutMS - The timeout in milliseconds
+ * @param message - The error message on timeout
  */
-export async function convertUrlToBase64(url: string): Promise<string> {
+export function withTimeout<T>(
+	promise: Promise<T>,
+	timeoutMS: number,
+	message: string
+): Promise<T> {
 	return new Promise((resolve, reject) => {
-		try {
-			// Create an image element
-			const img = new Image();
-			img.crossOrigin = 'anonymous'; // Enable CORS for cross-origin images
-			img.src = url;
-
-			img.onload = () => {
-				try {
-					const base64 = imageToBase64(img);
-					resolve(base64);
-				} catch (error) {
-					reject(error);
-				}
-			};
-
-			img.onerror = () => {
-				reject(new Error(`Failed to load image: ${url}`));
-			};
-		} catch (error) {
-			reject(error);
-		}
+		const timeout = setTimeout(() => reject(new Error(message)), timeoutMS);
+		promise.then(resolve, reject).finally(() => clearTimeout(timeout));
 	});
 }
 
@@ -208,3 +205,21 @@ export function resizeToFit(
 	sprite.x = (screenWidth - sprite.width) * 0.5;
 	sprite.y = (screenHeight - sprite.height) * 0.5;
 }
+
+/**
+ * Keeps a text within a width, e.g. for translations longer than the text was laid out for.
+ * Wraps it on spaces if allowed, then scales it down if it is still too wide, e.g. for a long single word.
+ * Should be called after every change to its text or font size
+ *
+ * @param text - The text to fit
+ * @param maxWidth - The width it must fit in
+ * @param wrap - Whether it can wrap into more lines. Defaults to true
+ */
+export function fitText(text: Text, maxWidth: number, wrap = true): void {
+	text.style.wordWrap = wrap;
+	text.style.wordWrapWidth = maxWidth;
+	text.scale.set(1);
+	if (text.width > maxWidth) {
+		text.scale.set(maxWidth / text.width);
+	}
+}
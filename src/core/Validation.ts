@@ -0,0 +1,124 @@
+/**
+ * Result of validating untrusted content, such as a JSON file.
+ *
+ * @property value - The validated content, possibly with invalid parts dropped. Null if it was rejected
+ * @property errors - Problems that dropped part of the content, or rejected it entirely
+ * @property warnings - Problems the content can live with, such as a reference that falls back to a placeholder
+ */
+export interface ValidationResult<T> {
+	value: T | null;
+	errors: string[];
+	warnings: string[];
+}
+
+/**
+ * Collects validation problems, each annotated with the path of the offending value, e.g. 'dialogue[3].name missing'.
+ */
+export class ValidationReport {
+	public readonly errors: string[] = [];
+	public readonly warnings: string[] = [];
+
+	public error(path: string, message: string): void {
+		this.errors.push(`${path} ${message}`);
+	}
+
+	public warn(path: string, message: string): void {
+		this.warnings.push(`${path} ${message}`);
+	}
+
+	/**
+	 * Builds the validation result
+	 * @param value - The validated content, or null to reject it
+	 */
+	public result<T>(value: T | null): ValidationResult<T> {
+		return { value, errors: this.errors, warnings: this.warnings };
+	}
+}
+
+/**
+ * Logs every problem of a validation result
+ * @param label - What was validated, e.g. a file path
+ * @param result - The validation result
+ */
+export function logValidationResult(
+	label: string,
+	result: ValidationResult<unknown>
+): void {
+	if (result.errors.length > 0) {
+		console.error(
+			`${label} ${result.value ? 'has invalid content' : 'was rejected'}:\n  ${result.errors.join('\n  ')}`
+		);
+	}
+	if (result.warnings.length > 0) {
+		console.warn(
+			`${label} has warnings:\n  ${result.warnings.join('\n  ')}`
+		);
+	}
+}
+
+/**
+ * Checks that a value is a plain object, i.e. not null or an array
+ */
+export function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Describes the type of a value for error messages, telling null and arrays apart from objects
+ */
+export function describeType(value: unknown): string {
+	if (value === null) return 'null';
+	if (Array.isArray(value)) return 'array';
+	return typeof value;
+}
+
+/**
+ * Checks that a property is a non-empty string, reporting it as missing or mistyped otherwise
+ * @param path - Path of the record, or an empty string for the root
+ * @returns Whether the property is valid
+ */
+export function checkString(
+	report: ValidationReport,
+	record: Record<string, unknown>,
+	key: string,
+	path: string
+): boolean {
+	const value = record[key];
+	const keyPath = path ? `${path}.${key}` : key;
+	if (value === undefined) {
+		report.error(keyPath, 'missing');
+		return false;
+	}
+	if (typeof value !== 'string' || value.trim() === '') {
+		report.error(
+			keyPath,
+			`must be a non-empty string, got ${describeType(value)}`
+		);
+		return false;
+	}
+	return true;
+}
+
+/**
+ * Checks that a property is a finite number, reporting it as missing or mistyped otherwise
+ * @param path - Path of the record, or an empty string for the root
+ * @returns Whether the property is valid
+ */
+export function checkNumber(
+	report: ValidationReport,
+	record: Record<string, unknown>,
+	key: string,
+	path: string
+): boolean {
+	const value = record[key];
+	const keyPath = path ? `${path}.${key}` : key;
+	if (value === undefined) {
+		report.error(keyPath, 'missing');
+		return false;
+	}
+	if (typeof value !== 'number' || !Number.isFinite(value)) {
+		report.error(keyPath, `must be a number, got ${describeType(value)}`);
+		return false;
+	}
+	return true;
+}
@@ -0,0 +1,247 @@
+import { Application, Container, Sprite, Texture } from 'pixi.js';
+import { scaled } from '../core/Utils';
+import { Easing, type TweenManager } from '../core/Tween';
+
+/**
+ * Where on the stage a character stands
+ */
+export type StageSlot = 'left' | 'center' | 'right';
+
+interface StageCharacter {
+	name: string;
+	slot: StageSlot;
+	sprite: Sprite;
+	// Tweened from 0 (dimmed) to 1 (speaking)
+	highlight: { value: number };
+}
+
+/**
+ * Keeps the characters who spoke recently on screen, standing on the bottom edge of the stage.
+ *
+ * Each slot holds a few characters side by side around its position, the latest arrival on the inside.
+ * When a slot is full, its longest-standing character exits to make room. The speaker is highlighted,
+ * while the others are dimmed and scaled down. Characters slide and fade in and out.
+ *
+ * @param app - The application, for the screen size
+ * @param tweens - The tween manager that runs the animations
+ * @extends Container
+ */
+export class CharacterStage extends Container {
+	// UI Constants
+	private readonly PORTRAIT_SCALE = 2;
+	private readonly SLOT_POSITIONS: Record<StageSlot, number> = {
+		left: 0.2,
+		center: 0.5,
+		right: 0.8,
+	}; // Fractions of the screen width
+	private readonly SLOT_CAPACITY = 2;
+	private readonly SLOT_SPREAD = 0.12; // Fraction of the screen width between characters of a slot
+	private readonly STAGE_HEIGHT = 0.6; // Fraction of the screen height the characters stand on
+	private readonly INACTIVE_SCALE = 0.85;
+	private readonly INACTIVE_BRIGHTNESS = 0.5;
+	private readonly ENTER_OFFSET = 200;
+	private readonly ENTER_DURATION = 400;
+	private readonly MOVE_DURATION = 300;
+	private readonly HIGHLIGHT_DURATION = 200;
+
+	// Core
+	private app: Application;
+	private tweens: TweenManager;
+
+	// Characters on stage, in order of arrival
+	private characters: StageCharacter[] = [];
+
+	constructor(app: Application, tweens: TweenManager) {
+		super();
+		this.app = app;
+		this.tweens = tweens;
+	}
+
+	/**
+	 * Highlights the speaker, bringing them on stage if they aren't already
+	 * @param name - The speaker's name
+	 * @param texture - The speaker's portrait
+	 * @param slot - Where the speaker stands
+	 */
+	public setSpeaker(name: string, texture: Texture, slot: StageSlot): void {
+		let speaker = this.characters.find(
+			character => character.name === name
+		);
+
+		if (speaker) {
+			speaker.sprite.texture = texture;
+		} else {
+			// Make room in the slot
+			const slotCharacters = this.characters.filter(
+				character => character.slot === slot
+			);
+			if (slotCharacters.length >= this.SLOT_CAPACITY) {
+				this.exit(slotCharacters[0]);
+			}
+
+			speaker = this.enter(name, texture, slot);
+			this.layout(false);
+		}
+
+		// Bring the speaker to the front
+		this.addChild(speaker.sprite);
+		this.characters.forEach(character =>
+			this.setHighlighted(character, character === speaker)
+		);
+	}
+
+	/**
+	 * Sends every character off stage
+	 */
+	public exitAll(): void {
+		[...this.characters].forEach(character => this.exit(character));
+	}
+
+	private enter(
+		name: string,
+		texture: Texture,
+		slot: StageSlot
+	): StageCharacter {
+		const sprite = new Sprite(texture);
+		sprite.anchor.set(0.5, 1);
+		sprite.alpha = 0;
+		this.addChild(sprite);
+
+		const character: StageCharacter = {
+			name,
+			slot,
+			sprite,
+			highlight: { value: 0 },
+		};
+		this.characters.push(character);
+		this.applyHighlight(character);
+
+		// Start off to the slot's side, or below for the center
+		sprite.x = this.getTargetX(character) + this.getExitOffsetX(slot);
+		sprite.y =
+			this.getStageY() +
+			(slot === 'center' ? scaled(this.ENTER_OFFSET) : 0);
+
+		return character;
+	}
+
+	private exit(character: StageCharacter): void {
+		this.characters = this.characters.filter(other => other !== character);
+
+		const { sprite, slot } = character;
+		this.tweens.killTweensOf(sprite);
+		this.tweens.killTweensOf(character.highlight);
+		this.tweens.to(sprite, {
+			to: {
+				x: sprite.x + this.getExitOffsetX(slot),
+				y:
+					this.getStageY() +
+					(slot === 'center' ? scaled(this.ENTER_OFFSET) : 0),
+				alpha: 0,
+			},
+			duration: this.ENTER_DURATION,
+			ease: Easing.quadIn,
+			onComplete: () => sprite.destroy(),
+		});
+	}
+
+	/**
+	 * Moves every character to its place in its slot
+	 * @param instant - Place them at once rather than animating, e.g. on resize
+	 */
+	private layout(instant: boolean): void {
+		this.characters.forEach(character => {
+			const { sprite } = character;
+			const x = this.getTargetX(character);
+			const y = this.getStageY();
+
+			if (instant) {
+				this.tweens.killTweensOf(sprite);
+				sprite.position.set(x, y);
+				sprite.alpha = 1;
+				return;
+			}
+
+			// Also finishes fading in characters that are still entering
+			this.tweens.killTweensOf(sprite);
+			this.tweens.to(sprite, {
+				to: { x, y, alpha: 1 },
+				duration:
+					sprite.alpha < 1 ? this.ENTER_DURATION : this.MOVE_DURATION,
+				ease: Easing.quadOut,
+			});
+		});
+	}
+
+	private setHighlighted(
+		character: StageCharacter,
+		highlighted: boolean
+	): void {
+		this.tweens.killTweensOf(character.highlight);
+		this.tweens.to(character.highlight, {
+			to: { value: highlighted ? 1 : 0 },
+			duration: this.HIGHLIGHT_DURATION,
+			onUpdate: () => this.applyHighlight(character),
+		});
+	}
+
+	/**
+	 * Scales and tints a character between dimmed and speaking
+	 */
+	private applyHighlight(character: StageCharacter): void {
+		const value = character.highlight.value;
+		const scale =
+			scaled(this.PORTRAIT_SCALE) *
+			(this.INACTIVE_SCALE + (1 - this.INACTIVE_SCALE) * value);
+		const brightness = Math.round(
+			255 *
+				(this.INACTIVE_BRIGHTNESS +
+					(1 - this.INACTIVE_BRIGHTNESS) * value)
+		);
+
+		character.sprite.scale.set(scale);
+		character.sprite.tint =
+			(brightness << 16) | (brightness << 8) | brightness;
+	}
+
+	/**
+	 * Gets where a character stands, spreading the characters of a slot around its position
+	 */
+	private getTargetX(character: StageCharacter): number {
+		const slotCharacters = this.characters.filter(
+			other => other.slot === character.slot
+		);
+		const index = slotCharacters.indexOf(character);
+		const offset = index - (slotCharacters.length - 1) * 0.5;
+
+		// Later arrivals stand closer to the center of the screen
+		const direction = character.slot === 'right' ? -1 : 1;
+		return (
+			this.app.screen.width *
+			(this.SLOT_POSITIONS[character.slot] +
+				direction * offset * this.SLOT_SPREAD)
+		);
+	}
+
+	private getExitOffsetX(slot: StageSlot): number {
+		if (slot === 'center') return 0;
+		return (slot === 'left' ? -1 : 1) * scaled(this.ENTER_OFFSET);
+	}
+
+	private getStageY(): number {
+		return this.app.screen.height * this.STAGE_HEIGHT;
+	}
+
+	public onResize(): void {
+		this.characters.forEach(character => this.applyHighlight(character));
+		this.layout(true);
+	}
+
+	public destroy(): void {
+		this.characters.forEach(character => {
+			this.tweens.killTweensOf(character.highlight);
+		});
+		this.characters = [];
+		super.destroy({ children: true });
+	}
+}
@@ -0,0 +1,134 @@
+import { validateDialogueData, type DialogueData } from './DialogueData';
+import { getDialogueFormat, importDialogue } from './DialogueImport';
+import { logValidationResult } from '../core/Validation';
+import type { DialogueAsset } from '../core/AssetLoader';
+
+/**
+ * Dialogue file being authored, relative to the public directory, e.g. dialogue/magicwords.json.
+ * Can be a Yarn or Ink script, see DialogueImport.
+ * Set with the VITE_DIALOGUE_AUTHORING_FILE environment variable, and only in development. Null otherwise
+ */
+export const DIALOGUE_AUTHORING_FILE: string | null =
+	(import.meta.env.DEV && import.meta.env.VITE_DIALOGUE_AUTHORING_FILE) ||
+	null;
+
+// Sent by the dialogue-authoring plugin in vite.config.ts whenever the file is saved
+const CHANGE_EVENT = 'dialogue-authoring:change';
+
+/**
+ * The authored dialogue file, as last loaded.
+ *
+ * @property data - The validated script, possibly with invalid lines dropped. Null if it was rejected or unreadable
+ * @property problems - Why the file couldn't be read, or its validation errors and warnings
+ */
+export interface DialogueAuthoringResult {
+	data: DialogueData | null;
+	problems: string[];
+}
+
+/**
+ * Watches the authored dialogue file through the Vite dev server, loading and validating it every time it is saved.
+ * Never throws: unreadable files and invalid JSON are reported as problems, like validation errors.
+ *
+ * @param dialogueAsset - The dialogue being authored, for the origins its images may load from and its cast file
+ * @param onLoad - Callback with the file every time it is loaded
+ */
+export class DialogueAuthoring {
+	// Core
+	private dialogueAsset: DialogueAsset | null;
+	private onLoad: (result: DialogueAuthoringResult) => void;
+	private destroyed = false;
+
+	constructor(
+		dialogueAsset: DialogueAsset | null,
+		onLoad: (result: DialogueAuthoringResult) => void
+	) {
+		this.dialogueAsset = dialogueAsset;
+		this.onLoad = onLoad;
+		import.meta.hot?.on(CHANGE_EVENT, this.onChange);
+	}
+
+	/**
+	 * Loads and validates the file, then calls onLoad with it
+	 */
+	public async load(): Promise<void> {
+		if (!DIALOGUE_AUTHORING_FILE) return;
+
+		const result = await this.read(DIALOGUE_AUTHORING_FILE);
+		if (!this.destroyed) {
+			this.onLoad(result);
+		}
+	}
+
+	private async read(file: string): Promise<DialogueAuthoringResult> {
+		const format = getDialogueFormat(file);
+		const castUrl = this.dialogueAsset?.castUrl;
+		let source: string;
+		let cast: unknown = {};
+		try {
+			source = await readFile(file);
+			if (format !== 'json' && castUrl) {
+				cast = JSON.parse(await readFile(castUrl));
+			}
+		} catch (error) {
+			console.error(`Failed to read dialogue file ${file}:`, error);
+			return {
+				data: null,
+				problems: [`${file} couldn't be read: ${String(error)}`],
+			};
+		}
+
+		let json: unknown;
+		const problems: string[] = [];
+		if (format === 'json') {
+			try {
+				json = JSON.parse(source);
+			} catch (error) {
+				return {
+					data: null,
+					problems: [`${file} is not valid JSON: ${String(error)}`],
+				};
+			}
+		} else {
+			const imported = importDialogue(format, source, cast);
+			logValidationResult(`Dialogue script ${file}`, imported);
+			problems.push(...imported.errors, ...imported.warnings);
+			if (!imported.value) return { data: null, problems };
+			json = imported.value;
+		}
+
+		const validation = validateDialogueData(
+			json,
+			this.dialogueAsset?.imageOrigins
+		);
+		logValidationResult(`Dialogue data ${file}`, validation);
+		return {
+			data: validation.value,
+			problems: [
+				...problems,
+				...validation.errors,
+				...validation.warnings,
+			],
+		};
+	}
+
+	private onChange = (): void => {
+		this.load();
+	};
+
+	public destroy(): void {
+		this.destroyed = true;
+		import.meta.hot?.off(CHANGE_EVENT, this.onChange);
+	}
+}
+
+/**
+ * Reads a file, never from the cache, since it changes while the page is open
+ */
+async function readFile(url: string): Promise<string> {
+	const response = await fetch(url, { cache: 'no-store' });
+	if (!response.ok) {
+		throw new Error(`HTTP ${response.status}`);
+	}
+	return response.text();
+}
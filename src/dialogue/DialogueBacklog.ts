@@ -0,0 +1,412 @@
+import {
+	Application,
+	Container,
+	Graphics,
+	Sprite,
+	Text,
+	TextStyle,
+	Texture,
+	type FederatedPointerEvent,
+	type FederatedWheelEvent,
+} from 'pixi.js';
+import { scaled } from '../core/Utils';
+import { i18n } from '../core/I18n';
+import { Button } from '../ui/Button';
+import { parseMarkup, type MarkupToken } from './DialogueMarkup';
+import { RichText, type GlyphCache } from './RichText';
+
+/**
+ * A line shown in the backlog.
+ *
+ * @property name - The speaker
+ * @property text - The line, with markup
+ * @property avatar - The speaker's portrait, or null for none
+ */
+export interface BacklogEntry {
+	name: string;
+	text: string;
+	avatar: Texture | null;
+}
+
+interface BacklogEntryView {
+	container: Container;
+	avatar: Sprite;
+	name: Text;
+	text: RichText;
+	tokens: MarkupToken[];
+	entry: BacklogEntry;
+	height: number;
+}
+
+/**
+ * Scrollable overlay listing the dialogue lines shown so far, with the speakers' avatars and inline emojis.
+ * Text effects are shown still.
+ *
+ * Scrolls with the mouse wheel, or by dragging on touch screens. Swallows all pointer events while open,
+ * so that clicks never reach the dialogue underneath.
+ *
+ * @param app - The application, for the screen size
+ * @param glyphs - The glyph cache of the dialogue text
+ * @param emojiTextures - The emoji images, by name
+ * @extends Container
+ */
+export class DialogueBacklog extends Container {
+	// UI Constants
+	private readonly MAX_ENTRIES = 200;
+	private readonly OVERLAY_COLOR = 0x000000; // Black
+	private readonly OVERLAY_ALPHA = 0.6;
+	private readonly PANEL_COLOR = 0x222222; // Dark grey
+	private readonly PANEL_ALPHA = 0.95;
+	private readonly PANEL_MARGIN = 60;
+	private readonly PANEL_PADDING = 32;
+	private readonly PANEL_BORDER_RADIUS = 16;
+	private readonly TITLE_FONT_SIZE = 48;
+	private readonly TITLE_HEIGHT = 80;
+	private readonly CLOSE_BUTTON_SIZE = 80;
+	private readonly CLOSE_BUTTON_COLOR = 0xffd700; // Golden
+	private readonly AVATAR_SIZE = 80;
+	private readonly AVATAR_GAP = 24;
+	private readonly NAME_FONT_SIZE = 32;
+	private readonly NAME_COLOR = 0xffd700; // Golden
+	private readonly TEXT_FONT_SIZE = 28;
+	private readonly ENTRY_SPACING = 32;
+	private readonly WHEEL_SCROLL_FACTOR = 1;
+
+	// UI Elements
+	private overlay: Graphics;
+	private panel: Graphics;
+	private title: Text;
+	private closeButton: Button;
+	private content: Container;
+	private contentMask: Graphics;
+	private entryViews: BacklogEntryView[] = [];
+
+	// Core
+	private app: Application;
+	private glyphs: GlyphCache;
+	private emojiTextures: Map<string, Texture>;
+
+	// Scroll state
+	private scrollY: number = 0;
+	private contentHeight: number = 0;
+	private viewportHeight: number = 0;
+	private dragStartY: number | null = null;
+	private dragStartScrollY: number = 0;
+
+	constructor(
+		app: Application,
+		glyphs: GlyphCache,
+		emojiTextures: Map<string, Texture>
+	) {
+		super();
+		this.app = app;
+		this.glyphs = glyphs;
+		this.emojiTextures = emojiTextures;
+		this.visible = false;
+
+		// Swallow pointer events meant for the dialogue
+		this.eventMode = 'static';
+		this.hitArea = this.app.screen;
+
+		// Dimmed background
+		this.overlay = new Graphics();
+		this.addChild(this.overlay);
+
+		// Panel
+		this.panel = new Graphics();
+		this.addChild(this.panel);
+
+		// Title
+		this.title = new Text(
+			i18n.t('dialogue.backlog'),
+			new TextStyle({
+				fontFamily: 'Arial, sans-serif',
+				fill: 0xffffff,
+				fontWeight: 'bold',
+			})
+		);
+		this.title.anchor.set(0, 0.5);
+		this.addChild(this.title);
+
+		// Entries, clipped to the panel
+		this.content = new Container();
+		this.contentMask = new Graphics();
+		this.content.mask = this.contentMask;
+		this.addChild(this.content);
+		this.addChild(this.contentMask);
+
+		// Close button
+		this.closeButton = new Button({
+			emoji: '✖️',
+			color: this.CLOSE_BUTTON_COLOR,
+			width: this.CLOSE_BUTTON_SIZE,
+			height: this.CLOSE_BUTTON_SIZE,
+			margin: 1,
+			fontSize: this.TITLE_FONT_SIZE,
+			onClick: () => this.close(),
+		});
+		this.addChild(this.closeButton);
+
+		this.addEventListeners();
+		this.onResize();
+	}
+
+	private addEventListeners(): void {
+		this.on('pointerdown', this.onPointerDown, this);
+		this.on('globalpointermove', this.onPointerMove, this);
+		this.on('pointerup', this.onPointerUp, this);
+		this.on('pointerupoutside', this.onPointerUp, this);
+		this.on('wheel', this.onWheel, this);
+	}
+
+	private removeEventListeners(): void {
+		this.off('pointerdown', this.onPointerDown, this);
+		this.off('globalpointermove', this.onPointerMove, this);
+		this.off('pointerup', this.onPointerUp, this);
+		this.off('pointerupoutside', this.onPointerUp, this);
+		this.off('wheel', this.onWheel, this);
+	}
+
+	/**
+	 * Adds a line to the end of the backlog, dropping the oldest line past the limit
+	 */
+	public addEntry(entry: BacklogEntry): void {
+		const container = new Container();
+		const avatar = new Sprite(entry.avatar ?? Texture.EMPTY);
+		avatar.visible = entry.avatar !== null;
+		const name = new Text(
+			entry.name,
+			new TextStyle({
+				fontFamily: 'Arial, sans-serif',
+				fill: this.NAME_COLOR,
+				fontWeight: 'bold',
+			})
+		);
+		const text = new RichText({
+			glyphs: this.glyphs,
+			emojiTextures: this.emojiTextures,
+			fill: '#ffffff',
+		});
+		container.addChild(avatar, name, text);
+		this.content.addChild(container);
+		this.entryViews.push({
+			container,
+			avatar,
+			name,
+			text,
+			tokens: parseMarkup(entry.text),
+			entry,
+			height: 0,
+		});
+
+		if (this.entryViews.length > this.MAX_ENTRIES) {
+			this.entryViews.shift()!.container.destroy({ children: true });
+		}
+
+		// Laid out when opened, since the layout measures every line
+		if (this.visible) {
+			this.layoutEntries();
+		}
+	}
+
+	/**
+	 * Replaces the latest line, e.g. with its new version after the script is reloaded
+	 */
+	public replaceLastEntry(entry: BacklogEntry): void {
+		this.entryViews.pop()?.container.destroy({ children: true });
+		this.addEntry(entry);
+	}
+
+	/**
+	 * Removes every line, e.g. when the dialogue starts over
+	 */
+	public clear(): void {
+		this.entryViews.forEach(view =>
+			view.container.destroy({ children: true })
+		);
+		this.entryViews = [];
+		this.layoutEntries();
+	}
+
+	public isOpen(): boolean {
+		return this.visible;
+	}
+
+	/**
+	 * Shows the backlog, scrolled to the latest line
+	 */
+	public open(): void {
+		if (this.visible) return;
+
+		this.visible = true;
+		this.layoutEntries();
+		this.scrollTo(Number.NEGATIVE_INFINITY);
+	}
+
+	public close(): void {
+		this.visible = false;
+		this.dragStartY = null;
+	}
+
+	private onPointerDown(event: FederatedPointerEvent): void {
+		event.stopPropagation();
+		this.dragStartY = event.global.y;
+		this.dragStartScrollY = this.scrollY;
+	}
+
+	private onPointerMove(event: FederatedPointerEvent): void {
+		if (this.dragStartY === null) return;
+		this.scrollTo(this.dragStartScrollY + event.global.y - this.dragStartY);
+	}
+
+	private onPointerUp(): void {
+		this.dragStartY = null;
+	}
+
+	private onWheel(event: FederatedWheelEvent): void {
+		event.stopPropagation();
+		this.scrollTo(this.scrollY - event.deltaY * this.WHEEL_SCROLL_FACTOR);
+	}
+
+	/**
+	 * Scrolls the entries, clamped so that they never leave the panel
+	 * @param scrollY - Offset of the entries from the top of the panel. Zero shows the first line, negative values scroll down
+	 */
+	private scrollTo(scrollY: number): void {
+		const minScrollY = Math.min(
+			0,
+			this.viewportHeight - this.contentHeight
+		);
+		this.scrollY = Math.max(minScrollY, Math.min(0, scrollY));
+		this.content.y = this.getViewportTop() + this.scrollY;
+
+		// Only entries in view are rendered, since every character is a sprite
+		const viewTop = -this.scrollY;
+		this.entryViews.forEach(view => {
+			view.container.visible =
+				view.container.y + view.height > viewTop &&
+				view.container.y < viewTop + this.viewportHeight;
+		});
+	}
+
+	private getViewportTop(): number {
+		return (
+			scaled(this.PANEL_MARGIN) +
+			scaled(this.PANEL_PADDING) +
+			scaled(this.TITLE_HEIGHT)
+		);
+	}
+
+	/**
+	 * Sizes and stacks the entries for the current panel width
+	 */
+	private layoutEntries(): void {
+		const panelWidth =
+			this.app.screen.width - scaled(this.PANEL_MARGIN) * 2;
+		const avatarSize = scaled(this.AVATAR_SIZE);
+		const textX = avatarSize + scaled(this.AVATAR_GAP);
+		const textWidth = panelWidth - scaled(this.PANEL_PADDING) * 2 - textX;
+		const fontSize = scaled(this.TEXT_FONT_SIZE);
+
+		let y = 0;
+		this.entryViews.forEach(view => {
+			// Fit the avatar into a square, keeping its aspect ratio
+			if (view.entry.avatar) {
+				view.avatar.scale.set(
+					avatarSize /
+						Math.max(
+							view.entry.avatar.width,
+							view.entry.avatar.height
+						)
+				);
+			}
+
+			view.name.style.fontSize = scaled(this.NAME_FONT_SIZE);
+			view.name.x = textX;
+
+			view.text.setText(view.tokens, fontSize, textWidth);
+			view.text.x = textX;
+			view.text.y = view.name.height;
+
+			view.container.y = y;
+			view.height = Math.max(
+				avatarSize,
+				view.text.y + view.text.getTextHeight()
+			);
+			y += view.height + scaled(this.ENTRY_SPACING);
+		});
+		this.contentHeight = Math.max(0, y - scaled(this.ENTRY_SPACING));
+		this.scrollTo(this.scrollY);
+	}
+
+	public onResize(): void {
+		const screenWidth = this.app.screen.width;
+		const screenHeight = this.app.screen.height;
+		const margin = scaled(this.PANEL_MARGIN);
+		const padding = scaled(this.PANEL_PADDING);
+		const panelWidth = screenWidth - margin * 2;
+		const panelHeight = screenHeight - margin * 2;
+
+		this.overlay.clear();
+		this.overlay.beginFill(this.OVERLAY_COLOR, this.OVERLAY_ALPHA);
+		this.overlay.drawRect(0, 0, screenWidth, screenHeight);
+		this.overlay.endFill();
+
+		this.panel.clear();
+		this.panel.beginFill(this.PANEL_COLOR, this.PANEL_ALPHA);
+		this.panel.drawRoundedRect(
+			margin,
+			margin,
+			panelWidth,
+			panelHeight,
+			scaled(this.PANEL_BORDER_RADIUS)
+		);
+		this.panel.endFill();
+
+		this.title.style.fontSize = scaled(this.TITLE_FONT_SIZE);
+		this.title.x = margin + padding;
+		this.title.y = margin + padding + scaled(this.TITLE_HEIGHT) * 0.5;
+
+		this.closeButton.x =
+			screenWidth -
+			margin -
+			padding -
+			scaled(this.CLOSE_BUTTON_SIZE) * 0.5;
+		this.closeButton.y = this.title.y;
+
+		// Entries fill the panel below the title
+		this.viewportHeight =
+			panelHeight - padding * 2 - scaled(this.TITLE_HEIGHT);
+		this.content.x = margin + padding;
+		this.contentMask.clear();
+		this.contentMask.beginFill(0xffffff);
+		this.contentMask.drawRect(
+			margin + padding,
+			this.getViewportTop(),
+			panelWidth - padding * 2,
+			this.viewportHeight
+		);
+		this.contentMask.endFill();
+
+		if (this.visible) {
+			this.layoutEntries();
+		} else {
+			this.scrollTo(this.scrollY);
+		}
+	}
+
+	public destroy(): void {
+		this.removeEventListeners();
+		this.overlay.destroy();
+		this.panel.destroy();
+		this.title.destroy();
+		this.closeButton.destroy();
+		this.content.mask = null;
+		this.contentMask.destroy();
+		this.entryViews.forEach(view =>
+			view.container.destroy({ children: true })
+		);
+		this.content.destroy();
+		super.destroy();
+	}
+}
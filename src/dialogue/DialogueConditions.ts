@@ -0,0 +1,210 @@
+/**
+ * Value of a dialogue variable
+ */
+export type DialogueValue = number | boolean | string;
+
+export type DialogueVariables = Record<string, DialogueValue>;
+
+type ComparisonOperator = '==' | '!=' | '<' | '<=' | '>' | '>=';
+
+/**
+ * Parsed dialogue condition
+ */
+export type DialogueCondition =
+	| { type: 'variable'; name: string }
+	| {
+			type: 'comparison';
+			name: string;
+			operator: ComparisonOperator;
+			value: DialogueValue;
+	  }
+	| { type: 'not'; operand: DialogueCondition }
+	| { type: 'and' | 'or'; left: DialogueCondition; right: DialogueCondition };
+
+// Operators first, longest first, so that '<=' isn't read as '<'
+const TOKEN_REGEX =
+	/\s*(&&|\|\||==|!=|<=|>=|<|>|!|\(|\)|-?\d+(?:\.\d+)?|'[^']*'|"[^"]*"|[A-Za-z_]\w*)/y;
+
+const COMPARISON_OPERATORS: ComparisonOperator[] = [
+	'==',
+	'!=',
+	'<',
+	'<=',
+	'>',
+	'>=',
+];
+
+/**
+ * Parses a dialogue condition, such as `metPenny && trust >= 2` or `!(mood == 'angry')`.
+ *
+ * Supports variables (true when truthy), comparisons against numbers, strings and booleans, and `!`, `&&`, `||`
+ * and parentheses, with `&&` binding tighter than `||`.
+ *
+ * @param source - The condition
+ * @returns The parsed condition
+ * @throws If the condition has a syntax error
+ */
+export function parseCondition(source: string): DialogueCondition {
+	const tokens = tokenize(source);
+	let position = 0;
+
+	const peek = (): string | undefined => tokens[position];
+	const consume = (): string => {
+		const token = tokens[position++];
+		if (token === undefined) {
+			throw new Error(`unexpected end of condition "${source}"`);
+		}
+		return token;
+	};
+
+	const parseOr = (): DialogueCondition => {
+		let left = parseAnd();
+		while (peek() === '||') {
+			consume();
+			left = { type: 'or', left, right: parseAnd() };
+		}
+		return left;
+	};
+
+	const parseAnd = (): DialogueCondition => {
+		let left = parseUnary();
+		while (peek() === '&&') {
+			consume();
+			left = { type: 'and', left, right: parseUnary() };
+		}
+		return left;
+	};
+
+	const parseUnary = (): DialogueCondition => {
+		const token = consume();
+
+		if (token === '!') {
+			return { type: 'not', operand: parseUnary() };
+		}
+
+		if (token === '(') {
+			const condition = parseOr();
+			if (consume() !== ')') {
+				throw new Error(`missing ')' in condition "${source}"`);
+			}
+			return condition;
+		}
+
+		if (!isIdentifier(token)) {
+			throw new Error(`unexpected '${token}' in condition "${source}"`);
+		}
+
+		const operator = peek();
+		if (!COMPARISON_OPERATORS.includes(operator as ComparisonOperator)) {
+			return { type: 'variable', name: token };
+		}
+		consume();
+
+		return {
+			type: 'comparison',
+			name: token,
+			operator: operator as ComparisonOperator,
+			value: parseLiteral(consume(), source),
+		};
+	};
+
+	const condition = parseOr();
+	if (position < tokens.length) {
+		throw new Error(
+			`unexpected '${tokens[position]}' in condition "${source}"`
+		);
+	}
+	return condition;
+}
+
+/**
+ * Evaluates a parsed condition. Unset variables are falsy, and only equal to nothing
+ * @param condition - The parsed condition
+ * @param variables - The current variable values
+ */
+export function evaluateCondition(
+	condition: DialogueCondition,
+	variables: DialogueVariables
+): boolean {
+	switch (condition.type) {
+		case 'variable':
+			return Boolean(variables[condition.name]);
+		case 'not':
+			return !evaluateCondition(condition.operand, variables);
+		case 'and':
+			return (
+				evaluateCondition(condition.left, variables) &&
+				evaluateCondition(condition.right, variables)
+			);
+		case 'or':
+			return (
+				evaluateCondition(condition.left, variables) ||
+				evaluateCondition(condition.right, variables)
+			);
+		case 'comparison':
+			return compare(
+				variables[condition.name],
+				condition.operator,
+				condition.value
+			);
+	}
+}
+
+function compare(
+	left: DialogueValue | undefined,
+	operator: ComparisonOperator,
+	right: DialogueValue
+): boolean {
+	if (operator === '==') return left === right;
+	if (operator === '!=') return left !== right;
+
+	// Ordering only makes sense between values of the same type
+	if (left === undefined || typeof left !== typeof right) return false;
+	switch (operator) {
+		case '<':
+			return left < right;
+		case '<=':
+			return left <= right;
+		case '>':
+			return left > right;
+		case '>=':
+			return left >= right;
+	}
+}
+
+function tokenize(source: string): string[] {
+	const tokens: string[] = [];
+	TOKEN_REGEX.lastIndex = 0;
+
+	while (TOKEN_REGEX.lastIndex < source.length) {
+		const start = TOKEN_REGEX.lastIndex;
+		const match = TOKEN_REGEX.exec(source);
+		if (!match) {
+			// Trailing whitespace is fine, anything else isn't
+			if (source.slice(start).trim() === '') break;
+			throw new Error(
+				`unexpected '${source.slice(start).trim()[0]}' in condition "${source}"`
+			);
+		}
+		tokens.push(match[1]);
+	}
+
+	if (tokens.length === 0) {
+		throw new Error('empty condition');
+	}
+	return tokens;
+}
+
+function isIdentifier(token: string): boolean {
+	return /^[A-Za-z_]\w*$/.test(token);
+}
+
+function parseLiteral(token: string, source: string): DialogueValue {
+	if (token === 'true') return true;
+	if (token === 'false') return false;
+	if (/^-?\d/.test(token)) return Number(token);
+	if (/^['"]/.test(token)) return token.slice(1, -1);
+	throw new Error(
+		`expected a number, string or boolean after comparison in condition "${source}", got '${token}'`
+	);
+}
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { validateDialogueData } from './DialogueData';
+
+const ALLOWED_ORIGIN = 'https://api.dicebear.com';
+const PNG_DATA_URL =
+	'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==';
+
+/**
+ * Validates a script with a single emoji and a single avatar, both using the given image URL
+ */
+function validateImageUrl(url: string) {
+	return validateDialogueData(
+		{
+			dialogue: [{ name: 'Sheldon', text: 'Hi {smile}' }],
+			emojies: [{ name: 'smile', url }],
+			avatars: [{ name: 'Sheldon', url, position: 'left' }],
+		},
+		[ALLOWED_ORIGIN]
+	);
+}
+
+function expectRejected(url: string): void {
+	const { value, errors } = validateImageUrl(url);
+	expect(value?.emojies).toEqual([]);
+	expect(value?.avatars).toEqual([]);
+	expect(errors.some(error => error.includes('emojies[0].url'))).toBe(true);
+	expect(errors.some(error => error.includes('avatars[0].url'))).toBe(true);
+}
+
+function expectAccepted(url: string): void {
+	const { value, errors } = validateImageUrl(url);
+	expect(value?.emojies).toEqual([{ name: 'smile', url }]);
+	expect(value?.avatars).toEqual([
+		{ name: 'Sheldon', url, position: 'left' },
+	]);
+	expect(errors).toEqual([]);
+}
+
+describe('validateDialogueData image URLs', () => {
+	it('accepts raster image data URLs', () => {
+		expectAccepted(PNG_DATA_URL);
+		expectAccepted('data:image/webp;base64,UklGRg==');
+	});
+
+	it('accepts URLs from an allowed origin', () => {
+		expectAccepted(`${ALLOWED_ORIGIN}/9.x/personas/png?seed=Sheldon`);
+	});
+
+	it('rejects javascript: URLs', () => {
+		expectRejected('javascript:alert(1)');
+		expectRejected('JavaScript:alert(document.cookie)');
+	});
+
+	it('rejects SVG data URLs, since SVG can carry scripts', () => {
+		expectRejected(
+			'data:image/svg+xml;base64,PHN2ZyBvbmxvYWQ9ImFsZXJ0KDEpIi8+'
+		);
+		expectRejected('data:image/svg+xml,<svg onload="alert(1)"/>');
+	});
+
+	it('rejects malformed base64 data URLs', () => {
+		expectRejected('data:image/png;base64,');
+		expectRejected('data:image/png;base64,not base64!');
+		expectRejected('data:image/png;base64,AAAA===');
+		expectRejected('data:image/png,iVBORw0KGgo=');
+		expectRejected(`${PNG_DATA_URL}"><script>alert(1)</script>`);
+	});
+
+	it('rejects URLs from other origins', () => {
+		expectRejected('https://evil.example/avatar.png');
+		expectRejected('https://api.dicebear.com.evil.example/avatar.png');
+		expectRejected('//evil.example/avatar.png');
+		expectRejected('/assets/avatar.png');
+	});
+
+	it('rejects URLs whose scheme differs from the allowed origin', () => {
+		expectRejected('http://api.dicebear.com/9.x/personas/png');
+		expectRejected('ftp://api.dicebear.com/9.x/personas/png');
+	});
+
+	it('rejects URLs whose port differs from the allowed origin', () => {
+		expectRejected('https://api.dicebear.com:8443/9.x/personas/png');
+	});
+
+	it('rejects every URL that is not a data URL when no origin is allowed', () => {
+		const { value } = validateDialogueData({
+			dialogue: [{ name: 'Sheldon', text: 'Hi' }],
+			emojies: [{ name: 'smile', url: `${ALLOWED_ORIGIN}/smile.png` }],
+		});
+		expect(value?.emojies).toEqual([]);
+	});
+});
+
+describe('validateDialogueData text', () => {
+	it('keeps hostile text and names as they are, to be escaped when shown', () => {
+		const text = `<script>alert(1)</script> " onerror="x' & done`;
+		const { value } = validateDialogueData({
+			dialogue: [{ name: `"><img src=x>&`, text }],
+		});
+		expect(value?.dialogue[0].text).toBe(text);
+		expect(value?.dialogue[0].name).toBe(`"><img src=x>&`);
+	});
+});
@@ -0,0 +1,458 @@
+import {
+	ValidationReport,
+	checkString,
+	describeType,
+	isRecord,
+	type ValidationResult,
+} from '../core/Validation';
+import {
+	parseCondition,
+	type DialogueValue,
+	type DialogueVariables,
+} from './DialogueConditions';
+import type { StageSlot } from './CharacterStage';
+
+/**
+ * A player choice, shown as a button after its line.
+ *
+ * @property text - The button label
+ * @property next - Optional id of the line to go to. Defaults to the line after the choice's line
+ * @property end - Optional. End the dialogue when the choice is picked
+ * @property if - Optional condition the choice is only offered under, e.g. `trust >= 2`
+ * @property set - Optional variable values to set when the choice is picked
+ */
+export interface DialogueChoice {
+	text: string;
+	next?: string;
+	end?: boolean;
+	if?: string;
+	set?: DialogueVariables;
+}
+
+/**
+ * A line of dialogue. Lines play in order unless they link elsewhere, so linear scripts need none of the optional properties.
+ *
+ * @property id - Optional id other lines and choices can link to
+ * @property name - The speaker
+ * @property text - The line. Can reference emojis with {emoji name} tags
+ * @property next - Optional id of the line to go to after this one. Defaults to the following line
+ * @property end - Optional. End the dialogue after this line
+ * @property if - Optional condition the line is only shown under. Skipped lines continue to the following line
+ * @property set - Optional variable values to set when the line is shown
+ * @property choices - Optional choices offered after the line. The dialogue waits for the player to pick one
+ */
+export interface DialogueLine {
+	id?: string;
+	name: string;
+	text: string;
+	next?: string;
+	end?: boolean;
+	if?: string;
+	set?: DialogueVariables;
+	choices?: DialogueChoice[];
+}
+
+export interface DialogueEmoji {
+	name: string;
+	url: string;
+}
+
+export interface DialogueAvatar {
+	name: string;
+	url: string;
+	position: StageSlot;
+}
+
+/**
+ * A dialogue script, as served by the Magic Words endpoint.
+ *
+ * @property dialogue - The lines. The first line is where the dialogue starts
+ * @property emojies - The emoji images the lines can reference
+ * @property avatars - The speakers' portraits, and where they stand on stage: left, center or right
+ * @property variables - Initial values of the variables lines and choices can set and check. Unset variables are falsy
+ */
+export interface DialogueData {
+	dialogue: DialogueLine[];
+	emojies: DialogueEmoji[];
+	avatars: DialogueAvatar[];
+	variables: DialogueVariables;
+}
+
+const EMOJI_TAG_REGEX = /\{(\w+)\}/g;
+
+// Raster images only, since SVG can carry scripts
+const IMAGE_DATA_URL_REGEX =
+	/^data:image\/(png|jpeg|gif|webp);base64,[A-Za-z0-9+/]+={0,2}$/;
+
+/**
+ * Validates a dialogue script.
+ *
+ * Invalid lines, choices, emojis, avatars and variables are dropped, as are lines and choices with invalid conditions,
+ * so that content meant to be gated never shows by mistake. Links to unknown line ids are dropped too, falling back to
+ * the following line. Unknown emoji references and avatar positions are only warnings, since they fall back to a
+ * placeholder and to the right side of the screen.
+ * Emoji and avatar images must be image data URLs or come from the allowed origins, since the script comes from a
+ * service we don't control.
+ * The script is rejected if it isn't an object with a dialogue array, or if none of its lines are valid.
+ *
+ * @param data - The parsed JSON
+ * @param imageOrigins - Origins images may load from, e.g. 'https://api.dicebear.com'
+ * @returns The validated script, or null if it was rejected
+ */
+export function validateDialogueData(
+	data: unknown,
+	imageOrigins: string[] = []
+): ValidationResult<DialogueData> {
+	const report = new ValidationReport();
+
+	if (!isRecord(data)) {
+		report.error('(root)', `must be an object, got ${describeType(data)}`);
+		return report.result<DialogueData>(null);
+	}
+	if (!Array.isArray(data.dialogue)) {
+		report.error(
+			'dialogue',
+			data.dialogue === undefined
+				? 'missing'
+				: `must be an array, got ${describeType(data.dialogue)}`
+		);
+		return report.result<DialogueData>(null);
+	}
+
+	const emojies = validateList(report, data, 'emojies', (item, path) =>
+		validateEmoji(report, item, path, imageOrigins)
+	);
+	const avatars = validateList(report, data, 'avatars', (item, path) =>
+		validateAvatar(report, item, path, imageOrigins)
+	);
+
+	const variables =
+		data.variables === undefined
+			? {}
+			: validateVariables(report, data.variables, 'variables');
+
+	// Emoji references are checked against the valid emojis only
+	const emojiNames = new Set(emojies.map(emoji => emoji.name));
+	// Paths are kept per line, so that link errors point at the original position even after invalid lines are dropped
+	const linePaths = new Map<DialogueLine, string>();
+	const dialogue = validateList(report, data, 'dialogue', (item, path) => {
+		const line = validateLine(report, item, path, emojiNames);
+		if (line) {
+			linePaths.set(line, path);
+		}
+		return line;
+	});
+
+	if (dialogue.length === 0) {
+		report.error('dialogue', 'has no valid lines');
+		return report.result<DialogueData>(null);
+	}
+
+	validateLinks(report, dialogue, linePaths);
+
+	return report.result({ dialogue, emojies, avatars, variables });
+}
+
+/**
+ * Drops duplicate ids, and links to unknown ids
+ */
+function validateLinks(
+	report: ValidationReport,
+	lines: DialogueLine[],
+	linePaths: Map<DialogueLine, string>
+): void {
+	const ids = new Set<string>();
+	lines.forEach(line => {
+		if (line.id === undefined) return;
+		if (ids.has(line.id)) {
+			report.error(
+				`${linePaths.get(line)}.id`,
+				`duplicates id '${line.id}'`
+			);
+			delete line.id;
+		} else {
+			ids.add(line.id);
+		}
+	});
+
+	const checkLink = (link: { next?: string }, path: string): void => {
+		if (link.next !== undefined && !ids.has(link.next)) {
+			report.error(`${path}.next`, `links to unknown id '${link.next}'`);
+			delete link.next;
+		}
+	};
+	lines.forEach(line => {
+		const path = linePaths.get(line);
+		checkLink(line, `${path}`);
+		line.choices?.forEach((choice, i) =>
+			checkLink(choice, `${path}.choices[${i}]`)
+		);
+	});
+}
+
+/**
+ * Validates every item of an optional array property, dropping invalid items
+ * @returns The valid items
+ */
+function validateList<T>(
+	report: ValidationReport,
+	data: Record<string, unknown>,
+	key: string,
+	validateItem: (item: unknown, path: string) => T | null
+): T[] {
+	const list = data[key];
+	if (list === undefined) {
+		report.warn(key, 'missing, treated as empty');
+		return [];
+	}
+	if (!Array.isArray(list)) {
+		report.error(key, `must be an array, got ${describeType(list)}`);
+		return [];
+	}
+
+	return list
+		.map((item, i) => validateItem(item, `${key}[${i}]`))
+		.filter((item): item is T => item !== null);
+}
+
+function validateLine(
+	report: ValidationReport,
+	item: unknown,
+	path: string,
+	emojiNames: Set<string>
+): DialogueLine | null {
+	if (!isRecord(item)) {
+		report.error(path, `must be an object, got ${describeType(item)}`);
+		return null;
+	}
+
+	// Both checks run, so every problem of the line is reported
+	const hasName = checkString(report, item, 'name', path);
+	const hasText = checkString(report, item, 'text', path);
+	if (!hasName || !hasText) return null;
+
+	const text = item.text as string;
+	for (const match of text.matchAll(EMOJI_TAG_REGEX)) {
+		if (!emojiNames.has(match[1])) {
+			report.warn(
+				`${path}.text`,
+				`references unknown emoji {${match[1]}}`
+			);
+		}
+	}
+
+	const line: DialogueLine = { name: item.name as string, text };
+	if (!validateBranching(report, item, path, line)) return null;
+
+	if (item.choices !== undefined) {
+		if (Array.isArray(item.choices)) {
+			const choices = item.choices
+				.map((choice, i) =>
+					validateChoice(report, choice, `${path}.choices[${i}]`)
+				)
+				.filter((choice): choice is DialogueChoice => choice !== null);
+			if (choices.length > 0) {
+				line.choices = choices;
+			} else {
+				report.warn(`${path}.choices`, 'has no valid choices, ignored');
+			}
+		} else {
+			report.error(
+				`${path}.choices`,
+				`must be an array, got ${describeType(item.choices)}`
+			);
+		}
+	}
+
+	return line;
+}
+
+function validateChoice(
+	report: ValidationReport,
+	item: unknown,
+	path: string
+): DialogueChoice | null {
+	if (!isRecord(item)) {
+		report.error(path, `must be an object, got ${describeType(item)}`);
+		return null;
+	}
+	if (!checkString(report, item, 'text', path)) return null;
+
+	const choice: DialogueChoice = { text: item.text as string };
+	return validateBranching(report, item, path, choice) ? choice : null;
+}
+
+/**
+ * Validates the id, next, end, if and set properties shared by lines and choices, copying the valid ones to the target
+ * @returns False if the condition is invalid, in which case the line or choice should be dropped
+ */
+function validateBranching(
+	report: ValidationReport,
+	item: Record<string, unknown>,
+	path: string,
+	target: DialogueLine | DialogueChoice
+): boolean {
+	if ('name' in target && item.id !== undefined) {
+		if (checkString(report, item, 'id', path)) {
+			target.id = item.id as string;
+		}
+	}
+
+	if (item.next !== undefined && checkString(report, item, 'next', path)) {
+		target.next = item.next as string;
+	}
+
+	if (item.end !== undefined) {
+		if (typeof item.end === 'boolean') {
+			target.end = item.end;
+		} else {
+			report.error(
+				`${path}.end`,
+				`must be a boolean, got ${describeType(item.end)}`
+			);
+		}
+	}
+
+	if (item.if !== undefined) {
+		if (!checkString(report, item, 'if', path)) return false;
+		try {
+			parseCondition(item.if as string);
+		} catch (error) {
+			report.error(`${path}.if`, (error as Error).message);
+			return false;
+		}
+		target.if = item.if as string;
+	}
+
+	if (item.set !== undefined) {
+		target.set = validateVariables(report, item.set, `${path}.set`);
+	}
+
+	return true;
+}
+
+function validateVariables(
+	report: ValidationReport,
+	item: unknown,
+	path: string
+): DialogueVariables {
+	if (!isRecord(item)) {
+		report.error(path, `must be an object, got ${describeType(item)}`);
+		return {};
+	}
+
+	const variables: DialogueVariables = {};
+	Object.entries(item).forEach(([name, value]) => {
+		if (!/^[A-Za-z_]\w*$/.test(name)) {
+			report.error(`${path}.${name}`, 'is not a valid variable name');
+		} else if (isDialogueValue(value)) {
+			variables[name] = value;
+		} else {
+			report.error(
+				`${path}.${name}`,
+				`must be a number, string or boolean, got ${describeType(value)}`
+			);
+		}
+	});
+	return variables;
+}
+
+function isDialogueValue(value: unknown): value is DialogueValue {
+	return (
+		typeof value === 'boolean' ||
+		typeof value === 'string' ||
+		(typeof value === 'number' && Number.isFinite(value))
+	);
+}
+
+function validateEmoji(
+	report: ValidationReport,
+	item: unknown,
+	path: string,
+	imageOrigins: string[]
+): DialogueEmoji | null {
+	if (!isRecord(item)) {
+		report.error(path, `must be an object, got ${describeType(item)}`);
+		return null;
+	}
+
+	const hasName = checkString(report, item, 'name', path);
+	const hasUrl = checkImageUrl(report, item, path, imageOrigins);
+	if (!hasName || !hasUrl) return null;
+
+	return { name: item.name as string, url: item.url as string };
+}
+
+function validateAvatar(
+	report: ValidationReport,
+	item: unknown,
+	path: string,
+	imageOrigins: string[]
+): DialogueAvatar | null {
+	if (!isRecord(item)) {
+		report.error(path, `must be an object, got ${describeType(item)}`);
+		return null;
+	}
+
+	const hasName = checkString(report, item, 'name', path);
+	const hasUrl = checkImageUrl(report, item, path, imageOrigins);
+	if (!hasName || !hasUrl) return null;
+
+	let position: StageSlot = 'right';
+	if (
+		item.position === 'left' ||
+		item.position === 'center' ||
+		item.position === 'right'
+	) {
+		position = item.position;
+	} else {
+		report.warn(
+			`${path}.position`,
+			`must be 'left', 'center' or 'right', got ${JSON.stringify(item.position)}. Using 'right'`
+		);
+	}
+
+	return { name: item.name as string, url: item.url as string, position };
+}
+
+/**
+ * Checks that the url property is an image data URL, or an http(s) URL from one of the allowed origins
+ * @returns Whether the property is valid
+ */
+function checkImageUrl(
+	report: ValidationReport,
+	item: Record<string, unknown>,
+	path: string,
+	imageOrigins: string[]
+): boolean {
+	if (!checkString(report, item, 'url', path)) return false;
+
+	const url = item.url as string;
+	if (url.startsWith('data:')) {
+		if (IMAGE_DATA_URL_REGEX.test(url)) return true;
+		report.error(
+			`${path}.url`,
+			'must be a base64 PNG, JPEG, GIF or WebP data URL'
+		);
+		return false;
+	}
+
+	let origin: string | null = null;
+	try {
+		const parsed = new URL(url);
+		if (parsed.protocol === 'https:' || parsed.protocol === 'http:') {
+			origin = parsed.origin;
+		}
+	} catch {
+		// Relative or malformed URLs are reported below
+	}
+
+	if (origin === null || !imageOrigins.includes(origin)) {
+		report.error(
+			`${path}.url`,
+			`must be an image data URL or come from an allowed origin (${imageOrigins.join(', ') || 'none'}), got ${JSON.stringify(url.slice(0, 100))}`
+		);
+		return false;
+	}
+	return true;
+}
@@ -0,0 +1,164 @@
+import {
+	Application,
+	Container,
+	Graphics,
+	Text,
+	TextStyle,
+	type FederatedPointerEvent,
+} from 'pixi.js';
+import { scaled } from '../core/Utils';
+import { Button } from '../ui/Button';
+
+/**
+ * Panel across the top of the screen listing problems found in a dialogue script, for writers in authoring mode.
+ * Unlike the save panel, it leaves the dialogue underneath playable, only swallowing presses on itself.
+ *
+ * @param app - The application, for the screen size
+ * @extends Container
+ */
+export class DialogueErrorPanel extends Container {
+	// UI Constants
+	private readonly PANEL_COLOR = 0x4a1010; // Dark red
+	private readonly PANEL_ALPHA = 0.95;
+	private readonly PANEL_MARGIN = 24;
+	private readonly PANEL_PADDING = 24;
+	private readonly PANEL_BORDER_RADIUS = 16;
+	private readonly TITLE_FONT_SIZE = 32;
+	private readonly PROBLEMS_FONT_SIZE = 22;
+	private readonly PROBLEMS_COLOR = 0xffcdd2; // Light red
+	private readonly PROBLEMS_SPACING = 12;
+	private readonly MAX_PROBLEMS = 8;
+	private readonly CLOSE_BUTTON_SIZE = 60;
+	private readonly CLOSE_BUTTON_COLOR = 0xffd700; // Golden
+
+	// UI Elements
+	private panel: Graphics;
+	private title: Text;
+	private problems: Text;
+	private closeButton: Button;
+
+	// Core
+	private app: Application;
+
+	constructor(app: Application) {
+		super();
+		this.app = app;
+		this.visible = false;
+
+		// Swallow presses on the panel, which are hit tested through its children
+		this.eventMode = 'static';
+		this.on('pointerdown', this.onPointerDown, this);
+
+		this.panel = new Graphics();
+		this.addChild(this.panel);
+
+		this.title = new Text(
+			'',
+			new TextStyle({
+				fontFamily: 'Arial, sans-serif',
+				fill: 0xffffff,
+				fontWeight: 'bold',
+				wordWrap: true,
+			})
+		);
+		this.addChild(this.title);
+
+		this.problems = new Text(
+			'',
+			new TextStyle({
+				fontFamily: 'Arial, sans-serif',
+				fill: this.PROBLEMS_COLOR,
+				wordWrap: true,
+				breakWords: true,
+			})
+		);
+		this.addChild(this.problems);
+
+		this.closeButton = new Button({
+			emoji: '✖️',
+			color: this.CLOSE_BUTTON_COLOR,
+			width: this.CLOSE_BUTTON_SIZE,
+			height: this.CLOSE_BUTTON_SIZE,
+			margin: 1,
+			fontSize: this.TITLE_FONT_SIZE,
+			onClick: () => this.hide(),
+		});
+		this.addChild(this.closeButton);
+	}
+
+	/**
+	 * Shows the panel, replacing the problems shown before. Only the first few problems are listed
+	 * @param title - What happened, e.g. that the script was rejected
+	 * @param problems - The problems, one per line
+	 */
+	public show(title: string, problems: string[]): void {
+		const listed = problems
+			.slice(0, this.MAX_PROBLEMS)
+			.map(problem => `• ${problem}`);
+		if (problems.length > this.MAX_PROBLEMS) {
+			listed.push(
+				`…and ${problems.length - this.MAX_PROBLEMS} more, see the console`
+			);
+		}
+
+		this.title.text = title;
+		this.problems.text = listed.join('\n');
+		this.visible = true;
+		this.onResize();
+	}
+
+	public hide(): void {
+		this.visible = false;
+	}
+
+	private onPointerDown(event: FederatedPointerEvent): void {
+		event.stopPropagation();
+	}
+
+	public onResize(): void {
+		const margin = scaled(this.PANEL_MARGIN);
+		const padding = scaled(this.PANEL_PADDING);
+		const closeButtonSize = scaled(this.CLOSE_BUTTON_SIZE);
+		const panelWidth = this.app.screen.width - margin * 2;
+		const textWidth = panelWidth - padding * 3 - closeButtonSize;
+
+		this.title.style.fontSize = scaled(this.TITLE_FONT_SIZE);
+		this.title.style.wordWrapWidth = textWidth;
+		this.title.x = margin + padding;
+		this.title.y = margin + padding;
+
+		this.problems.style.fontSize = scaled(this.PROBLEMS_FONT_SIZE);
+		this.problems.style.wordWrapWidth = textWidth;
+		this.problems.x = this.title.x;
+		this.problems.y =
+			this.title.y + this.title.height + scaled(this.PROBLEMS_SPACING);
+
+		const panelHeight = Math.max(
+			this.problems.y + this.problems.height + padding - margin,
+			closeButtonSize + padding * 2
+		);
+		this.panel.clear();
+		this.panel.beginFill(this.PANEL_COLOR, this.PANEL_ALPHA);
+		this.panel.drawRoundedRect(
+			margin,
+			margin,
+			panelWidth,
+			panelHeight,
+			scaled(this.PANEL_BORDER_RADIUS)
+		);
+		this.panel.endFill();
+
+		this.closeButton.x =
+			margin + panelWidth - padding - closeButtonSize * 0.5;
+		this.closeButton.y = margin + padding + closeButtonSize * 0.5;
+	}
+
+	public destroy(): void {
+		this.off('pointerdown', this.onPointerDown, this);
+		this.panel.destroy();
+		this.title.destroy();
+		this.problems.destroy();
+		this.closeButton.destroy();
+		super.destroy();
+	}
+}
@@ -0,0 +1,227 @@
+import { describe, expect, it } from 'vitest';
+import cast from './fixtures/cast.json';
+import inkStory from './fixtures/crossroads.ink.json?raw';
+import yarnScript from './fixtures/crossroads.yarn?raw';
+import { validateDialogueData } from './DialogueData';
+import { getDialogueFormat, importDialogue } from './DialogueImport';
+
+/**
+ * Imports a script, then validates it the way the dialogue loader does
+ */
+function load(
+	format: 'yarn' | 'ink',
+	source: string,
+	castData: unknown = cast
+) {
+	const imported = importDialogue(format, source, castData);
+	const validated = validateDialogueData(imported.value);
+	return {
+		value: validated.value,
+		errors: [...imported.errors, ...validated.errors],
+		warnings: [...imported.warnings, ...validated.warnings],
+	};
+}
+
+describe('getDialogueFormat', () => {
+	it('tells the format from the extension', () => {
+		expect(getDialogueFormat('/dialogue/crossroads.yarn')).toBe('yarn');
+		expect(getDialogueFormat('/dialogue/crossroads.ink.json?v=2')).toBe(
+			'ink'
+		);
+		expect(getDialogueFormat('/dialogue/magicwords.json')).toBe('json');
+	});
+});
+
+describe('importDialogue from Yarn', () => {
+	it('imports the crossroads script', () => {
+		const { value, errors, warnings } = load('yarn', yarnScript);
+		expect(value?.dialogue).toEqual([
+			{
+				id: 'Start',
+				name: 'Guide',
+				text: 'Welcome to the crossroads, traveller {wave}',
+				choices: [
+					{ text: 'Ask about the map', next: '#2' },
+					{
+						text: 'Ask for the key',
+						if: 'trust >= 2 && ! hasKey',
+						set: { hasKey: true },
+						next: 'Locked',
+					},
+					{ text: 'Leave', next: 'Farewell' },
+				],
+				next: '#1',
+			},
+			{
+				id: '#2',
+				name: 'Guide',
+				text: 'The map is old, but it is right.',
+				set: { trust: 2 },
+				next: '#1',
+			},
+			{
+				id: '#1',
+				name: 'Guide',
+				text: 'Anything else?',
+				next: 'Start',
+			},
+			{
+				id: 'Locked',
+				name: 'Guide',
+				text: 'The gate is locked, but the key fits.',
+				end: true,
+			},
+			{
+				id: 'Farewell',
+				name: 'Narrator',
+				text: 'Safe travels.',
+				end: true,
+			},
+		]);
+		expect(value?.emojies.map(emoji => emoji.name)).toEqual(['wave']);
+		expect(value?.avatars.map(avatar => avatar.name)).toEqual(['Guide']);
+		expect(errors).toEqual([
+			"node 'Locked' jumps to unknown node 'Vault', ends the dialogue instead",
+		]);
+		expect(warnings).toEqual([]);
+	});
+
+	it('starts the variables at their declared values', () => {
+		expect(load('yarn', yarnScript).value?.variables).toEqual({
+			trust: 0,
+			hasKey: false,
+		});
+	});
+
+	it('skips nodes without lines, keeping the variables they set', () => {
+		const { value, warnings } = load(
+			'yarn',
+			[
+				'title: Start',
+				'---',
+				'Guide: Ready?',
+				'-> Yes',
+				'    <<jump Hallway>>',
+				'===',
+				'title: Hallway',
+				'---',
+				'<<set $ready to true>>',
+				'<<jump End>>',
+				'===',
+				'title: End',
+				'---',
+				'Guide: Then off we go.',
+				'===',
+			].join('\n')
+		);
+		expect(value?.dialogue[0].choices).toEqual([
+			{ text: 'Yes', next: 'End' },
+		]);
+		expect(warnings).toEqual([
+			"node 'Hallway' sets variables without a line, ignored",
+		]);
+	});
+
+	it('reports nodes that jump in a loop without a line', () => {
+		const { errors } = load(
+			'yarn',
+			[
+				'title: Start',
+				'---',
+				'Guide: Pick a door.',
+				'-> Left',
+				'    <<jump Left>>',
+				'===',
+				'title: Left',
+				'---',
+				'<<jump Right>>',
+				'===',
+				'title: Right',
+				'---',
+				'<<jump Left>>',
+				'===',
+			].join('\n')
+		);
+		expect(errors.some(error => error.includes('jumps in a loop'))).toBe(
+			true
+		);
+	});
+
+	it('rejects a script without lines', () => {
+		const { value, errors } = load(
+			'yarn',
+			'title: Start\n---\n<<stop>>\n==='
+		);
+		expect(value).toBeNull();
+		expect(errors).toContain('(script) has no lines');
+	});
+
+	it('reports a cast that is not an object', () => {
+		const { errors } = load('yarn', yarnScript, []);
+		expect(errors.some(error => error.startsWith('(cast)'))).toBe(true);
+	});
+});
+
+describe('importDialogue from Ink', () => {
+	// crossroads.ink.json is crossroads.ink written out in inklecate's compiled format
+	it('imports the crossroads story', () => {
+		const { value, errors, warnings } = load('ink', inkStory);
+		expect(value?.dialogue).toEqual([
+			{
+				id: 'start',
+				name: 'Guide',
+				text: 'Welcome to the crossroads, traveller.',
+				choices: [
+					{ text: 'Ask about the map', next: 'map' },
+					{
+						text: 'Ask for the key',
+						if: '(trust >= 2) && (!(hasKey))',
+						next: 'gate',
+					},
+					{ text: 'Leave', end: true },
+				],
+				end: true,
+			},
+			{
+				id: 'map',
+				name: 'Guide',
+				text: 'The map is old, but it is right.',
+				set: { trust: 2 },
+				next: 'start',
+			},
+			{
+				id: 'gate',
+				name: 'Guide',
+				text: 'The gate is locked, but the key fits.',
+				set: { hasKey: true },
+				end: true,
+			},
+		]);
+		expect(errors).toEqual([]);
+		expect(warnings).toEqual([]);
+	});
+
+	it('starts the variables at their global values', () => {
+		expect(load('ink', inkStory).value?.variables).toEqual({
+			trust: 0,
+			hasKey: false,
+		});
+	});
+
+	it('reports a divert to a missing knot', () => {
+		const story = JSON.parse(inkStory);
+		story.root[2].map[6] = { '->': 'cellar' };
+		const { errors } = load('ink', JSON.stringify(story));
+		expect(errors).toContain(
+			"node 'map' diverts to 'cellar', which could not be found, stopped there"
+		);
+	});
+
+	it('rejects JSON that is not a compiled story', () => {
+		const { value, errors } = load('ink', '{"root": {}}');
+		expect(value).toBeNull();
+		expect(errors).toContain(
+			'root must be the array of a compiled Ink story'
+		);
+	});
+});
@@ -0,0 +1,39 @@
+import type { ValidationResult } from '../core/Validation';
+import { importInk } from './InkImport';
+import type { ImportedDialogue } from './ScriptCompiler';
+import { importYarn } from './YarnImport';
+
+/**
+ * Format of a dialogue script: the endpoint's JSON, a Yarn Spinner script, or an Ink story compiled by inklecate
+ */
+export type DialogueFormat = 'json' | 'yarn' | 'ink';
+
+/**
+ * Tells the format of a dialogue script from its URL: .yarn for Yarn Spinner, .ink.json for compiled Ink,
+ * and the endpoint's JSON otherwise
+ */
+export function getDialogueFormat(url: string): DialogueFormat {
+	const path = url.split(/[?#]/)[0].toLowerCase();
+	if (path.endsWith('.yarn')) return 'yarn';
+	if (path.endsWith('.ink.json')) return 'ink';
+	return 'json';
+}
+
+/**
+ * Imports a Yarn Spinner or Ink script into the endpoint's format.
+ * Since those formats can't describe them, emojis and avatars come from a cast file: `{ "emojies": [...], "avatars": [...] }`
+ *
+ * @param format - The script's format
+ * @param source - The script's text
+ * @param cast - The parsed cast file
+ * @returns The script, still to be validated with validateDialogueData, or null if it was rejected
+ */
+export function importDialogue(
+	format: Exclude<DialogueFormat, 'json'>,
+	source: string,
+	cast: unknown
+): ValidationResult<ImportedDialogue> {
+	return format === 'yarn'
+		? importYarn(source, cast)
+		: importInk(source, cast);
+}
@@ -0,0 +1,201 @@
+import { describe, expect, it } from 'vitest';
+import {
+	markupToHtml,
+	parseMarkup,
+	type MarkupStyle,
+	type MarkupToken,
+} from './DialogueMarkup';
+
+const PLAIN_STYLE: MarkupStyle = {
+	bold: false,
+	italic: false,
+	color: null,
+	size: 1,
+	effect: null,
+};
+
+const toHtml = (text: string, emojis: Map<string, string> = new Map()) =>
+	markupToHtml(parseMarkup(text), emojis);
+
+const styled = (style: Partial<MarkupStyle>): MarkupStyle => ({
+	...PLAIN_STYLE,
+	...style,
+});
+
+describe('parseMarkup', () => {
+	it('keeps plain text as one token', () => {
+		expect(parseMarkup('Hello there')).toEqual([
+			{ type: 'text', text: 'Hello there', style: PLAIN_STYLE },
+		]);
+	});
+
+	it('nests tags, combining their styles', () => {
+		expect(
+			parseMarkup('a [b]b [i]bi [color=red]red[/color][/i] b[/b] a')
+		).toEqual([
+			{ type: 'text', text: 'a ', style: PLAIN_STYLE },
+			{ type: 'text', text: 'b ', style: styled({ bold: true }) },
+			{
+				type: 'text',
+				text: 'bi ',
+				style: styled({ bold: true, italic: true }),
+			},
+			{
+				type: 'text',
+				text: 'red',
+				style: styled({ bold: true, italic: true, color: 'red' }),
+			},
+			{ type: 'text', text: ' b', style: styled({ bold: true }) },
+			{ type: 'text', text: ' a', style: PLAIN_STYLE },
+		]);
+	});
+
+	it('multiplies nested sizes', () => {
+		expect(parseMarkup('[size=2][size=1.5]big[/size][/size]')).toEqual([
+			{ type: 'text', text: 'big', style: styled({ size: 3 }) },
+		]);
+	});
+
+	it('closes the tags opened inside a closed tag', () => {
+		expect(parseMarkup('[b]bold [i]both[/b] plain[/i]')).toEqual([
+			{ type: 'text', text: 'bold ', style: styled({ bold: true }) },
+			{
+				type: 'text',
+				text: 'both',
+				style: styled({ bold: true, italic: true }),
+			},
+			{ type: 'text', text: ' plain[/i]', style: PLAIN_STYLE },
+		]);
+	});
+
+	it('runs unclosed tags to the end of the line', () => {
+		expect(parseMarkup('plain [shake]shaking to the end')).toEqual([
+			{ type: 'text', text: 'plain ', style: PLAIN_STYLE },
+			{
+				type: 'text',
+				text: 'shaking to the end',
+				style: styled({ effect: 'shake' }),
+			},
+		]);
+	});
+
+	it('keeps unknown tags as literal text', () => {
+		expect(parseMarkup('[u]under[/u] [url=x]link')).toEqual([
+			{
+				type: 'text',
+				text: '[u]under[/u] [url=x]link',
+				style: PLAIN_STYLE,
+			},
+		]);
+	});
+
+	it('keeps tags with invalid values as literal text', () => {
+		expect(
+			parseMarkup('[size=10]big [size=0.1]small [color=#12]c [b=1]b')
+		).toEqual([
+			{
+				type: 'text',
+				text: '[size=10]big [size=0.1]small [color=#12]c [b=1]b',
+				style: PLAIN_STYLE,
+			},
+		]);
+	});
+
+	it("keeps closing tags that weren't opened as literal text", () => {
+		expect(parseMarkup('[i]a[/b]b[/i]')).toEqual([
+			{ type: 'text', text: 'a[/b]b', style: styled({ italic: true }) },
+		]);
+	});
+
+	it('gives emojis inside tags the style of the tags', () => {
+		expect(
+			parseMarkup('{wave} [b][size=2]Hi {smile}[/size]{smile}[/b]')
+		).toEqual([
+			{ type: 'emoji', name: 'wave', style: PLAIN_STYLE },
+			{ type: 'text', text: ' ', style: PLAIN_STYLE },
+			{
+				type: 'text',
+				text: 'Hi ',
+				style: styled({ bold: true, size: 2 }),
+			},
+			{
+				type: 'emoji',
+				name: 'smile',
+				style: styled({ bold: true, size: 2 }),
+			},
+			{ type: 'emoji', name: 'smile', style: styled({ bold: true }) },
+		]);
+	});
+
+	it('reads pauses and sound cues without changing the style', () => {
+		expect(parseMarkup('[b]Wait[pause=500] for it[sfx=ding][/b]')).toEqual([
+			{ type: 'text', text: 'Wait', style: styled({ bold: true }) },
+			{ type: 'pause', durationMS: 500 },
+			{ type: 'text', text: ' for it', style: styled({ bold: true }) },
+			{ type: 'sound', alias: 'ding' },
+		]);
+	});
+});
+
+describe('markupToHtml', () => {
+	it('escapes script tags in dialogue text', () => {
+		expect(toHtml('<script>alert(1)</script>')).toBe(
+			'&lt;script&gt;alert(1)&lt;/script&gt;'
+		);
+	});
+
+	it('escapes quotes that would break out of an attribute', () => {
+		expect(toHtml(`" onerror="alert(1)' x='`)).toBe(
+			'&quot; onerror=&quot;alert(1)&#39; x=&#39;'
+		);
+	});
+
+	it('escapes ampersands, so entities show as written', () => {
+		expect(toHtml('Tom &amp; Jerry & co')).toBe(
+			'Tom &amp;amp; Jerry &amp; co'
+		);
+	});
+
+	it('escapes text inside styled spans', () => {
+		expect(toHtml('[b]<img src=x onerror=alert(1)>[/b]')).toBe(
+			'<span style="font-weight:bold">&lt;img src=x onerror=alert(1)&gt;</span>'
+		);
+	});
+
+	it('keeps colors that would break out of the style attribute as escaped text', () => {
+		expect(toHtml('[color=red"onclick="alert(1)]hi')).toBe(
+			'[color=red&quot;onclick=&quot;alert(1)]hi'
+		);
+	});
+
+	it('keeps emoji tags with names that are not words as escaped text', () => {
+		expect(toHtml('{"><b>&}')).toBe('{&quot;&gt;&lt;b&gt;&amp;}');
+	});
+
+	it('escapes quotes and ampersands in emoji image URLs', () => {
+		const html = toHtml(
+			'{smile}',
+			new Map([['smile', 'x" onerror="alert(1)&']])
+		);
+		expect(html).toContain('src="x&quot; onerror=&quot;alert(1)&amp;"');
+		expect(html).not.toContain('onerror="');
+	});
+
+	it('never writes emoji names to the HTML', () => {
+		const name = '"><script>alert(1)</script>&';
+		const tokens: MarkupToken[] = [
+			{ type: 'emoji', name, style: PLAIN_STYLE },
+		];
+
+		const known = markupToHtml(
+			tokens,
+			new Map([[name, 'data:image/png;base64,AAAA']])
+		);
+		const unknown = markupToHtml(tokens, new Map());
+
+		[known, unknown].forEach(html => {
+			expect(html).not.toContain('script');
+			expect(html).not.toContain('"><');
+		});
+	});
+});
@@ -0,0 +1,293 @@
+/**
+ * Animated text effects. Carried in the tokens for renderers that can animate glyphs
+ */
+export type MarkupEffect = 'shake' | 'wave';
+
+/**
+ * Style of a run of dialogue text.
+ *
+ * @property bold - Bold text
+ * @property italic - Italic text
+ * @property color - CSS color, or null for the default
+ * @property size - Size relative to the default font size
+ * @property effect - Animated effect, or null for none
+ */
+export interface MarkupStyle {
+	bold: boolean;
+	italic: boolean;
+	color: string | null;
+	size: number;
+	effect: MarkupEffect | null;
+}
+
+/**
+ * Token of parsed dialogue markup.
+ *
+ * Text and emojis are shown, pauses hold a typewriter reveal, and sound cues play when a reveal reaches them.
+ */
+export type MarkupToken =
+	| { type: 'text'; text: string; style: MarkupStyle }
+	| { type: 'emoji'; name: string; style: MarkupStyle }
+	| { type: 'pause'; durationMS: number }
+	| { type: 'sound'; alias: string };
+
+const DEFAULT_STYLE: MarkupStyle = {
+	bold: false,
+	italic: false,
+	color: null,
+	size: 1,
+	effect: null,
+};
+
+// Matches {emoji} tags, and [tag], [tag=value] and [/tag] tags
+const MARKUP_REGEX = /\{(\w+)\}|\[(\/?)([a-z]+)(?:=([^\]\s]*))?\]/g;
+
+const COLOR_REGEX = /^(#[0-9a-f]{3}|#[0-9a-f]{6}|[a-z]+)$/i;
+const SOUND_ALIAS_REGEX = /^\w+$/;
+const MIN_SIZE = 0.5;
+const MAX_SIZE = 3;
+
+/**
+ * Parses dialogue markup into tokens.
+ *
+ * Supports:
+ * - `{name}` emojis
+ * - `[b]bold[/b]`, `[i]italic[/i]`
+ * - `[color=#ff5722]colored[/color]`, with hex or named CSS colors
+ * - `[size=1.5]sized[/size]`, relative to the default font size, from 0.5 to 3
+ * - `[shake]shaking[/shake]`, `[wave]waving[/wave]`
+ * - `[pause=500]` pauses in milliseconds, and `[sfx=alias]` sound cues
+ *
+ * Tags nest, and closing a tag also closes any tags opened inside it. Unclosed tags run to the end of the line.
+ * Unknown tags, invalid values and closing tags that weren't opened are kept as literal text.
+ *
+ * @param text - The dialogue text
+ * @returns The tokens, with adjacent text of the same style merged
+ */
+export function parseMarkup(text: string): MarkupToken[] {
+	const tokens: MarkupToken[] = [];
+	// Each open tag, with the style from before it opened
+	const openTags: { name: string; previousStyle: MarkupStyle }[] = [];
+	let style = DEFAULT_STYLE;
+
+	const addText = (value: string): void => {
+		if (!value) return;
+
+		const last = tokens[tokens.length - 1];
+		if (last?.type === 'text' && last.style === style) {
+			last.text += value;
+		} else {
+			tokens.push({ type: 'text', text: value, style });
+		}
+	};
+
+	let lastIndex = 0;
+	for (const match of text.matchAll(MARKUP_REGEX)) {
+		addText(text.slice(lastIndex, match.index));
+		lastIndex = match.index + match[0].length;
+
+		const [source, emojiName, closing, tagName, value] = match;
+		if (emojiName !== undefined) {
+			tokens.push({ type: 'emoji', name: emojiName, style });
+			continue;
+		}
+
+		if (closing) {
+			let openIndex = openTags.length - 1;
+			while (openIndex >= 0 && openTags[openIndex].name !== tagName) {
+				openIndex--;
+			}
+			if (openIndex === -1) {
+				addText(source);
+			} else {
+				style = openTags[openIndex].previousStyle;
+				openTags.length = openIndex;
+			}
+			continue;
+		}
+
+		const token = parseSelfClosingTag(tagName, value);
+		if (token) {
+			tokens.push(token);
+			continue;
+		}
+
+		const nextStyle = applyTag(style, tagName, value);
+		if (nextStyle) {
+			openTags.push({ name: tagName, previousStyle: style });
+			style = nextStyle;
+		} else {
+			addText(source);
+		}
+	}
+	addText(text.slice(lastIndex));
+
+	return tokens;
+}
+
+/**
+ * Gets the text of a line without any markup, for places that can't show it, such as button labels
+ */
+export function markupToPlainText(text: string): string {
+	return parseMarkup(text)
+		.map(token => (token.type === 'text' ? token.text : ''))
+		.join('')
+		.replace(/\s+/g, ' ')
+		.trim();
+}
+
+/**
+ * Counts the characters a typewriter reveals one at a time. Emojis count as one character
+ */
+export function countMarkupCharacters(tokens: MarkupToken[]): number {
+	return tokens.reduce((count, token) => {
+		if (token.type === 'text') return count + [...token.text].length;
+		if (token.type === 'emoji') return count + 1;
+		return count;
+	}, 0);
+}
+
+/**
+ * Converts markup tokens to HTML for HTMLText, escaping the text. Emoji images are styled to match the font size.
+ *
+ * Shake and wave effects need glyphs that move on their own, so HTML shows them as plain text.
+ * Dialogue is drawn with RichText, and this is kept to benchmark it against HTMLText.
+ *
+ * @param tokens - The parsed markup
+ * @param emojiBase64Map - The emoji images, by name
+ * @param fontSize - The default font size
+ * @param visibleCharacters - How many characters to show, counting emojis as one. The rest are laid out
+ * but hidden, so that the text doesn't reflow as a typewriter reveals it
+ */
+export function markupToHtml(
+	tokens: MarkupToken[],
+	emojiBase64Map: Map<string, string>,
+	fontSize: number = 32,
+	visibleCharacters: number = Number.POSITIVE_INFINITY
+): string {
+	let remaining = visibleCharacters;
+	let result = '';
+
+	tokens.forEach(token => {
+		if (token.type === 'emoji') {
+			const emoji = emojiToHtml(
+				token.name,
+				emojiBase64Map,
+				Math.round(fontSize * token.style.size * 1.1) // Slightly larger than text
+			);
+			result += wrapStyle(emoji, token.style, remaining > 0);
+			remaining--;
+		} else if (token.type === 'text') {
+			// Split by code point, so emoji characters aren't cut in half
+			const characters = [...token.text];
+			const shownCount = Math.max(
+				0,
+				Math.min(remaining, characters.length)
+			);
+			const shown = characters.slice(0, shownCount).join('');
+			const hidden = characters.slice(shownCount).join('');
+			if (shown) {
+				result += wrapStyle(escapeHtml(shown), token.style, true);
+			}
+			if (hidden) {
+				result += wrapStyle(escapeHtml(hidden), token.style, false);
+			}
+			remaining -= characters.length;
+		}
+	});
+
+	return result;
+}
+
+function wrapStyle(html: string, style: MarkupStyle, visible: boolean): string {
+	const css: string[] = [];
+	if (style.bold) css.push('font-weight:bold');
+	if (style.italic) css.push('font-style:italic');
+	if (style.color) css.push(`color:${style.color}`);
+	if (style.size !== 1) css.push(`font-size:${style.size}em`);
+	if (!visible) css.push('visibility:hidden');
+
+	return css.length > 0
+		? `<span style="${css.join(';')}">${html}</span>`
+		: html;
+}
+
+/**
+ * Creates an image tag if the emoji exists, or a fallback span if not
+ */
+function emojiToHtml(
+	emojiName: string,
+	emojiBase64Map: Map<string, string>,
+	emojiSize: number
+): string {
+	const base64 = emojiBase64Map.get(emojiName);
+
+	if (base64) {
+		const imgStyle = `display:inline-block;vertical-align:middle;width:${emojiSize}px;height:${emojiSize}px;margin:0 4px;padding-bottom:8px;`;
+		return `<img src="${escapeHtml(base64)}" style="${imgStyle}" />`;
+	} else {
+		const spanStyle = `display:inline-block;width:${emojiSize}px;height:${emojiSize}px;line-height:${emojiSize}px;text-align:center;`;
+		return `<span style="${spanStyle}">�</span>`;
+	}
+}
+
+function escapeHtml(text: string): string {
+	return text
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;')
+		.replace(/'/g, '&#39;');
+}
+
+function parseSelfClosingTag(
+	name: string,
+	value: string | undefined
+): MarkupToken | null {
+	if (name === 'pause' && value !== undefined && /^\d+$/.test(value)) {
+		return { type: 'pause', durationMS: Number(value) };
+	}
+	if (
+		name === 'sfx' &&
+		value !== undefined &&
+		SOUND_ALIAS_REGEX.test(value)
+	) {
+		return { type: 'sound', alias: value };
+	}
+	return null;
+}
+
+/**
+ * Applies an opening tag to a style
+ * @returns The new style, or null if the tag or its value is invalid
+ */
+function applyTag(
+	style: MarkupStyle,
+	name: string,
+	value: string | undefined
+): MarkupStyle | null {
+	switch (name) {
+		case 'b':
+			return value === undefined ? { ...style, bold: true } : null;
+		case 'i':
+			return value === undefined ? { ...style, italic: true } : null;
+		case 'shake':
+		case 'wave':
+			return value === undefined ? { ...style, effect: name } : null;
+		case 'color':
+			return value !== undefined && COLOR_REGEX.test(value)
+				? { ...style, color: value }
+				: null;
+		case 'size': {
+			const size = Number(value);
+			return value !== undefined &&
+				Number.isFinite(size) &&
+				size >= MIN_SIZE &&
+				size <= MAX_SIZE
+				? { ...style, size: style.size * size }
+				: null;
+		}
+		default:
+			return null;
+	}
+}
@@ -0,0 +1,178 @@
+import type {
+	DialogueChoice,
+	DialogueData,
+	DialogueLine,
+} from './DialogueData';
+import {
+	evaluateCondition,
+	parseCondition,
+	type DialogueCondition,
+	type DialogueVariables,
+} from './DialogueConditions';
+import type { DialogueProgress } from './DialogueSaves';
+
+/**
+ * Steps through a validated dialogue script, following links, choices and conditions.
+ *
+ * Lines play in order unless they link elsewhere. Lines whose condition fails are skipped,
+ * and lines with choices wait for the player to pick one before moving on.
+ *
+ * @param script - The validated dialogue script
+ */
+export class DialogueRunner {
+	// Core
+	private script: DialogueData;
+	private lineIndexById: Map<string, number> = new Map();
+	private conditions: Map<string, DialogueCondition> = new Map();
+
+	// State
+	private variables: DialogueVariables = {};
+	private currentIndex: number | null = null;
+	private choiceHistory: string[] = [];
+
+	constructor(script: DialogueData) {
+		this.script = script;
+		script.dialogue.forEach((line, i) => {
+			if (line.id !== undefined) {
+				this.lineIndexById.set(line.id, i);
+			}
+		});
+		this.restart();
+	}
+
+	/**
+	 * Resets the variables to their initial values and goes back to the first line
+	 */
+	public restart(): void {
+		this.variables = { ...this.script.variables };
+		this.choiceHistory = [];
+		this.goTo(0);
+	}
+
+	/**
+	 * Gets the progress to save
+	 * @returns The progress, or null once the dialogue is complete
+	 */
+	public getProgress(): DialogueProgress | null {
+		if (this.currentIndex === null) return null;
+
+		return {
+			lineIndex: this.currentIndex,
+			variables: { ...this.variables },
+			choices: [...this.choiceHistory],
+		};
+	}
+
+	/**
+	 * Picks up saved progress. The saved line is shown as is, since its variables were set when it was first shown
+	 * @param progress - Progress from getProgress, possibly of an earlier session
+	 */
+	public restore(progress: DialogueProgress): void {
+		if (!this.script.dialogue[progress.lineIndex]) return;
+
+		// Variables added to the script since the save start at their initial values
+		this.variables = { ...this.script.variables, ...progress.variables };
+		this.choiceHistory = [...progress.choices];
+		this.currentIndex = progress.lineIndex;
+	}
+
+	/**
+	 * Gets the line being shown
+	 * @returns The line, or null once the dialogue is complete
+	 */
+	public getCurrentLine(): DialogueLine | null {
+		return this.currentIndex === null
+			? null
+			: this.script.dialogue[this.currentIndex];
+	}
+
+	/**
+	 * Gets the choices offered after the current line, leaving out those whose condition fails
+	 */
+	public getChoices(): DialogueChoice[] {
+		const line = this.getCurrentLine();
+		if (!line?.choices) return [];
+
+		return line.choices.filter(choice => this.isAllowed(choice.if));
+	}
+
+	public isAwaitingChoice(): boolean {
+		return this.getChoices().length > 0;
+	}
+
+	public isComplete(): boolean {
+		return this.currentIndex === null;
+	}
+
+	public getVariables(): Readonly<DialogueVariables> {
+		return this.variables;
+	}
+
+	/**
+	 * Moves on from the current line. Does nothing while waiting for a choice
+	 */
+	public advance(): void {
+		const line = this.getCurrentLine();
+		if (!line || this.isAwaitingChoice()) return;
+
+		if (line.end) {
+			this.currentIndex = null;
+		} else {
+			this.goTo(this.resolveNext(line.next, this.currentIndex!));
+		}
+	}
+
+	/**
+	 * Picks one of the current line's choices, setting its variables and following its link, or ending the dialogue
+	 * @param choice - One of the choices returned by getChoices
+	 */
+	public choose(choice: DialogueChoice): void {
+		if (!this.getChoices().includes(choice)) return;
+
+		Object.assign(this.variables, choice.set);
+		this.choiceHistory.push(choice.text);
+		if (choice.end) {
+			this.currentIndex = null;
+		} else {
+			this.goTo(this.resolveNext(choice.next, this.currentIndex!));
+		}
+	}
+
+	/**
+	 * Shows the first line from the given index whose condition passes, setting its variables
+	 */
+	private goTo(index: number): void {
+		let nextIndex = index;
+		while (
+			nextIndex < this.script.dialogue.length &&
+			!this.isAllowed(this.script.dialogue[nextIndex].if)
+		) {
+			nextIndex++;
+		}
+
+		if (nextIndex >= this.script.dialogue.length) {
+			this.currentIndex = null;
+			return;
+		}
+
+		this.currentIndex = nextIndex;
+		Object.assign(this.variables, this.script.dialogue[nextIndex].set);
+	}
+
+	private resolveNext(next: string | undefined, fromIndex: number): number {
+		if (next === undefined) return fromIndex + 1;
+		return this.lineIndexById.get(next) ?? fromIndex + 1;
+	}
+
+	private isAllowed(condition: string | undefined): boolean {
+		if (condition === undefined) return true;
+
+		// Conditions are validated on load, so parsing can't fail here
+		let parsed = this.conditions.get(condition);
+		if (!parsed) {
+			parsed = parseCondition(condition);
+			this.conditions.set(condition, parsed);
+		}
+		return evaluateCondition(parsed, this.variables);
+	}
+}
@@ -0,0 +1,313 @@
+import {
+	Application,
+	Container,
+	Graphics,
+	Text,
+	TextStyle,
+	type FederatedPointerEvent,
+} from 'pixi.js';
+import { fitText, scaled } from '../core/Utils';
+import { i18n } from '../core/I18n';
+import { Button } from '../ui/Button';
+import { DialogueSaveStore, type DialogueSave } from './DialogueSaves';
+import { markupToPlainText } from './DialogueMarkup';
+
+/**
+ * Callbacks of the save panel buttons, with the slot they were pressed for
+ */
+export interface DialogueSavePanelHandlers {
+	onSave: (slot: number) => void;
+	onLoad: (slot: number) => void;
+}
+
+interface SlotRow {
+	label: Text;
+	details: Text;
+	saveButton: Button | null;
+	loadButton: Button | null;
+}
+
+/**
+ * Overlay listing the dialogue save slots, each with a summary of its save and buttons to save or load.
+ * The autosave slot can only be loaded.
+ *
+ * Swallows all pointer events while open, so that clicks never reach the dialogue underneath.
+ *
+ * @param app - The application, for the screen size
+ * @param handlers - Callbacks of the save and load buttons
+ * @extends Container
+ */
+export class DialogueSavePanel extends Container {
+	// UI Constants
+	private readonly OVERLAY_COLOR = 0x000000; // Black
+	private readonly OVERLAY_ALPHA = 0.6;
+	private readonly PANEL_COLOR = 0x222222; // Dark grey
+	private readonly PANEL_ALPHA = 0.95;
+	private readonly PANEL_WIDTH = 1000;
+	private readonly PANEL_PADDING = 32;
+	private readonly PANEL_BORDER_RADIUS = 16;
+	private readonly TITLE_FONT_SIZE = 48;
+	private readonly TITLE_HEIGHT = 80;
+	private readonly CLOSE_BUTTON_SIZE = 80;
+	private readonly ROW_HEIGHT = 110;
+	private readonly LABEL_FONT_SIZE = 32;
+	private readonly LABEL_COLOR = 0xffd700; // Golden
+	private readonly DETAILS_FONT_SIZE = 24;
+	private readonly DETAILS_COLOR = 0xcccccc; // Light grey
+	private readonly DETAILS_MAX_LENGTH = 40;
+	private readonly SLOT_BUTTON_WIDTH = 140;
+	private readonly SLOT_BUTTON_HEIGHT = 70;
+	private readonly SLOT_BUTTON_FONT_SIZE = 28;
+	private readonly SLOT_BUTTON_SPACING = 16;
+	private readonly SAVE_BUTTON_COLOR = 0x4caf50; // Green
+	private readonly LOAD_BUTTON_COLOR = 0x2196f3; // Blue
+	private readonly CLOSE_BUTTON_COLOR = 0xffd700; // Golden
+
+	// UI Elements
+	private overlay: Graphics;
+	private panel: Graphics;
+	private title: Text;
+	private closeButton: Button;
+	private rows: SlotRow[] = [];
+
+	// Core
+	private app: Application;
+	private handlers: DialogueSavePanelHandlers;
+
+	constructor(app: Application, handlers: DialogueSavePanelHandlers) {
+		super();
+		this.app = app;
+		this.handlers = handlers;
+		this.visible = false;
+
+		// Swallow pointer events meant for the dialogue
+		this.eventMode = 'static';
+		this.hitArea = this.app.screen;
+		this.on('pointerdown', this.onPointerDown, this);
+
+		// Dimmed background
+		this.overlay = new Graphics();
+		this.addChild(this.overlay);
+
+		// Panel
+		this.panel = new Graphics();
+		this.addChild(this.panel);
+
+		// Title
+		this.title = new Text(
+			i18n.t('dialogue.saveLoad'),
+			new TextStyle({
+				fontFamily: 'Arial, sans-serif',
+				fill: 0xffffff,
+				fontWeight: 'bold',
+			})
+		);
+		this.title.anchor.set(0, 0.5);
+		this.addChild(this.title);
+
+		// Close button
+		this.closeButton = new Button({
+			emoji: '✖️',
+			color: this.CLOSE_BUTTON_COLOR,
+			width: this.CLOSE_BUTTON_SIZE,
+			height: this.CLOSE_BUTTON_SIZE,
+			margin: 1,
+			fontSize: this.TITLE_FONT_SIZE,
+			onClick: () => this.close(),
+		});
+		this.addChild(this.closeButton);
+
+		this.onResize();
+	}
+
+	public isOpen(): boolean {
+		return this.visible;
+	}
+
+	/**
+	 * Shows the panel
+	 * @param slots - The save slots, null where empty
+	 */
+	public open(slots: (DialogueSave | null)[]): void {
+		this.visible = true;
+		this.refresh(slots);
+	}
+
+	public close(): void {
+		this.visible = false;
+	}
+
+	/**
+	 * Rebuilds the slot rows, e.g. after saving
+	 * @param slots - The save slots, null where empty
+	 */
+	public refresh(slots: (DialogueSave | null)[]): void {
+		this.destroyRows();
+
+		this.rows = slots.map((save, slot) => {
+			const isAutosave = slot === DialogueSaveStore.AUTOSAVE_SLOT;
+			const label = new Text(
+				isAutosave
+					? i18n.t('dialogue.autosave')
+					: i18n.t('dialogue.slot', { slot }),
+				new TextStyle({
+					fontFamily: 'Arial, sans-serif',
+					fill: this.LABEL_COLOR,
+					fontWeight: 'bold',
+				})
+			);
+			const details = new Text(
+				save ? this.describeSave(save) : i18n.t('dialogue.empty'),
+				new TextStyle({
+					fontFamily: 'Arial, sans-serif',
+					fill: this.DETAILS_COLOR,
+				})
+			);
+			this.addChild(label, details);
+
+			const saveButton = isAutosave
+				? null
+				: this.createSlotButton(
+						i18n.t('dialogue.save'),
+						this.SAVE_BUTTON_COLOR,
+						() => this.handlers.onSave(slot)
+					);
+			const loadButton = save
+				? this.createSlotButton(
+						i18n.t('dialogue.load'),
+						this.LOAD_BUTTON_COLOR,
+						() => this.handlers.onLoad(slot)
+					)
+				: null;
+
+			return { label, details, saveButton, loadButton };
+		});
+
+		this.onResize();
+	}
+
+	private createSlotButton(
+		text: string,
+		color: number,
+		onClick: () => void
+	): Button {
+		const button = new Button({
+			text,
+			color,
+			width: this.SLOT_BUTTON_WIDTH,
+			height: this.SLOT_BUTTON_HEIGHT,
+			fontSize: this.SLOT_BUTTON_FONT_SIZE,
+			onClick,
+		});
+		this.addChild(button);
+		return button;
+	}
+
+	/**
+	 * Summarizes a save as its current line and when it was saved
+	 */
+	private describeSave(save: DialogueSave): string {
+		const text = markupToPlainText(save.lineText);
+		const excerpt =
+			text.length > this.DETAILS_MAX_LENGTH
+				? `${text.slice(0, this.DETAILS_MAX_LENGTH)}…`
+				: text;
+		return `${save.lineName}: ${excerpt}\n${new Date(save.savedAt).toLocaleString(i18n.getLocale())}`;
+	}
+
+	private onPointerDown(event: FederatedPointerEvent): void {
+		event.stopPropagation();
+	}
+
+	public onResize(): void {
+		const screenWidth = this.app.screen.width;
+		const screenHeight = this.app.screen.height;
+		const padding = scaled(this.PANEL_PADDING);
+		const rowHeight = scaled(this.ROW_HEIGHT);
+		const panelWidth = Math.min(scaled(this.PANEL_WIDTH), screenWidth);
+		const panelHeight =
+			padding * 2 +
+			scaled(this.TITLE_HEIGHT) +
+			this.rows.length * rowHeight;
+		const panelX = (screenWidth - panelWidth) * 0.5;
+		const panelY = (screenHeight - panelHeight) * 0.5;
+
+		this.overlay.clear();
+		this.overlay.beginFill(this.OVERLAY_COLOR, this.OVERLAY_ALPHA);
+		this.overlay.drawRect(0, 0, screenWidth, screenHeight);
+		this.overlay.endFill();
+
+		this.panel.clear();
+		this.panel.beginFill(this.PANEL_COLOR, this.PANEL_ALPHA);
+		this.panel.drawRoundedRect(
+			panelX,
+			panelY,
+			panelWidth,
+			panelHeight,
+			scaled(this.PANEL_BORDER_RADIUS)
+		);
+		this.panel.endFill();
+
+		this.title.style.fontSize = scaled(this.TITLE_FONT_SIZE);
+		this.title.x = panelX + padding;
+		this.title.y = panelY + padding + scaled(this.TITLE_HEIGHT) * 0.5;
+
+		this.closeButton.x =
+			panelX +
+			panelWidth -
+			padding -
+			scaled(this.CLOSE_BUTTON_SIZE) * 0.5;
+		this.closeButton.y = this.title.y;
+
+		// Rows below the title, with their buttons on the right
+		const buttonWidth = scaled(this.SLOT_BUTTON_WIDTH);
+		const buttonSpacing = scaled(this.SLOT_BUTTON_SPACING);
+		const loadButtonX = panelX + panelWidth - padding - buttonWidth * 0.5;
+		const saveButtonX = loadButtonX - buttonWidth - buttonSpacing;
+		const textWidth =
+			saveButtonX - buttonWidth * 0.5 - buttonSpacing - panelX - padding;
+		this.rows.forEach((row, i) => {
+			const rowY =
+				panelY + padding + scaled(this.TITLE_HEIGHT) + i * rowHeight;
+
+			row.label.style.fontSize = scaled(this.LABEL_FONT_SIZE);
+			fitText(row.label, textWidth, false);
+			row.label.x = panelX + padding;
+			row.label.y = rowY;
+			row.details.style.fontSize = scaled(this.DETAILS_FONT_SIZE);
+			fitText(row.details, textWidth, false);
+			row.details.x = panelX + padding;
+			row.details.y = rowY + row.label.height;
+
+			const buttonY = rowY + rowHeight * 0.5 - buttonSpacing * 0.5;
+			if (row.saveButton) {
+				row.saveButton.x = saveButtonX;
+				row.saveButton.y = buttonY;
+			}
+			if (row.loadButton) {
+				row.loadButton.x = loadButtonX;
+				row.loadButton.y = buttonY;
+			}
+		});
+	}
+
+	private destroyRows(): void {
+		this.rows.forEach(row => {
+			row.label.destroy();
+			row.details.destroy();
+			row.saveButton?.destroy();
+			row.loadButton?.destroy();
+		});
+		this.rows = [];
+	}
+
+	public destroy(): void {
+		this.off('pointerdown', this.onPointerDown, this);
+		this.destroyRows();
+		this.overlay.destroy();
+		this.panel.destroy();
+		this.title.destroy();
+		this.closeButton.destroy();
+		super.destroy();
+	}
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import englishScript from '../../public/dialogue/magicwords.json';
+import germanScript from '../../public/dialogue/magicwords.de.json';
+import { validateDialogueData, type DialogueData } from './DialogueData';
+import { DialogueSaveStore } from './DialogueSaves';
+
+function validate(data: unknown): DialogueData {
+	const { value } = validateDialogueData(data);
+	if (!value) throw new Error('Expected a valid script');
+	return value;
+}
+
+const english = validate(englishScript);
+const german = validate(germanScript);
+
+const progress = (lineIndex: number) => ({
+	lineIndex,
+	variables: { met: true },
+	choices: ['Yes'],
+});
+
+describe('DialogueSaveStore.resolve', () => {
+	it('resolves a save against the script it was made with', () => {
+		const saves = new DialogueSaveStore('magicwords', english);
+		expect(saves.resolve(saves.snapshot(progress(5)))).toEqual(progress(5));
+	});
+
+	it('resolves an English save against the German translation', () => {
+		const save = new DialogueSaveStore('magicwords', english).snapshot(
+			progress(5)
+		);
+		const saves = new DialogueSaveStore('magicwords', german);
+		expect(saves.resolve(save)).toEqual(progress(5));
+	});
+
+	it('resolves a German save against the English script', () => {
+		const save = new DialogueSaveStore('magicwords', german).snapshot(
+			progress(16)
+		);
+		const saves = new DialogueSaveStore('magicwords', english);
+		expect(saves.resolve(save)).toEqual(progress(16));
+	});
+
+	it('finds a moved line by its speaker and text', () => {
+		const save = new DialogueSaveStore('magicwords', english).snapshot(
+			progress(5)
+		);
+		const moved = { ...english, dialogue: english.dialogue.slice(2) };
+		const saves = new DialogueSaveStore('magicwords', moved);
+		expect(saves.resolve(save)).toEqual(progress(3));
+	});
+
+	it('rejects a save once the speakers and the line changed', () => {
+		const save = new DialogueSaveStore('magicwords', english).snapshot(
+			progress(5)
+		);
+		const rewritten = validate({
+			dialogue: german.dialogue.map((line, i) => ({
+				...line,
+				name: i === 0 ? 'Narrator' : line.name,
+			})),
+		});
+		const saves = new DialogueSaveStore('magicwords', rewritten);
+		expect(saves.resolve(save)).toBeNull();
+	});
+});
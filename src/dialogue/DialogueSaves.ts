@@ -0,0 +1,254 @@
+import { isRecord } from '../core/Validation';
+import type { DialogueData } from './DialogueData';
+import type { DialogueVariables } from './DialogueConditions';
+
+/**
+ * Version of the save format. Bump it when the format changes, and migrate older saves in readSlots
+ */
+const SAVE_VERSION = 1;
+
+const SAVES_STORAGE_KEY_PREFIX = 'softgames-dialogue-saves-';
+
+/**
+ * Saved dialogue progress.
+ *
+ * The current line is kept along with its id, speaker and text, so that it can be found again if the script changes.
+ *
+ * @property version - Version of the save format
+ * @property scriptId - The dialogue asset name, e.g. 'magicwords'
+ * @property scriptHash - Hash of the script's lines when saved
+ * @property speakersHash - Optional hash of the script's speakers, in line order, when saved. Unchanged in translations
+ * @property lineIndex - Index of the current line
+ * @property lineId - Optional id of the current line
+ * @property lineName - Speaker of the current line
+ * @property lineText - Text of the current line
+ * @property variables - The dialogue variables
+ * @property choices - Text of every choice picked so far, in order
+ * @property savedAt - When the progress was saved, as a timestamp
+ */
+export interface DialogueSave {
+	version: number;
+	scriptId: string;
+	scriptHash: string;
+	speakersHash?: string;
+	lineIndex: number;
+	lineId?: string;
+	lineName: string;
+	lineText: string;
+	variables: DialogueVariables;
+	choices: string[];
+	savedAt: number;
+}
+
+/**
+ * Progress to save, as reported by the dialogue runner
+ */
+export interface DialogueProgress {
+	lineIndex: number;
+	variables: DialogueVariables;
+	choices: string[];
+}
+
+/**
+ * Dialogue save slots of a script, persisted in localStorage. Slot 0 is the autosave.
+ *
+ * @param scriptId - The dialogue asset name, e.g. 'magicwords'
+ * @param script - The validated script, to find saved lines in
+ */
+export class DialogueSaveStore {
+	// Slot 0 is the autosave, the others are saved by the player
+	public static readonly AUTOSAVE_SLOT = 0;
+	public static readonly SLOT_COUNT = 4;
+
+	// Core
+	private scriptId: string;
+	private script: DialogueData;
+	private scriptHash: string;
+	private speakersHash: string;
+
+	constructor(scriptId: string, script: DialogueData) {
+		this.scriptId = scriptId;
+		this.script = script;
+		this.scriptHash = hashString(JSON.stringify(script.dialogue));
+		this.speakersHash = hashString(
+			JSON.stringify(script.dialogue.map(line => line.name))
+		);
+	}
+
+	/**
+	 * Gets every slot, null where empty
+	 */
+	public getSlots(): (DialogueSave | null)[] {
+		return this.readSlots();
+	}
+
+	/**
+	 * Gets the most recent save in any slot
+	 */
+	public getLatest(): DialogueSave | null {
+		return this.readSlots().reduce<DialogueSave | null>(
+			(latest, save) =>
+				save && (!latest || save.savedAt > latest.savedAt)
+					? save
+					: latest,
+			null
+		);
+	}
+
+	public save(slot: number, progress: DialogueProgress): void {
+		const slots = this.readSlots();
+		slots[slot] = this.snapshot(progress);
+		this.writeSlots(slots);
+	}
+
+	/**
+	 * Records progress as a save without storing it, e.g. to find its line again in another version of the script
+	 */
+	public snapshot(progress: DialogueProgress): DialogueSave {
+		const line = this.script.dialogue[progress.lineIndex];
+		return {
+			version: SAVE_VERSION,
+			scriptId: this.scriptId,
+			scriptHash: this.scriptHash,
+			speakersHash: this.speakersHash,
+			lineIndex: progress.lineIndex,
+			lineId: line.id,
+			lineName: line.name,
+			lineText: line.text,
+			variables: { ...progress.variables },
+			choices: [...progress.choices],
+			savedAt: Date.now(),
+		};
+	}
+
+	public delete(slot: number): void {
+		const slots = this.readSlots();
+		slots[slot] = null;
+		this.writeSlots(slots);
+	}
+
+	/**
+	 * Gets the progress of a save in the current script.
+	 *
+	 * If the script changed since the save, the saved line is looked up by id, then by speaker and text. Failing that,
+	 * a script with the same speakers in the same order, such as a translation, keeps the saved position.
+	 *
+	 * @param save - A save from this store
+	 * @returns The progress, or null if the saved line is no longer in the script
+	 */
+	public resolve(save: DialogueSave): DialogueProgress | null {
+		const lines = this.script.dialogue;
+		const progress = (lineIndex: number): DialogueProgress => ({
+			lineIndex,
+			variables: save.variables,
+			choices: save.choices,
+		});
+
+		if (save.scriptHash === this.scriptHash && lines[save.lineIndex]) {
+			return progress(save.lineIndex);
+		}
+
+		if (save.lineId !== undefined) {
+			const index = lines.findIndex(line => line.id === save.lineId);
+			if (index !== -1) return progress(index);
+		}
+
+		// Prefer the match closest to where the line was
+		const matches = lines
+			.map((line, index) => ({ line, index }))
+			.filter(
+				({ line }) =>
+					line.name === save.lineName && line.text === save.lineText
+			)
+			.sort(
+				(a, b) =>
+					Math.abs(a.index - save.lineIndex) -
+					Math.abs(b.index - save.lineIndex)
+			);
+		if (matches.length > 0) return progress(matches[0].index);
+
+		if (save.speakersHash === this.speakersHash && lines[save.lineIndex]) {
+			return progress(save.lineIndex);
+		}
+
+		console.warn(
+			`Dialogue save of '${this.scriptId}' points to a line that is no longer in the script`
+		);
+		return null;
+	}
+
+	/**
+	 * Reads the slots, dropping saves that are invalid, of another script or from a newer version
+	 */
+	private readSlots(): (DialogueSave | null)[] {
+		const slots: (DialogueSave | null)[] = new Array(
+			DialogueSaveStore.SLOT_COUNT
+		).fill(null);
+
+		try {
+			const stored = localStorage.getItem(this.getStorageKey());
+			if (!stored) return slots;
+
+			const parsed: unknown = JSON.parse(stored);
+			if (!Array.isArray(parsed)) return slots;
+
+			parsed
+				.slice(0, DialogueSaveStore.SLOT_COUNT)
+				.forEach((save, slot) => {
+					slots[slot] = this.isValidSave(save) ? save : null;
+				});
+		} catch (error) {
+			console.error('Failed to load dialogue saves:', error);
+		}
+		return slots;
+	}
+
+	private writeSlots(slots: (DialogueSave | null)[]): void {
+		try {
+			localStorage.setItem(this.getStorageKey(), JSON.stringify(slots));
+		} catch (error) {
+			console.error('Failed to save dialogue progress:', error);
+		}
+	}
+
+	private isValidSave(save: unknown): save is DialogueSave {
+		if (!isRecord(save)) return false;
+
+		if (typeof save.version !== 'number' || save.version > SAVE_VERSION) {
+			console.warn(
+				`Ignoring dialogue save from an unknown version: ${String(save.version)}`
+			);
+			return false;
+		}
+
+		return (
+			save.scriptId === this.scriptId &&
+			typeof save.scriptHash === 'string' &&
+			(save.speakersHash === undefined ||
+				typeof save.speakersHash === 'string') &&
+			typeof save.lineIndex === 'number' &&
+			(save.lineId === undefined || typeof save.lineId === 'string') &&
+			typeof save.lineName === 'string' &&
+			typeof save.lineText === 'string' &&
+			isRecord(save.variables) &&
+			Array.isArray(save.choices) &&
+			typeof save.savedAt === 'number'
+		);
+	}
+
+	private getStorageKey(): string {
+		return `${SAVES_STORAGE_KEY_PREFIX}${this.scriptId}`;
+	}
+}
+
+/**
+ * Hashes a string with FNV-1a, to tell whether a script changed
+ */
+function hashString(text: string): string {
+	let hash = 0x811c9dc5;
+	for (let i = 0; i < text.length; i++) {
+		hash ^= text.charCodeAt(i);
+		hash = Math.imul(hash, 0x01000193);
+	}
+	return (hash >>> 0).toString(16);
+}
@@ -0,0 +1,760 @@
+import {
+	ValidationReport,
+	isRecord,
+	type ValidationResult,
+} from '../core/Validation';
+import type { DialogueValue, DialogueVariables } from './DialogueConditions';
+import {
+	compileScript,
+	parseSpeakerLine,
+	type ImportedDialogue,
+	type ScriptNode,
+	type ScriptOption,
+	type ScriptStatement,
+} from './ScriptCompiler';
+
+/**
+ * A container of a compiled Ink story: a knot, stitch, gather, choice or nested block
+ */
+interface InkContainer {
+	path: string;
+	name: string | null;
+	content: (unknown | InkContainer)[];
+	named: Map<string, InkContainer>;
+	parent: InkContainer | null;
+	// Position in the parent's content, or -1 if it is only reachable by name
+	index: number;
+}
+
+interface InkPointer {
+	container: InkContainer;
+	index: number;
+}
+
+/**
+ * A value on the evaluation stack. Variables are kept by name, since they are only known when the dialogue plays
+ */
+type InkValue =
+	| { type: 'literal'; value: DialogueValue }
+	| { type: 'condition'; source: string; isVariable: boolean }
+	| { type: 'divert'; pointer: InkPointer }
+	| { type: 'unsupported' };
+
+// Versions of the compiled format this was written against, as output by inklecate 1.x
+const INK_VERSIONS = [20, 21];
+
+// Start of the story, which has no path of its own
+const ROOT_TITLE = '(root)';
+
+// Choice point flags
+const CHOICE_HAS_CONDITION = 0x1;
+const CHOICE_HAS_START_CONTENT = 0x2;
+const CHOICE_HAS_CHOICE_ONLY_CONTENT = 0x4;
+const CHOICE_IS_INVISIBLE_DEFAULT = 0x8;
+
+const COMPARISONS = ['==', '!=', '<', '<=', '>', '>='];
+
+// Flipped comparisons, for literals on the left, e.g. 2 < trust is trust > 2
+const FLIPPED_COMPARISONS: Record<string, string> = {
+	'==': '==',
+	'!=': '!=',
+	'<': '>',
+	'<=': '>=',
+	'>': '<',
+	'>=': '<=',
+};
+
+// Guards against stories that loop without reaching a choice or a knot
+const MAX_STEPS = 10000;
+
+/**
+ * Imports a compiled Ink story, the JSON inklecate writes, see ScriptCompiler.
+ *
+ * Supports a subset of Ink: knots, stitches and gathers, lines with an optional `Name:` speaker, choices with their
+ * conditions, diverts, `-> END` and `-> DONE`, and global variables set to plain values rather than expressions.
+ * Choices are offered every time, as if they were sticky. Choices need a line before them, and should keep their
+ * text in [brackets], since text outside of them is repeated as a line.
+ * Other features, such as functions, tunnels, threads, conditional text and lists, aren't supported and are reported.
+ *
+ * @param source - The compiled story
+ * @param cast - The parsed cast file, with the emojis and avatars of the script
+ * @returns The script in the endpoint's format, still to be validated, or null if it was rejected
+ */
+export function importInk(
+	source: string,
+	cast: unknown
+): ValidationResult<ImportedDialogue> {
+	const report = new ValidationReport();
+
+	let story: unknown;
+	try {
+		// inklecate writes a byte order mark
+		story = JSON.parse(source.replace(/^\uFEFF/, ''));
+	} catch (error) {
+		report.error(
+			'(root)',
+			`is not valid JSON: ${(error as Error).message}`
+		);
+		return report.result<ImportedDialogue>(null);
+	}
+	if (!isRecord(story) || !Array.isArray(story.root)) {
+		report.error('root', 'must be the array of a compiled Ink story');
+		return report.result<ImportedDialogue>(null);
+	}
+	if (!INK_VERSIONS.includes(story.inkVersion as number)) {
+		report.warn(
+			'inkVersion',
+			`is ${JSON.stringify(story.inkVersion)}, expected ${INK_VERSIONS.join(' or ')}`
+		);
+	}
+
+	const root = readContainer(story.root, null, null, -1);
+	const variables = readGlobals(report, root.named.get('global decl'));
+
+	// Every knot, stitch, gather or choice reached becomes a node, read once
+	const nodes: ScriptNode[] = [];
+	const queued = new Map<string, InkContainer>([[ROOT_TITLE, root]]);
+	const queue = [root];
+	while (queue.length > 0) {
+		const container = queue.shift()!;
+		const title = getTitle(container);
+		const body = new InkTracer(report, container, target => {
+			const targetTitle = getTitle(target);
+			if (!queued.has(targetTitle)) {
+				queued.set(targetTitle, target);
+				queue.push(target);
+			}
+			return targetTitle;
+		}).trace();
+		nodes.push({ title, body });
+	}
+
+	return report.result(compileScript(report, nodes, variables, cast));
+}
+
+/**
+ * Reads a container, whose last item holds its named content and flags, or is null
+ * @param index - Position in the parent's content, or -1 if it is only reachable by name
+ */
+function readContainer(
+	items: unknown[],
+	parent: InkContainer | null,
+	name: string | null,
+	index: number
+): InkContainer {
+	const terminator = items[items.length - 1];
+	const properties = isRecord(terminator) ? terminator : {};
+	const containerName =
+		typeof properties['#n'] === 'string' ? properties['#n'] : name;
+	const container: InkContainer = {
+		path: '',
+		name: containerName,
+		content: [],
+		named: new Map(),
+		parent,
+		index,
+	};
+	if (parent) {
+		const component = containerName ?? String(index);
+		container.path = parent.path
+			? `${parent.path}.${component}`
+			: component;
+	}
+
+	container.content = items.slice(0, -1).map((item, i) => {
+		if (!Array.isArray(item)) return item;
+
+		const child = readContainer(item, container, null, i);
+		if (child.name !== null) {
+			container.named.set(child.name, child);
+		}
+		return child;
+	});
+	Object.entries(properties).forEach(([key, value]) => {
+		if (Array.isArray(value)) {
+			container.named.set(key, readContainer(value, container, key, -1));
+		}
+	});
+
+	return container;
+}
+
+function isContainer(item: unknown): item is InkContainer {
+	return isRecord(item) && 'named' in item && item.named instanceof Map;
+}
+
+/**
+ * Whether a container starts a node: the root, knots, stitches, gathers and choices.
+ * Choice text (s) and return points ($r) are plumbing, followed in place
+ */
+function isNode(container: InkContainer): boolean {
+	return (
+		container.parent === null ||
+		(container.name !== null &&
+			container.name !== 's' &&
+			!container.name.startsWith('$'))
+	);
+}
+
+function getTitle(container: InkContainer): string {
+	return container.parent === null ? ROOT_TITLE : container.path;
+}
+
+/**
+ * Resolves a path, such as `knot.stitch`, `0.c-1` or the relative `.^.s`, to the content it points at
+ * @param from - The container of the item holding the path, for relative paths
+ */
+function resolvePath(
+	root: InkContainer,
+	from: InkContainer,
+	path: string
+): InkPointer | null {
+	const isRelative = path.startsWith('.');
+	const components = (isRelative ? path.slice(1) : path).split('.');
+
+	// The first parent step of a relative path is the item's own container
+	let container = isRelative ? from : root;
+	if (isRelative && components[0] === '^') {
+		components.shift();
+	}
+
+	for (let i = 0; i < components.length; i++) {
+		const component = components[i];
+		if (component === '^') {
+			if (!container.parent) return null;
+			container = container.parent;
+			continue;
+		}
+
+		const child = /^\d+$/.test(component)
+			? container.content[Number(component)]
+			: container.named.get(component);
+		if (isContainer(child)) {
+			container = child;
+		} else if (child !== undefined && i === components.length - 1) {
+			return { container, index: Number(component) };
+		} else {
+			return null;
+		}
+	}
+	return { container, index: 0 };
+}
+
+function getRoot(container: InkContainer): InkContainer {
+	let root = container;
+	while (root.parent) {
+		root = root.parent;
+	}
+	return root;
+}
+
+/**
+ * Reads the initial values of the story's global variables
+ */
+function readGlobals(
+	report: ValidationReport,
+	declarations: InkContainer | undefined
+): DialogueVariables {
+	const variables: DialogueVariables = {};
+	// Declarations evaluate a value, then assign it: ev, 0, {"VAR=": "trust"}, str, ^text, /str, {"VAR=": "name"}, /ev
+	let value: DialogueValue | null = null;
+
+	for (const item of declarations?.content ?? []) {
+		if (isLiteral(item)) {
+			value = item;
+		} else if (item === 'str') {
+			value = '';
+		} else if (
+			typeof item === 'string' &&
+			item.startsWith('^') &&
+			typeof value === 'string'
+		) {
+			value += item.slice(1);
+		} else if (isRecord(item) && typeof item['VAR='] === 'string') {
+			if (value === null) {
+				report.error(
+					`variable ${item['VAR=']}`,
+					'must start as a number, string or boolean, ignored'
+				);
+			} else {
+				variables[item['VAR=']] = value;
+			}
+			value = null;
+		} else if (
+			!['ev', '/ev', '/str', 'end', 'done'].includes(item as string)
+		) {
+			value = null;
+		}
+	}
+	return variables;
+}
+
+function isLiteral(item: unknown): item is number | boolean {
+	return (
+		typeof item === 'boolean' ||
+		(typeof item === 'number' && Number.isFinite(item))
+	);
+}
+
+/**
+ * Walks a node of a story the way the Ink runtime would, recording its lines, choices, variable changes and diverts.
+ * Stops at the end of the node's flow, or where it diverts to another node
+ *
+ * @param report - Collects the problems found
+ * @param start - The node's container
+ * @param reachNode - Queues another node to be read, returning its title
+ */
+class InkTracer {
+	// Core
+	private report: ValidationReport;
+	private start: InkContainer;
+	private root: InkContainer;
+	private reachNode: (container: InkContainer) => string;
+	private path: string;
+
+	// State
+	private statements: ScriptStatement[] = [];
+	private options: ScriptOption[] = [];
+	private text = '';
+	private hasNewline = false;
+	// Glue joins the text on either side of it into one line
+	private isGlued = false;
+	private isEvaluating = false;
+	private stack: InkValue[] = [];
+	private strings: string[] = [];
+	private isInTag = false;
+	private temporaries: Map<string, InkValue> = new Map();
+
+	constructor(
+		report: ValidationReport,
+		start: InkContainer,
+		reachNode: (container: InkContainer) => string
+	) {
+		this.report = report;
+		this.start = start;
+		this.root = getRoot(start);
+		this.reachNode = reachNode;
+		this.path = `node '${getTitle(start)}'`;
+	}
+
+	public trace(): ScriptStatement[] {
+		let pointer: InkPointer | null = { container: this.start, index: 0 };
+
+		for (let steps = 0; pointer; steps++) {
+			if (steps > MAX_STEPS) {
+				this.report.error(
+					this.path,
+					'loops without reaching a choice or another knot, stopped'
+				);
+				return this.finish({ type: 'stop' });
+			}
+			pointer = this.step(pointer);
+		}
+		return this.statements;
+	}
+
+	/**
+	 * Runs the item the pointer is at
+	 * @returns Where to continue, or null once the node's flow ends
+	 */
+	private step(pointer: InkPointer): InkPointer | null {
+		const { container, index } = pointer;
+
+		// Out of content: continue after the container in its parent, unless it is only reachable by name
+		if (index >= container.content.length) {
+			if (container.parent && container.index >= 0) {
+				return {
+					container: container.parent,
+					index: container.index + 1,
+				};
+			}
+			this.finish(null);
+			return null;
+		}
+
+		const item = container.content[index];
+		const next = { container, index: index + 1 };
+
+		if (isContainer(item)) {
+			return this.enter({ container: item, index: 0 });
+		}
+		if (typeof item === 'string') {
+			return this.runCommand(item) ? next : null;
+		}
+		if (isLiteral(item)) {
+			this.stack.push({ type: 'literal', value: item });
+			return next;
+		}
+		if (isRecord(item)) {
+			return this.runObject(item, container, next);
+		}
+		return next;
+	}
+
+	/**
+	 * Moves to a pointer, ending the node's flow with a jump if it starts another node
+	 */
+	private enter(pointer: InkPointer): InkPointer | null {
+		if (
+			pointer.index === 0 &&
+			pointer.container !== this.start &&
+			isNode(pointer.container)
+		) {
+			this.finish({
+				type: 'jump',
+				target: this.reachNode(pointer.container),
+			});
+			return null;
+		}
+		return pointer;
+	}
+
+	/**
+	 * Runs a text or control command
+	 * @returns Whether the flow continues
+	 */
+	private runCommand(command: string): boolean {
+		if (command.startsWith('^')) {
+			this.write(command.slice(1));
+			return true;
+		}
+
+		switch (command) {
+			case '\n':
+				if (
+					!this.isEvaluating &&
+					this.strings.length === 0 &&
+					!this.isGlued
+				) {
+					this.hasNewline = this.text.trim() !== '';
+				}
+				return true;
+			case '<>':
+				this.hasNewline = false;
+				this.isGlued = true;
+				return true;
+			case 'ev':
+				this.isEvaluating = true;
+				return true;
+			case '/ev':
+				this.isEvaluating = false;
+				return true;
+			case 'str':
+				this.strings.push('');
+				return true;
+			case '/str':
+				this.stack.push({
+					type: 'literal',
+					value: this.strings.pop() ?? '',
+				});
+				return true;
+			case '#':
+				this.isInTag = true;
+				return true;
+			case '/#':
+				this.isInTag = false;
+				return true;
+			case 'nop':
+				return true;
+			case 'pop':
+				this.stack.pop();
+				return true;
+			case 'du':
+				this.stack.push(this.stack[this.stack.length - 1]);
+				return true;
+			case 'out': {
+				const value = this.stack.pop();
+				if (value?.type === 'literal') {
+					this.write(String(value.value));
+				} else {
+					this.report.warn(
+						this.path,
+						'prints a variable or expression, which is not supported'
+					);
+				}
+				return true;
+			}
+			case 'done':
+				this.finish(null);
+				return false;
+			case 'end':
+				this.finish({ type: 'stop' });
+				return false;
+			case '!':
+				this.stack.push(this.negate(this.stack.pop()));
+				return true;
+			case '&&':
+			case '||': {
+				const right = this.stack.pop();
+				const left = this.stack.pop();
+				this.stack.push(this.combine(left, command, right));
+				return true;
+			}
+		}
+
+		if (COMPARISONS.includes(command)) {
+			const right = this.stack.pop();
+			const left = this.stack.pop();
+			this.stack.push(this.compare(left, command, right));
+			return true;
+		}
+
+		this.report.error(
+			this.path,
+			`uses '${command}', which is not supported, stopped there`
+		);
+		this.finish({ type: 'stop' });
+		return false;
+	}
+
+	/**
+	 * Runs a divert, variable or choice point
+	 * @returns Where to continue, or null once the node's flow ends
+	 */
+	private runObject(
+		item: Record<string, unknown>,
+		container: InkContainer,
+		next: InkPointer
+	): InkPointer | null {
+		if (typeof item['->'] === 'string') {
+			if (item.c === true) {
+				this.stack.pop();
+				this.report.error(
+					this.path,
+					'has conditional content, which is not supported and is left out'
+				);
+				return next;
+			}
+
+			const target =
+				item.var === true
+					? this.temporaries.get(item['->'])
+					: this.resolve(container, item['->']);
+			if (!target || target.type !== 'divert') {
+				this.report.error(
+					this.path,
+					`diverts to '${item['->']}', which could not be found, stopped there`
+				);
+				this.finish({ type: 'stop' });
+				return null;
+			}
+			return this.enter(target.pointer);
+		}
+
+		if (typeof item['^->'] === 'string') {
+			this.stack.push(
+				this.resolve(container, item['^->']) ?? { type: 'unsupported' }
+			);
+			return next;
+		}
+
+		if (typeof item['temp='] === 'string') {
+			this.temporaries.set(
+				item['temp='],
+				this.stack.pop() ?? { type: 'unsupported' }
+			);
+			return next;
+		}
+
+		if (typeof item['VAR='] === 'string') {
+			this.assign(item['VAR='], this.stack.pop());
+			return next;
+		}
+
+		if (typeof item['VAR?'] === 'string') {
+			this.stack.push({
+				type: 'condition',
+				source: item['VAR?'],
+				isVariable: true,
+			});
+			return next;
+		}
+
+		if (typeof item['*'] === 'string') {
+			this.addOption(item['*'], Number(item.flg ?? 0), container);
+			return next;
+		}
+
+		// Tags
+		if ('#' in item) {
+			return next;
+		}
+
+		this.report.error(
+			this.path,
+			`uses ${JSON.stringify(item).slice(0, 40)}, which is not supported, stopped there`
+		);
+		this.finish({ type: 'stop' });
+		return null;
+	}
+
+	private resolve(container: InkContainer, path: string): InkValue | null {
+		const pointer = resolvePath(this.root, container, path);
+		return pointer ? { type: 'divert', pointer } : null;
+	}
+
+	private write(text: string): void {
+		if (this.isInTag) return;
+
+		if (this.strings.length > 0) {
+			this.strings[this.strings.length - 1] += text;
+			return;
+		}
+		if (this.hasNewline) {
+			this.flushLine();
+		}
+		this.text += text;
+		this.isGlued &&= text.trim() === '';
+	}
+
+	private flushLine(): void {
+		const text = this.text.trim();
+		if (text) {
+			this.statements.push({ type: 'line', ...parseSpeakerLine(text) });
+		}
+		this.text = '';
+		this.hasNewline = false;
+		this.isGlued = false;
+	}
+
+	private assign(name: string, value: InkValue | undefined): void {
+		if (value?.type !== 'literal') {
+			this.report.error(
+				this.path,
+				`sets ${name} to an expression, only numbers, strings and booleans are supported, ignored`
+			);
+			return;
+		}
+
+		// Set along with the line after it
+		this.flushLine();
+		this.statements.push({
+			type: 'set',
+			variables: { [name]: value.value },
+		});
+	}
+
+	/**
+	 * Reads a choice point, whose text and condition were evaluated before it
+	 */
+	private addOption(
+		targetPath: string,
+		flags: number,
+		container: InkContainer
+	): void {
+		const condition =
+			flags & CHOICE_HAS_CONDITION ? this.stack.pop() : undefined;
+		const choiceOnlyText =
+			flags & CHOICE_HAS_CHOICE_ONLY_CONTENT
+				? this.stack.pop()
+				: undefined;
+		const startText =
+			flags & CHOICE_HAS_START_CONTENT ? this.stack.pop() : undefined;
+
+		if (flags & CHOICE_IS_INVISIBLE_DEFAULT) {
+			this.report.error(
+				this.path,
+				'has a fallback choice, which is not supported and is left out'
+			);
+			return;
+		}
+
+		const target = resolvePath(this.root, container, targetPath);
+		if (!target) {
+			this.report.error(
+				this.path,
+				`has a choice leading to '${targetPath}', which could not be found, left out`
+			);
+			return;
+		}
+
+		const text = [startText, choiceOnlyText]
+			.map(value =>
+				value?.type === 'literal' ? String(value.value) : ''
+			)
+			.join('')
+			.trim();
+		const option: ScriptOption = {
+			text,
+			body: [{ type: 'jump', target: this.reachNode(target.container) }],
+		};
+		if (condition) {
+			if (condition.type !== 'condition') {
+				this.report.error(
+					this.path,
+					`has a choice '${text}' with an unsupported condition, left out`
+				);
+				return;
+			}
+			option.if = condition.source;
+		}
+		this.options.push(option);
+	}
+
+	private negate(value: InkValue | undefined): InkValue {
+		if (value?.type !== 'condition') return { type: 'unsupported' };
+		return {
+			type: 'condition',
+			source: `!(${value.source})`,
+			isVariable: false,
+		};
+	}
+
+	private combine(
+		left: InkValue | undefined,
+		operator: string,
+		right: InkValue | undefined
+	): InkValue {
+		if (left?.type !== 'condition' || right?.type !== 'condition') {
+			return { type: 'unsupported' };
+		}
+		return {
+			type: 'condition',
+			source: `(${left.source}) ${operator} (${right.source})`,
+			isVariable: false,
+		};
+	}
+
+	/**
+	 * Compares a variable with a literal, the only comparison dialogue conditions support
+	 */
+	private compare(
+		left: InkValue | undefined,
+		operator: string,
+		right: InkValue | undefined
+	): InkValue {
+		const source =
+			left?.type === 'condition' &&
+			left.isVariable &&
+			right?.type === 'literal'
+				? `${left.source} ${operator} ${formatLiteral(right.value)}`
+				: right?.type === 'condition' &&
+					  right.isVariable &&
+					  left?.type === 'literal'
+					? `${right.source} ${FLIPPED_COMPARISONS[operator]} ${formatLiteral(left.value)}`
+					: null;
+		return source === null
+			? { type: 'unsupported' }
+			: { type: 'condition', source, isVariable: false };
+	}
+
+	/**
+	 * Ends the node's flow, offering the choices collected on the way, unless the story ends
+	 * @param statement - How the flow ends, or null if it runs out, like at DONE
+	 */
+	private finish(statement: ScriptStatement | null): ScriptStatement[] {
+		this.flushLine();
+		if (this.options.length > 0 && statement?.type !== 'stop') {
+			this.statements.push({ type: 'options', options: this.options });
+			this.options = [];
+		}
+		if (statement) {
+			this.statements.push(statement);
+		}
+		return this.statements;
+	}
+}
+
+function formatLiteral(value: DialogueValue): string {
+	return typeof value === 'string' ? JSON.stringify(value) : String(value);
+}
@@ -0,0 +1,480 @@
+import {
+	Color,
+	Container,
+	Sprite,
+	Text,
+	TextMetrics,
+	TextStyle,
+	Texture,
+} from 'pixi.js';
+import type { MarkupEffect, MarkupStyle, MarkupToken } from './DialogueMarkup';
+
+/**
+ * A character rendered to a texture, shared by every rich text that shows it.
+ *
+ * @property texture - The rendered character, or null for whitespace
+ * @property width - Advance to the next character
+ * @property ascent - Height above the baseline
+ * @property descent - Depth below the baseline
+ */
+interface Glyph {
+	texture: Texture | null;
+	width: number;
+	ascent: number;
+	descent: number;
+}
+
+/**
+ * A character or emoji laid out in a rich text. Units are in reveal order, whitespace included
+ */
+interface RichTextUnit {
+	character: string; // Empty for emojis
+	sprite: Sprite | null;
+	effect: MarkupEffect | null;
+	fontSize: number;
+	width: number;
+	ascent: number;
+	descent: number;
+	margin: number;
+	// Resting position of the sprite, which effects move around
+	x: number;
+	y: number;
+}
+
+/**
+ * Renders characters to textures on first use, so that rich texts can show each character as a sprite.
+ *
+ * Glyphs are kept per character, size and style. Clear the cache when font sizes change, e.g. on resize,
+ * and lay out the rich texts using it again, since their sprites show the cleared textures.
+ *
+ * @param fontFamily - The font of every glyph
+ * @param resolution - Resolution to render glyphs at, usually the renderer's
+ */
+export class GlyphCache {
+	// UI Constants
+	private readonly GLYPH_PADDING = 0.2; // Fraction of the font size around each glyph, so that italics aren't clipped
+
+	// Core
+	private fontFamily: string;
+	private resolution: number;
+	private glyphs: Map<string, Glyph> = new Map();
+	private texts: Text[] = [];
+
+	constructor(fontFamily: string, resolution: number) {
+		this.fontFamily = fontFamily;
+		this.resolution = resolution;
+	}
+
+	/**
+	 * Gets a glyph, rendering it if it isn't cached yet
+	 * @param character - A single character
+	 * @param fontSize - Font size in pixels
+	 * @param fill - CSS color
+	 * @param bold - Bold glyph
+	 * @param italic - Italic glyph
+	 */
+	public get(
+		character: string,
+		fontSize: number,
+		fill: string,
+		bold: boolean,
+		italic: boolean
+	): Glyph {
+		const key = `${character}|${fontSize}|${fill}|${bold}|${italic}`;
+		const cached = this.glyphs.get(key);
+		if (cached) return cached;
+
+		const style = new TextStyle({
+			fontFamily: this.fontFamily,
+			fontSize,
+			fill,
+			fontWeight: bold ? 'bold' : 'normal',
+			fontStyle: italic ? 'italic' : 'normal',
+			padding: Math.ceil(fontSize * this.GLYPH_PADDING),
+		});
+		const metrics = TextMetrics.measureText(character, style);
+
+		let texture: Texture | null = null;
+		if (character.trim() !== '') {
+			const text = new Text(character, style);
+			text.resolution = this.resolution;
+			text.updateText(false);
+			this.texts.push(text);
+			texture = text.texture;
+		}
+
+		const glyph: Glyph = {
+			texture,
+			width: metrics.width,
+			ascent: metrics.fontProperties.ascent,
+			descent: metrics.fontProperties.descent,
+		};
+		this.glyphs.set(key, glyph);
+		return glyph;
+	}
+
+	/**
+	 * Gets how many glyphs were rendered, e.g. to compare texture counts
+	 */
+	public getTextureCount(): number {
+		return this.texts.length;
+	}
+
+	/**
+	 * Destroys every glyph texture
+	 */
+	public clear(): void {
+		this.texts.forEach(text => text.destroy(true));
+		this.texts = [];
+		this.glyphs.clear();
+	}
+
+	public destroy(): void {
+		this.clear();
+	}
+}
+
+/**
+ * Options for rich text.
+ *
+ * @property glyphs - The glyph cache, which can be shared by rich texts of the same font
+ * @property emojiTextures - The emoji images, by name
+ * @property fill - Default text color, as a CSS color
+ */
+export interface RichTextOptions {
+	glyphs: GlyphCache;
+	emojiTextures: Map<string, Texture>;
+	fill: string;
+}
+
+/**
+ * Lays out parsed dialogue markup as a sprite per character and emoji, word wrapping between words.
+ *
+ * Unlike HTMLText, which rasterizes the whole text again on every change, glyphs are rendered once into a
+ * shared cache, and revealing characters only toggles their sprites. Since every character is a sprite,
+ * shake and wave effects animate per glyph in update. Characters are placed by their own width, without kerning.
+ *
+ * @param options - The rich text options
+ * @extends Container
+ */
+export class RichText extends Container {
+	// UI Constants
+	private readonly EMOJI_SCALE = 1.1; // Slightly larger than text
+	private readonly EMOJI_MARGIN = 0.1; // Fraction of the font size on each side of emojis
+	private readonly EMOJI_BASELINE = 0.8; // Fraction of emojis above the baseline, roughly centering them on the text
+	private readonly MISSING_EMOJI = '�';
+	private readonly WAVE_AMPLITUDE = 0.1; // Fraction of the font size
+	private readonly WAVE_SPEED = 0.006; // Radians per millisecond
+	private readonly WAVE_PHASE = 0.6; // Radians between neighbouring characters
+	private readonly SHAKE_AMPLITUDE = 0.05; // Fraction of the font size
+	private readonly SHAKE_INTERVAL = 50; // Milliseconds between shakes
+
+	// Core
+	private options: RichTextOptions;
+	private tokens: MarkupToken[] = [];
+	private fontSize: number = 32;
+	private wordWrapWidth: number = Number.POSITIVE_INFINITY;
+	private units: RichTextUnit[] = [];
+	private animatedUnits: RichTextUnit[] = [];
+	private visibleCharacters: number = Number.POSITIVE_INFINITY;
+	private textHeight: number = 0;
+
+	// Animation state
+	private elapsed: number = 0;
+	private shakeElapsed: number = 0;
+
+	constructor(options: RichTextOptions) {
+		super();
+		this.options = options;
+	}
+
+	/**
+	 * Lays out new text, fully shown
+	 * @param tokens - The parsed markup
+	 * @param fontSize - Default font size
+	 * @param wordWrapWidth - Width to wrap lines at
+	 */
+	public setText(
+		tokens: MarkupToken[],
+		fontSize: number,
+		wordWrapWidth: number
+	): void {
+		this.tokens = tokens;
+		this.visibleCharacters = Number.POSITIVE_INFINITY;
+		this.setSize(fontSize, wordWrapWidth);
+	}
+
+	/**
+	 * Lays out the text again for a new size, e.g. on resize
+	 * @param fontSize - Default font size
+	 * @param wordWrapWidth - Width to wrap lines at
+	 */
+	public setSize(fontSize: number, wordWrapWidth: number): void {
+		this.fontSize = fontSize;
+		this.wordWrapWidth = wordWrapWidth;
+		this.layout();
+	}
+
+	/**
+	 * Shows the first characters only, counting emojis as one. Hidden characters keep their place,
+	 * so that words don't jump between lines as they are revealed
+	 */
+	public setVisibleCharacters(count: number): void {
+		this.visibleCharacters = count;
+		this.units.forEach((unit, index) => {
+			if (unit.sprite) {
+				unit.sprite.visible = index < count;
+			}
+		});
+	}
+
+	/**
+	 * Gets the height of the laid out text, including hidden characters
+	 */
+	public getTextHeight(): number {
+		return this.textHeight;
+	}
+
+	/**
+	 * Animates shake and wave effects
+	 * @param deltaMS - Time since the last update, in milliseconds
+	 */
+	public update(deltaMS: number): void {
+		if (this.animatedUnits.length === 0) return;
+
+		this.elapsed += deltaMS;
+		this.shakeElapsed += deltaMS;
+		const isShaking = this.shakeElapsed >= this.SHAKE_INTERVAL;
+		if (isShaking) {
+			this.shakeElapsed %= this.SHAKE_INTERVAL;
+		}
+
+		this.animatedUnits.forEach((unit, index) => {
+			const sprite = unit.sprite!;
+			if (unit.effect === 'wave') {
+				sprite.y =
+					unit.y +
+					Math.sin(
+						this.elapsed * this.WAVE_SPEED - index * this.WAVE_PHASE
+					) *
+						this.WAVE_AMPLITUDE *
+						unit.fontSize;
+			} else if (isShaking) {
+				const amplitude = this.SHAKE_AMPLITUDE * unit.fontSize;
+				sprite.x = unit.x + (Math.random() * 2 - 1) * amplitude;
+				sprite.y = unit.y + (Math.random() * 2 - 1) * amplitude;
+			}
+		});
+	}
+
+	private layout(): void {
+		this.removeChildren().forEach(child => child.destroy());
+		this.units = this.createUnits();
+		this.animatedUnits = this.units.filter(
+			unit => unit.effect !== null && unit.sprite !== null
+		);
+
+		const lines = this.breakLines();
+
+		// Align each line's characters on a shared baseline, under the tallest one
+		const defaultGlyph = this.getGlyph(
+			' ',
+			this.fontSize,
+			null,
+			false,
+			false
+		);
+		let lineTop = 0;
+		lines.forEach(line => {
+			const ascent = Math.max(
+				defaultGlyph.ascent,
+				...line.map(unit => unit.ascent)
+			);
+			const descent = Math.max(
+				defaultGlyph.descent,
+				...line.map(unit => unit.descent)
+			);
+			line.forEach(unit => {
+				unit.y = lineTop + ascent - unit.ascent;
+				unit.sprite?.position.set(unit.x, unit.y);
+			});
+			lineTop += ascent + descent;
+		});
+		this.textHeight = lineTop;
+
+		this.setVisibleCharacters(this.visibleCharacters);
+	}
+
+	/**
+	 * Places units from left to right, wrapping whole words onto the next line when they don't fit.
+	 * Words wider than a line are broken between characters
+	 * @returns The units of each line
+	 */
+	private breakLines(): RichTextUnit[][] {
+		const lines: RichTextUnit[][] = [[]];
+		let x = 0;
+		const newLine = (): void => {
+			lines.push([]);
+			x = 0;
+		};
+		const place = (unit: RichTextUnit): void => {
+			unit.x = x + unit.margin;
+			x += unit.width;
+			lines[lines.length - 1].push(unit);
+		};
+
+		let i = 0;
+		while (i < this.units.length) {
+			const unit = this.units[i];
+			if (unit.character === '\n') {
+				newLine();
+				i++;
+				continue;
+			}
+			if (isWhitespace(unit)) {
+				place(unit);
+				i++;
+				continue;
+			}
+
+			// A word runs until the next whitespace
+			let end = i;
+			let wordWidth = 0;
+			while (end < this.units.length && !isWhitespace(this.units[end])) {
+				wordWidth += this.units[end].width;
+				end++;
+			}
+			if (x > 0 && x + wordWidth > this.wordWrapWidth) {
+				newLine();
+			}
+			for (; i < end; i++) {
+				if (x > 0 && x + this.units[i].width > this.wordWrapWidth) {
+					newLine();
+				}
+				place(this.units[i]);
+			}
+		}
+
+		return lines;
+	}
+
+	private createUnits(): RichTextUnit[] {
+		const units: RichTextUnit[] = [];
+		this.tokens.forEach(token => {
+			if (token.type === 'text') {
+				// Spread by code point, matching the typewriter's character count
+				for (const character of token.text) {
+					units.push(
+						this.createCharacterUnit(character, token.style)
+					);
+				}
+			} else if (token.type === 'emoji') {
+				units.push(this.createEmojiUnit(token.name, token.style));
+			}
+		});
+		return units;
+	}
+
+	private createCharacterUnit(
+		character: string,
+		style: MarkupStyle
+	): RichTextUnit {
+		const fontSize = Math.round(this.fontSize * style.size);
+		const glyph = this.getGlyph(
+			character,
+			fontSize,
+			style.color,
+			style.bold,
+			style.italic
+		);
+
+		const sprite = glyph.texture ? new Sprite(glyph.texture) : null;
+		if (sprite) {
+			this.addChild(sprite);
+		}
+
+		return {
+			character,
+			sprite,
+			effect: style.effect,
+			fontSize,
+			width: glyph.width,
+			ascent: glyph.ascent,
+			descent: glyph.descent,
+			margin: 0,
+			x: 0,
+			y: 0,
+		};
+	}
+
+	private createEmojiUnit(name: string, style: MarkupStyle): RichTextUnit {
+		const texture = this.options.emojiTextures.get(name);
+		if (!texture) {
+			return this.createCharacterUnit(this.MISSING_EMOJI, style);
+		}
+
+		const fontSize = this.fontSize * style.size;
+		const size = Math.round(fontSize * this.EMOJI_SCALE);
+		const margin = fontSize * this.EMOJI_MARGIN;
+		const sprite = new Sprite(texture);
+		sprite.width = size;
+		sprite.height = size;
+		this.addChild(sprite);
+
+		return {
+			character: '',
+			sprite,
+			effect: style.effect,
+			fontSize,
+			width: size + margin * 2,
+			ascent: size * this.EMOJI_BASELINE,
+			descent: size * (1 - this.EMOJI_BASELINE),
+			margin,
+			x: 0,
+			y: 0,
+		};
+	}
+
+	private getGlyph(
+		character: string,
+		fontSize: number,
+		color: string | null,
+		bold: boolean,
+		italic: boolean
+	): Glyph {
+		return this.options.glyphs.get(
+			character,
+			fontSize,
+			this.resolveColor(color),
+			bold,
+			italic
+		);
+	}
+
+	/**
+	 * Resolves a markup color, falling back to the default fill for colors the browser doesn't know
+	 */
+	private resolveColor(color: string | null): string {
+		if (color === null) return this.options.fill;
+
+		try {
+			return new Color(color).toHex();
+		} catch {
+			return this.options.fill;
+		}
+	}
+
+	public destroy(): void {
+		this.units = [];
+		this.animatedUnits = [];
+		// Glyph and emoji textures belong to their caches
+		super.destroy({ children: true });
+	}
+}
+
+/**
+ * Whitespace is the only thing without a sprite, since missing emojis show a placeholder glyph
+ */
+function isWhitespace(unit: RichTextUnit): boolean {
+	return unit.sprite === null;
+}
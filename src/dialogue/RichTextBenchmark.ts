@@ -0,0 +1,203 @@
+import {
+	Application,
+	HTMLText,
+	RenderTexture,
+	Sprite,
+	type Container,
+	type Texture,
+} from 'pixi.js';
+import {
+	countMarkupCharacters,
+	markupToHtml,
+	parseMarkup,
+	type MarkupToken,
+} from './DialogueMarkup';
+import { GlyphCache, RichText } from './RichText';
+
+/**
+ * Timings of a dialogue text renderer.
+ *
+ * @property renderer - The renderer measured
+ * @property lines - Number of lines shown
+ * @property lineMS - Average time to show a new line, hidden, and render it
+ * @property stepMS - Average time of a typewriter step: revealing one more character and rendering it
+ * @property rasterizations - Number of times text was drawn to a texture
+ */
+export interface DialogueTextBenchmarkResult {
+	renderer: 'HTMLText' | 'RichText';
+	lines: number;
+	lineMS: number;
+	stepMS: number;
+	rasterizations: number;
+}
+
+/**
+ * Renders a set of dialogue lines as the typewriter reveals them, with RichText and with HTMLText and base64 emojis,
+ * the path RichText replaced. Frames are rendered to an offscreen texture.
+ *
+ * HTMLText times include waiting for the browser to load its SVG image, which also delays when text shows on screen.
+ *
+ * @param app - The application, whose renderer is measured
+ * @param lines - The dialogue lines, with markup
+ * @param emojiTextures - The emoji images, by name
+ * @param fontSize - The dialogue font size
+ * @param wordWrapWidth - The dialogue text width
+ */
+export async function benchmarkDialogueText(
+	app: Application,
+	lines: string[],
+	emojiTextures: Map<string, Texture>,
+	fontSize: number,
+	wordWrapWidth: number
+): Promise<DialogueTextBenchmarkResult[]> {
+	const tokenLines = lines.map(line => parseMarkup(line));
+	const renderTexture = RenderTexture.create({
+		width: wordWrapWidth,
+		height: fontSize * 10,
+		resolution: app.renderer.resolution,
+	});
+
+	try {
+		return [
+			await benchmarkRichText(
+				app,
+				tokenLines,
+				emojiTextures,
+				fontSize,
+				wordWrapWidth,
+				renderTexture
+			),
+			await benchmarkHtmlText(
+				app,
+				tokenLines,
+				emojiTextures,
+				fontSize,
+				wordWrapWidth,
+				renderTexture
+			),
+		];
+	} finally {
+		renderTexture.destroy(true);
+	}
+}
+
+async function benchmarkRichText(
+	app: Application,
+	tokenLines: MarkupToken[][],
+	emojiTextures: Map<string, Texture>,
+	fontSize: number,
+	wordWrapWidth: number,
+	renderTexture: RenderTexture
+): Promise<DialogueTextBenchmarkResult> {
+	const glyphs = new GlyphCache('Arial, sans-serif', app.renderer.resolution);
+	const richText = new RichText({ glyphs, emojiTextures, fill: '#ffffff' });
+
+	const timings = await measureReveal(
+		app,
+		richText,
+		tokenLines,
+		renderTexture,
+		tokens => richText.setText(tokens, fontSize, wordWrapWidth),
+		count => richText.setVisibleCharacters(count)
+	);
+	const rasterizations = glyphs.getTextureCount();
+
+	richText.destroy();
+	glyphs.destroy();
+	return { renderer: 'RichText', ...timings, rasterizations };
+}
+
+async function benchmarkHtmlText(
+	app: Application,
+	tokenLines: MarkupToken[][],
+	emojiTextures: Map<string, Texture>,
+	fontSize: number,
+	wordWrapWidth: number,
+	renderTexture: RenderTexture
+): Promise<DialogueTextBenchmarkResult> {
+	// Converted ahead, as the asset loader used to
+	const emojiBase64Map = new Map<string, string>();
+	for (const [name, texture] of emojiTextures) {
+		const sprite = new Sprite(texture);
+		emojiBase64Map.set(name, await app.renderer.extract.base64(sprite));
+		sprite.destroy();
+	}
+
+	const htmlText = new HTMLText('', {
+		fontFamily: 'Arial, sans-serif',
+		fontSize,
+		fill: '#ffffff',
+		wordWrap: true,
+		wordWrapWidth,
+		align: 'left',
+		whiteSpace: 'normal',
+	});
+	let currentTokens: MarkupToken[] = [];
+	let rasterizations = 0;
+	const render = async (count: number): Promise<void> => {
+		htmlText.text = markupToHtml(
+			currentTokens,
+			emojiBase64Map,
+			fontSize,
+			count
+		);
+		await htmlText.updateText();
+		rasterizations++;
+	};
+
+	const timings = await measureReveal(
+		app,
+		htmlText,
+		tokenLines,
+		renderTexture,
+		// Drawn when the line is first revealed
+		tokens => {
+			currentTokens = tokens;
+		},
+		render
+	);
+
+	htmlText.destroy();
+	return { renderer: 'HTMLText', ...timings, rasterizations };
+}
+
+/**
+ * Shows every line, then reveals it a character at a time, rendering a frame after every change
+ * @param setLine - Shows a new line
+ * @param setRevealed - Reveals the first characters of the line
+ */
+async function measureReveal(
+	app: Application,
+	target: Container,
+	tokenLines: MarkupToken[][],
+	renderTexture: RenderTexture,
+	setLine: (tokens: MarkupToken[]) => void | Promise<void>,
+	setRevealed: (count: number) => void | Promise<void>
+): Promise<Pick<DialogueTextBenchmarkResult, 'lines' | 'lineMS' | 'stepMS'>> {
+	let lineMS = 0;
+	let stepMS = 0;
+	let steps = 0;
+
+	for (const tokens of tokenLines) {
+		let start = performance.now();
+		await setLine(tokens);
+		await setRevealed(0);
+		app.renderer.render(target, { renderTexture });
+		lineMS += performance.now() - start;
+
+		const characterCount = countMarkupCharacters(tokens);
+		for (let count = 1; count <= characterCount; count++) {
+			start = performance.now();
+			await setRevealed(count);
+			app.renderer.render(target, { renderTexture });
+			stepMS += performance.now() - start;
+			steps++;
+		}
+	}
+
+	return {
+		lines: tokenLines.length,
+		lineMS: lineMS / Math.max(1, tokenLines.length),
+		stepMS: stepMS / Math.max(1, steps),
+	};
+}
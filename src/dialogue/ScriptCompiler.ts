@@ -0,0 +1,359 @@
+import { ValidationReport, isRecord, describeType } from '../core/Validation';
+import type { DialogueVariables } from './DialogueConditions';
+import type {
+	DialogueChoice,
+	DialogueData,
+	DialogueLine,
+} from './DialogueData';
+
+/**
+ * A step of an imported script, before it is compiled to dialogue lines.
+ * Scripts written in other tools, such as Yarn Spinner and Ink, are read into these first.
+ */
+export type ScriptStatement =
+	| { type: 'line'; name: string; text: string }
+	| { type: 'set'; variables: DialogueVariables }
+	| { type: 'jump'; target: string }
+	| { type: 'stop' }
+	| { type: 'options'; options: ScriptOption[] };
+
+/**
+ * An option offered after a line. Once its statements run out, the script continues after the options
+ *
+ * @property text - The button label
+ * @property if - Optional condition the option is only offered under
+ * @property body - The statements that run when the option is picked
+ */
+export interface ScriptOption {
+	text: string;
+	if?: string;
+	body: ScriptStatement[];
+}
+
+/**
+ * A named part of an imported script that jumps can go to, such as a Yarn node or an Ink knot.
+ * The script ends once the statements of a node run out
+ */
+export interface ScriptNode {
+	title: string;
+	body: ScriptStatement[];
+}
+
+/**
+ * An imported script in the endpoint's format. Its emojis and avatars are copied from the cast file as they are,
+ * so it still has to be validated with validateDialogueData
+ */
+export type ImportedDialogue = Omit<DialogueData, 'emojies' | 'avatars'> & {
+	emojies: unknown;
+	avatars: unknown;
+};
+
+// Speaker of lines that don't name one
+const NARRATOR_NAME = 'Narrator';
+
+/**
+ * Where a block of statements goes once it runs out
+ */
+type BlockExit = { next: string } | { end: true };
+
+interface CompiledBlock {
+	lines: DialogueLine[];
+	// Variables set by a block without lines, left for its option to set
+	sets: DialogueVariables;
+	exit: BlockExit;
+}
+
+interface CompileContext {
+	report: ValidationReport;
+	titles: Set<string>;
+	generatedIds: number;
+}
+
+/**
+ * Splits the speaker off a line written as `Name: text`. Lines without one are spoken by the narrator
+ */
+export function parseSpeakerLine(source: string): {
+	name: string;
+	text: string;
+} {
+	const match = /^([^:]+):\s*(.*)$/.exec(source);
+	if (!match || !match[1].trim() || !match[2]) {
+		return { name: NARRATOR_NAME, text: source.trim() };
+	}
+	return { name: match[1].trim(), text: match[2].trim() };
+}
+
+/**
+ * Compiles the nodes of an imported script to dialogue lines. The first node is where the dialogue starts.
+ *
+ * Lines of a node play in order, and every jump, option and node end becomes a link, so that nodes can be laid out
+ * in any order. Variables set between lines are set along with the line that follows them, or with the line before
+ * them at the end of a block.
+ *
+ * @param report - Collects the problems found
+ * @param nodes - The script's nodes
+ * @param variables - Initial values of the script's variables
+ * @param cast - The parsed cast file, with the emojis and avatars of the script
+ * @returns The script in the endpoint's format, or null if it has no lines
+ */
+export function compileScript(
+	report: ValidationReport,
+	nodes: ScriptNode[],
+	variables: DialogueVariables,
+	cast: unknown
+): ImportedDialogue | null {
+	const context: CompileContext = {
+		report,
+		titles: new Set(nodes.map(node => node.title)),
+		generatedIds: 0,
+	};
+
+	// Nodes without lines only pass on to where they exit, so links to them are followed through
+	const linesByTitle = new Map<string, DialogueLine[]>();
+	const passThroughs = new Map<string, BlockExit>();
+	nodes.forEach(node => {
+		const path = `node '${node.title}'`;
+		const block = compileBlock(context, node.body, { end: true }, path);
+		if (block.lines.length > 0) {
+			block.lines[0].id = node.title;
+			linesByTitle.set(node.title, block.lines);
+			return;
+		}
+
+		if (Object.keys(block.sets).length > 0) {
+			report.warn(path, 'sets variables without a line, ignored');
+		}
+		passThroughs.set(node.title, block.exit);
+	});
+
+	const resolve = (title: string): BlockExit => {
+		const visited = new Set<string>();
+		let exit: BlockExit = { next: title };
+		while ('next' in exit && passThroughs.has(exit.next)) {
+			if (visited.has(exit.next)) {
+				report.error(
+					`node '${exit.next}'`,
+					'jumps in a loop without a line, ends the dialogue instead'
+				);
+				return { end: true };
+			}
+			visited.add(exit.next);
+			exit = passThroughs.get(exit.next)!;
+		}
+		return exit;
+	};
+
+	const lines = [...linesByTitle.values()].flat();
+	lines.forEach(line => {
+		resolveLink(line, resolve);
+		line.choices?.forEach(choice => resolveLink(choice, resolve));
+	});
+
+	// The dialogue starts at the first line, so the start node goes first
+	const start = nodes.length > 0 ? resolve(nodes[0].title) : { end: true };
+	if (!('next' in start)) {
+		report.error('(script)', 'has no lines');
+		return null;
+	}
+	const startLines = linesByTitle.get(start.next)!;
+
+	return {
+		dialogue: [
+			...startLines,
+			...lines.filter(line => !startLines.includes(line)),
+		],
+		...readCast(report, cast),
+		variables,
+	};
+}
+
+/**
+ * Compiles a block of statements, linking its last line to the exit unless it jumps or stops first
+ * @param exit - Where the block goes once it runs out
+ * @param path - Where the block is, for problems
+ */
+function compileBlock(
+	context: CompileContext,
+	statements: ScriptStatement[],
+	exit: BlockExit,
+	path: string
+): CompiledBlock {
+	const lines: DialogueLine[] = [];
+	let previous: DialogueLine | null = null;
+	let sets: DialogueVariables = {};
+	let blockExit = exit;
+
+	for (let i = 0; i < statements.length; i++) {
+		const statement = statements[i];
+
+		if (statement.type === 'line') {
+			const line: DialogueLine = {
+				name: statement.name,
+				text: statement.text,
+			};
+			if (Object.keys(sets).length > 0) {
+				line.set = sets;
+				sets = {};
+			}
+			lines.push(line);
+			previous = line;
+		} else if (statement.type === 'set') {
+			sets = { ...sets, ...statement.variables };
+		} else if (statement.type === 'jump' || statement.type === 'stop') {
+			blockExit = { end: true };
+			if (statement.type === 'jump') {
+				if (context.titles.has(statement.target)) {
+					blockExit = { next: statement.target };
+				} else {
+					context.report.error(
+						path,
+						`jumps to unknown node '${statement.target}', ends the dialogue instead`
+					);
+				}
+			}
+			if (i < statements.length - 1) {
+				context.report.warn(
+					path,
+					'has statements after a jump or stop that never run, ignored'
+				);
+			}
+			break;
+		} else {
+			if (!previous) {
+				context.report.error(
+					path,
+					'has options without a line before them, ignored'
+				);
+				continue;
+			}
+
+			// Options are shown after the line before them, and every option continues with the statements after them
+			const rest = compileBlock(
+				context,
+				statements.slice(i + 1),
+				blockExit,
+				path
+			);
+			if (Object.keys(rest.sets).length > 0) {
+				context.report.error(
+					path,
+					'sets variables after options without a line after them, ignored'
+				);
+			}
+			const restExit: BlockExit =
+				rest.lines.length > 0
+					? { next: getLineId(context, rest.lines[0]) }
+					: rest.exit;
+
+			mergeSets(previous, sets);
+			const optionLines: DialogueLine[] = [];
+			const choices = statement.options
+				.map(option => {
+					const body = compileOption(context, option, restExit, path);
+					optionLines.push(...(body?.lines ?? []));
+					return body?.choice ?? null;
+				})
+				.filter((choice): choice is DialogueChoice => choice !== null);
+			if (choices.length > 0) {
+				previous.choices = choices;
+			}
+
+			// Followed when none of the options can be offered
+			applyExit(previous, restExit);
+			lines.push(...optionLines, ...rest.lines);
+			return { lines, sets: {}, exit: rest.exit };
+		}
+	}
+
+	if (previous) {
+		mergeSets(previous, sets);
+		applyExit(previous, blockExit);
+		return { lines, sets: {}, exit: blockExit };
+	}
+	return { lines, sets, exit: blockExit };
+}
+
+function compileOption(
+	context: CompileContext,
+	option: ScriptOption,
+	exit: BlockExit,
+	path: string
+): { choice: DialogueChoice; lines: DialogueLine[] } {
+	const body = compileBlock(
+		context,
+		option.body,
+		exit,
+		`${path} option '${option.text}'`
+	);
+	const choice: DialogueChoice = { text: option.text };
+	if (option.if !== undefined) {
+		choice.if = option.if;
+	}
+	if (Object.keys(body.sets).length > 0) {
+		choice.set = body.sets;
+	}
+
+	if (body.lines.length > 0) {
+		choice.next = getLineId(context, body.lines[0]);
+	} else {
+		applyExit(choice, body.exit);
+	}
+	return { choice, lines: body.lines };
+}
+
+/**
+ * Gets the id of a line, giving it one if it has none, for links to it
+ */
+function getLineId(context: CompileContext, line: DialogueLine): string {
+	line.id ??= `#${++context.generatedIds}`;
+	return line.id;
+}
+
+function applyExit(
+	target: DialogueLine | DialogueChoice,
+	exit: BlockExit
+): void {
+	if ('next' in exit) {
+		target.next = exit.next;
+	} else {
+		target.end = true;
+	}
+}
+
+/**
+ * Points links to nodes without lines at where those nodes exit
+ */
+function resolveLink(
+	target: DialogueLine | DialogueChoice,
+	resolve: (title: string) => BlockExit
+): void {
+	if (target.next === undefined) return;
+
+	const exit = resolve(target.next);
+	if ('next' in exit) {
+		target.next = exit.next;
+	} else {
+		delete target.next;
+		target.end = true;
+	}
+}
+
+function mergeSets(line: DialogueLine, variables: DialogueVariables): void {
+	if (Object.keys(variables).length > 0) {
+		line.set = { ...line.set, ...variables };
+	}
+}
+
+/**
+ * Reads the emojis and avatars of a cast file. They are validated along with the rest of the script
+ */
+function readCast(
+	report: ValidationReport,
+	cast: unknown
+): Pick<ImportedDialogue, 'emojies' | 'avatars'> {
+	if (!isRecord(cast)) {
+		report.error('(cast)', `must be an object, got ${describeType(cast)}`);
+		return { emojies: [], avatars: [] };
+	}
+	return { emojies: cast.emojies ?? [], avatars: cast.avatars ?? [] };
+}
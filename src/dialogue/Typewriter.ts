@@ -0,0 +1,151 @@
+import { Animation } from '../core/Tween';
+import type { MarkupToken } from './DialogueMarkup';
+
+/**
+ * A step of the reveal: a character or a whole emoji, shown after a delay along with any sound cues before it
+ */
+interface RevealStep {
+	delayMS: number;
+	cues: string[];
+}
+
+/**
+ * Options for a typewriter reveal.
+ *
+ * @property charactersPerSecond - Reveal rate. Emojis count as one character
+ * @property onUpdate - Callback whenever more of the text is revealed, and once when the reveal starts
+ * @property onCue - Optional callback when the reveal reaches a sound cue
+ * @property onComplete - Optional callback when the text is fully revealed, including when completed early
+ */
+export interface TypewriterOptions {
+	charactersPerSecond: number;
+	onUpdate: (revealedCharacters: number) => void;
+	onCue?: (alias: string) => void;
+	onComplete?: () => void;
+}
+
+/**
+ * Reveals parsed dialogue markup a character at a time, run by a tween manager.
+ *
+ * Emojis are revealed whole. Pauses hold the reveal for their duration, and sound cues are reported
+ * as the reveal reaches them. Cues still pending when the reveal is completed early are skipped.
+ *
+ * @param tokens - The parsed dialogue text
+ * @param options - The typewriter options
+ */
+export class Typewriter extends Animation {
+	// Core
+	private steps: RevealStep[] = [];
+	private characterCount: number = 0;
+	private options: TypewriterOptions;
+
+	// Animation state
+	private revealedSteps: number = 0;
+	private elapsed: number = 0;
+	private isStarted: boolean = false;
+
+	constructor(tokens: MarkupToken[], options: TypewriterOptions) {
+		super();
+		this.options = options;
+		this.parse(tokens);
+	}
+
+	/**
+	 * Gets how many characters are revealed, counting emojis as one
+	 */
+	public getRevealedCount(): number {
+		return Math.min(this.revealedSteps, this.characterCount);
+	}
+
+	public isRevealed(): boolean {
+		return this.revealedSteps >= this.steps.length;
+	}
+
+	/**
+	 * Reveals the rest of the text at once
+	 */
+	public complete(): void {
+		if (!this.isActive()) return;
+
+		this.revealedSteps = this.steps.length;
+		this.notifyUpdate();
+		this.finish();
+		this.options.onComplete?.();
+	}
+
+	protected advance(deltaMS: number): number {
+		if (!this.isStarted) {
+			this.isStarted = true;
+			this.notifyUpdate();
+		}
+
+		this.elapsed += deltaMS;
+		const revealedBefore = this.revealedSteps;
+		while (
+			!this.isRevealed() &&
+			this.elapsed >= this.steps[this.revealedSteps].delayMS
+		) {
+			const step = this.steps[this.revealedSteps];
+			this.elapsed -= step.delayMS;
+			this.revealedSteps++;
+			step.cues.forEach(alias => this.options.onCue?.(alias));
+		}
+		if (this.revealedSteps > revealedBefore) {
+			this.notifyUpdate();
+		}
+
+		if (!this.isRevealed()) return 0;
+
+		this.finish();
+		this.options.onComplete?.();
+		return this.elapsed;
+	}
+
+	/**
+	 * Splits the tokens into reveal steps, adding pauses to the delay of the step that follows them
+	 */
+	private parse(tokens: MarkupToken[]): void {
+		const characterDelay = 1000 / this.options.charactersPerSecond;
+		let pendingPause = 0;
+		let pendingCues: string[] = [];
+
+		const addStep = (): void => {
+			this.steps.push({
+				delayMS: characterDelay + pendingPause,
+				cues: pendingCues,
+			});
+			this.characterCount++;
+			pendingPause = 0;
+			pendingCues = [];
+		};
+
+		tokens.forEach(token => {
+			switch (token.type) {
+				case 'text':
+					// Spread by code point, so emoji characters aren't split in half
+					for (let i = [...token.text].length; i > 0; i--) {
+						addStep();
+					}
+					break;
+				case 'emoji':
+					addStep();
+					break;
+				case 'pause':
+					pendingPause += token.durationMS;
+					break;
+				case 'sound':
+					pendingCues.push(token.alias);
+					break;
+			}
+		});
+
+		// A trailing pause holds the reveal open, keeping the continue prompt hidden
+		if (pendingPause > 0 || pendingCues.length > 0) {
+			this.steps.push({ delayMS: pendingPause, cues: pendingCues });
+		}
+	}
+
+	private notifyUpdate(): void {
+		this.options.onUpdate(this.getRevealedCount());
+	}
+}
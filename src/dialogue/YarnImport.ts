@@ -0,0 +1,334 @@
+import { ValidationReport, type ValidationResult } from '../core/Validation';
+import { parseCondition, type DialogueVariables } from './DialogueConditions';
+import {
+	compileScript,
+	parseSpeakerLine,
+	type ImportedDialogue,
+	type ScriptNode,
+	type ScriptOption,
+	type ScriptStatement,
+} from './ScriptCompiler';
+
+/**
+ * A line of a node body, with its indentation, which nests option bodies under their options
+ */
+interface BodyLine {
+	number: number;
+	indent: number;
+	text: string;
+}
+
+// Yarn's word operators, and their equivalents in dialogue conditions
+const YARN_OPERATORS = new Map([
+	['and', '&&'],
+	['or', '||'],
+	['not', '!'],
+	['is', '=='],
+	['eq', '=='],
+	['neq', '!='],
+	['gt', '>'],
+	['lt', '<'],
+	['gte', '>='],
+	['lte', '<='],
+]);
+
+/**
+ * Imports a Yarn Spinner script, see ScriptCompiler.
+ *
+ * Supports a subset of Yarn: nodes, lines with an optional `Name:` speaker, options (`->`) with their indented bodies
+ * and `<<if>>` conditions, `<<jump>>`, `<<stop>>`, and `<<declare>>` and `<<set>>` with plain values rather than
+ * expressions. Dialogue starts at the Start node, or at the first node if there is none.
+ * Other commands, such as `<<if>>` blocks, and inline expressions aren't supported and are reported.
+ * Line text is kept as it is, so it can use the dialogue markup, such as `{emoji}` references. Line tags are dropped.
+ *
+ * @param source - The Yarn script
+ * @param cast - The parsed cast file, with the emojis and avatars of the script
+ * @returns The script in the endpoint's format, still to be validated, or null if it was rejected
+ */
+export function importYarn(
+	source: string,
+	cast: unknown
+): ValidationResult<ImportedDialogue> {
+	const report = new ValidationReport();
+	const variables: DialogueVariables = {};
+	const nodes: ScriptNode[] = [];
+
+	splitNodes(report, source).forEach(({ headers, body, number }) => {
+		const title = headers.get('title');
+		if (!title || !/^[A-Za-z_][\w.]*$/.test(title)) {
+			report.error(
+				`line ${number}`,
+				title
+					? `node title '${title}' must be a letter or underscore followed by letters, digits, underscores or dots`
+					: 'node has no title, ignored'
+			);
+			return;
+		}
+		if (nodes.some(node => node.title === title)) {
+			report.error(
+				`line ${number}`,
+				`duplicates node '${title}', ignored`
+			);
+			return;
+		}
+
+		const [statements] = parseStatements(report, variables, body, 0, -1);
+		nodes.push({ title, body: statements });
+	});
+
+	// Dialogue starts at the Start node, by convention
+	const startIndex = nodes.findIndex(node => node.title === 'Start');
+	if (startIndex > 0) {
+		nodes.unshift(...nodes.splice(startIndex, 1));
+	}
+
+	return report.result(compileScript(report, nodes, variables, cast));
+}
+
+/**
+ * Splits a script into nodes: headers such as `title: Start`, then `---`, the body and `===`
+ */
+function splitNodes(
+	report: ValidationReport,
+	source: string
+): { headers: Map<string, string>; body: BodyLine[]; number: number }[] {
+	const nodes: {
+		headers: Map<string, string>;
+		body: BodyLine[];
+		number: number;
+	}[] = [];
+	let headers = new Map<string, string>();
+	let body: BodyLine[] | null = null;
+	let nodeStart = 1;
+
+	for (const [i, rawLine] of source.split(/\r?\n/).entries()) {
+		const number = i + 1;
+		const line = stripComment(rawLine);
+		const text = line.trim();
+
+		if (body === null) {
+			if (text === '---') {
+				body = [];
+			} else if (text) {
+				const header = /^([\w-]+)\s*:\s*(.*)$/.exec(text);
+				if (header) {
+					if (headers.size === 0) nodeStart = number;
+					headers.set(header[1], header[2].trim());
+				} else {
+					report.error(
+						`line ${number}`,
+						'must be a header, such as title: Start, or ---'
+					);
+				}
+			}
+		} else if (text === '===') {
+			nodes.push({ headers, body, number: nodeStart });
+			headers = new Map();
+			body = null;
+		} else if (text) {
+			body.push({
+				number,
+				indent: line.length - line.trimStart().length,
+				text,
+			});
+		}
+	}
+
+	if (body !== null) {
+		report.error(`line ${nodeStart}`, 'node is missing its closing ===');
+		nodes.push({ headers, body, number: nodeStart });
+	}
+	return nodes;
+}
+
+/**
+ * Drops a `//` comment, unless it is part of a URL
+ */
+function stripComment(line: string): string {
+	return line.replace(/(^|\s)\/\/.*$/, '');
+}
+
+/**
+ * Reads statements until a line is indented no deeper than the enclosing option
+ * @param parentIndent - Indentation of the enclosing option, or -1 for a node body
+ * @returns The statements, and the index of the first line after them
+ */
+function parseStatements(
+	report: ValidationReport,
+	variables: DialogueVariables,
+	lines: BodyLine[],
+	start: number,
+	parentIndent: number
+): [ScriptStatement[], number] {
+	const statements: ScriptStatement[] = [];
+	let index = start;
+
+	while (index < lines.length && lines[index].indent > parentIndent) {
+		const line = lines[index];
+
+		if (!line.text.startsWith('->')) {
+			const statement = parseStatement(report, variables, line);
+			if (statement) {
+				statements.push(statement);
+			}
+			index++;
+			continue;
+		}
+
+		// Consecutive options at the same indentation are offered together
+		const options: ScriptOption[] = [];
+		while (
+			index < lines.length &&
+			lines[index].indent === line.indent &&
+			lines[index].text.startsWith('->')
+		) {
+			const optionLine = lines[index];
+			const [body, next] = parseStatements(
+				report,
+				variables,
+				lines,
+				index + 1,
+				optionLine.indent
+			);
+			const option = parseOption(report, optionLine, body);
+			if (option) {
+				options.push(option);
+			}
+			index = next;
+		}
+		statements.push({ type: 'options', options });
+	}
+
+	return [statements, index];
+}
+
+function parseOption(
+	report: ValidationReport,
+	line: BodyLine,
+	body: ScriptStatement[]
+): ScriptOption | null {
+	const path = `line ${line.number}`;
+	const match = /^->\s*(.*?)\s*(?:<<\s*if\s+(.*?)\s*>>)?$/.exec(
+		stripTags(line.text)
+	);
+	const text = match?.[1] ?? '';
+	if (!text) {
+		report.error(path, 'option has no text, ignored');
+		return null;
+	}
+
+	const option: ScriptOption = { text, body };
+	if (match?.[2] !== undefined) {
+		const condition = convertCondition(match[2]);
+		try {
+			parseCondition(condition);
+		} catch (error) {
+			report.error(path, `${(error as Error).message}, option ignored`);
+			return null;
+		}
+		option.if = condition;
+	}
+	return option;
+}
+
+function parseStatement(
+	report: ValidationReport,
+	variables: DialogueVariables,
+	line: BodyLine
+): ScriptStatement | null {
+	const path = `line ${line.number}`;
+	const command = /^<<\s*(\w+)\s*(.*?)\s*>>$/.exec(line.text);
+	if (!command) {
+		const text = stripTags(line.text);
+		if (/\{\s*\$/.test(text)) {
+			report.warn(path, 'inline expressions are not supported');
+		}
+		return { type: 'line', ...parseSpeakerLine(text) };
+	}
+
+	const [, name, argument] = command;
+	switch (name) {
+		case 'jump':
+			if (/^[A-Za-z_][\w.]*$/.test(argument)) {
+				return { type: 'jump', target: argument };
+			}
+			report.error(
+				path,
+				`can only jump to a node title, got '${argument}'`
+			);
+			return { type: 'stop' };
+		case 'stop':
+			return { type: 'stop' };
+		case 'declare':
+		case 'set': {
+			const assignment = parseAssignment(argument);
+			if (!assignment) {
+				report.error(
+					path,
+					`<<${name}>> can only give a variable a number, string or boolean, such as $trust to 2, ignored`
+				);
+				return null;
+			}
+			if (name === 'declare') {
+				variables[assignment.name] = assignment.value;
+				return null;
+			}
+			return {
+				type: 'set',
+				variables: { [assignment.name]: assignment.value },
+			};
+		}
+		case 'if':
+		case 'elseif':
+		case 'else':
+		case 'endif':
+			report.error(
+				path,
+				`<<${name}>> blocks are not supported, their content always plays`
+			);
+			return null;
+		default:
+			report.warn(path, `<<${name}>> is not supported, ignored`);
+			return null;
+	}
+}
+
+/**
+ * Parses `$name to value` or `$name = value`, where the value is a number, a quoted string or a boolean
+ */
+function parseAssignment(
+	argument: string
+): { name: string; value: number | string | boolean } | null {
+	const match =
+		/^\$([A-Za-z_]\w*)\s*(?:to|=)\s*(-?\d+(?:\.\d+)?|"[^"]*"|true|false)$/.exec(
+			argument
+		);
+	if (!match) return null;
+
+	const [, name, value] = match;
+	if (value === 'true' || value === 'false') {
+		return { name, value: value === 'true' };
+	}
+	if (value.startsWith('"')) {
+		return { name, value: value.slice(1, -1) };
+	}
+	return { name, value: Number(value) };
+}
+
+/**
+ * Converts a Yarn condition, such as `$trust gte 2 and not $angry`, to a dialogue condition
+ */
+function convertCondition(source: string): string {
+	return source.replace(
+		/("[^"]*"|'[^']*')|\$?([A-Za-z_]\w*)/g,
+		(_match, quoted: string | undefined, word: string | undefined) =>
+			quoted ?? YARN_OPERATORS.get(word!) ?? word!
+	);
+}
+
+/**
+ * Drops hashtags from the end of a line, such as #line:a1b2c3
+ */
+function stripTags(text: string): string {
+	return text.replace(/(\s+#[^\s#]+)+\s*$/, '').trim();
+}
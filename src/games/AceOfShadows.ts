@@ -1,43 +1,82 @@
 import { Sprite, Assets, Container } from 'pixi.js';
 import { Button } from '../ui/Button';
 import { Game } from '../core/Game';
+import { registerGame } from '../core/GameRegistry';
 import { scaled, resizeToFit } from '../core/Utils';
-import { sound } from '@pixi/sound';
-
-interface VideoFadeAnimation {
-	isActive: boolean;
-	duration: number;
-	fadeTimeElapsed: number;
-	isFadeIn: boolean;
-}
+import { i18n } from '../core/I18n';
+import { Easing } from '../core/Tween';
+import { audio } from '../core/AudioManager';
+import { logValidationResult } from '../core/Validation';
+import {
+	readDeckSettings,
+	writeDeckSettings,
+	type DeckSettings,
+} from '../cards/DeckSettings';
+import { DeckSettingsPanel } from '../cards/DeckSettingsPanel';
+import { CardDrag } from '../cards/CardDrag';
+import { planDeal } from '../cards/Deal';
+import {
+	createSeed,
+	getExodiaPieceIndex,
+	isExodiaComplete,
+	type CardData,
+} from '../cards/Deck';
+import {
+	getPlayerSeatIndex,
+	getSeatSpacing,
+	layoutStacks,
+	toTable,
+	type StackSeat,
+} from '../cards/StackSeats';
 
+/**
+ * Sprite of a card, showing its back until flipped
+ */
 class Card extends Sprite {
-	// Position tracking
-	initialX: number = 0;
-	targetX: number = 0;
-	initialY: number = 0;
-	targetY: number = 0;
-
-	// Animation state
-	moveTimeElapsed: number = 0;
-	initialRotation: number = 0;
-	targetRotation: number = 0;
-
-	// Flip state
-	flipTimeElapsed: number = 0;
-	textureChanged: boolean = false;
-
-	constructor(texture: any) {
-		super(texture);
+	public readonly data: CardData;
+
+	constructor(data: CardData) {
+		super(Assets.get(data.backTexture));
+		this.data = data;
 		this.anchor.set(0.5, 0.5);
+		this.eventMode = 'static'; // Can be pressed to drag it, see CardDrag
 	}
 }
 
+/**
+ * Where a card can be put down: on top of a stack, or in one of the player's card holders
+ */
+type CardPlace = { stack: CardStack } | { holderIndex: number };
+
+/**
+ * A stack cards are dealt to, on its own duel disk
+ *
+ * @property seat - Where the stack sits on the table
+ * @property duelDisk - The duel disk, under the cards
+ * @property cardHolder - The duel disk's card holder, over the cards so that they slot into it
+ * @property cards - The stack's cards, from bottom to top
+ */
+interface CardStack {
+	seat: StackSeat;
+	duelDisk: Sprite;
+	cardHolder: Sprite;
+	cards: Card[];
+}
+
 /**
  * Yu-Gi-Oh! themed card dealing with duel disks holding the card stacks.
  *
- * Features 144 card sprites that automatically deal from a central pile to alternating top and bottom stacks,
+ * Features card sprites that automatically deal from a central pile to stacks laid out around it,
  * with smooth animations, rotation effects, and a "Hurry up!" speed boost button.
+ *
+ * The card count, the stacks and their layout, the dealing order and speed are set with the settings panel
+ * or URL parameters, see DeckSettings. Applying new settings deals again from a new pile.
+ *
+ * The pile is a shuffled Exodia deck. Pressing the win button fills the card holders of the player's duel disk
+ * from the top of their stack and reveals them, and only wins if they hold the five pieces of Exodia.
+ *
+ * The top card of any stack, or a card in a card holder, can be dragged onto another stack or an empty card holder,
+ * with as many fingers as cards. Cards snap onto the nearest place they are dropped close to, or go back otherwise.
  */
 export class AceOfShadows extends Game {
 	// UI Constants
@@ -48,25 +87,37 @@ export class AceOfShadows extends Game {
 	private readonly HURRY_UP_BUTTON_OFFSET = 150;
 	private readonly CARD_PILE_RADIUS = 30;
 	private readonly CARD_STACK_OFFSET = 0.05;
+	private readonly SETTINGS_BUTTON_WIDTH = 120;
+	private readonly SETTINGS_BUTTON_HEIGHT = 80;
+	private readonly SETTINGS_BUTTON_FONT_SIZE = 48;
+	private readonly SETTINGS_BUTTON_COLOR = 0xffd700; // Golden, like the game scene buttons
+	private readonly SETTINGS_BUTTON_MARGIN = 24;
+	private readonly CARD_WITHOUT_ART_TINT = 0x666666; // Dimmed
+	private readonly CARD_SNAP_DURATION = 150;
+	private readonly CARD_RETURN_DURATION = 300;
 
 	// UI Elements
 	private hurryUpButton: Button | null = null;
 	private winButton: Button | null = null;
+	private dealAgainButton: Button | null = null;
+	private settingsButton: Button | null = null;
+	private settingsPanel: DeckSettingsPanel | null = null;
 	private background!: Sprite;
-	private topDuelDisk!: Sprite;
-	private bottomDuelDisk!: Sprite;
-	private topCardHolder!: Sprite;
-	private bottomCardHolder!: Sprite;
+	private table!: Container;
 	private cardContainer!: Container;
 	private victoryVideoElement: HTMLVideoElement | null = null;
 
 	// Card Management
+	private settings!: DeckSettings;
+	private seed: number = 0;
 	private cards: Card[] = [];
-	private topStack: Card[] = [];
-	private bottomStack: Card[] = [];
+	private stacks: CardStack[] = [];
 	private mainStack: Card[] = [];
-	private movingCards: Card[] = [];
-	private flippingCards: Card[] = [];
+	private dealStackIndices: number[] = [];
+	private cardDrag: CardDrag<Card> | null = null;
+	private heldCardOrigins: Map<Card, CardPlace> = new Map();
+	private isRevealing: boolean = false;
+	private tableScale: number = 1;
 	private cardHolderPositions: { x: number; y: number; rotation: number }[] =
 		[
 			{ x: 0, y: 0, rotation: 0 },
@@ -75,46 +126,31 @@ export class AceOfShadows extends Game {
 			{ x: 0, y: 0, rotation: 0 },
 			{ x: 0, y: 0, rotation: 0 },
 		];
-	private cardHolderTextures: string[] = [
-		'assets/sprites/exodia_right_leg.png',
-		'assets/sprites/exodia_right_arm.png',
-		'assets/sprites/exodia_forbidden_one.png',
-		'assets/sprites/exodia_left_arm.png',
-		'assets/sprites/exodia_left_leg.png',
-	];
-	private flippedCards = 0;
-	private flippedTextures = 0;
 	private moveCooldown: number = 0;
-	private dealCardCooldown: number = 0;
-	private flipCardCooldown: number = 500;
 	private moveInterval: number = 1000; // 1 second
 	private animationDuration: number = 2000; // 2 seconds
 	private flipAnimationDuration: number = 500; // 0.5 seconds
-	private currentTarget: 'top' | 'bottom' = 'top';
 
 	// Win sequence properties
-	private cardsInHolders: Card[] = [];
-	private videoFadeAnimation: VideoFadeAnimation = {
-		isActive: false,
-		duration: 0,
-		fadeTimeElapsed: 0,
-		isFadeIn: false,
-	};
+	private cardsInHolders: (Card | null)[] = [];
+	private videoFade = { opacity: 0 };
 	private readonly winSequenceDealCooldown: number = 200;
+	private readonly winSequenceFlipDelay: number = 500;
 	private readonly winSequenceFlipCooldown: number = 250;
-	private victoryVideoTimeout: ReturnType<typeof setTimeout> | null = null;
+	private readonly victoryVideoDelay: number = 1000;
+	private wasVictoryVideoPlaying: boolean = false;
+	private isMusicDucked: boolean = false;
 
 	// Speed boost properties
 	private readonly boostedMoveInterval: number = 10;
 	private readonly boostedAnimationDuration: number = 200;
 
-	// End positions for card deck holders
-	private topEndPosition = { x: 0, y: 0 };
-	private bottomEndPosition: { x: number; y: number } = { x: 0, y: 0 };
 	private originalCardCenter = { x: 0, y: 0 };
 
 	public initialize(): void {
-		// Nothing to do here
+		const result = readDeckSettings(location.search);
+		logValidationResult('Deck settings', result);
+		this.settings = result.value!;
 	}
 
 	public buildBackground(): void {
@@ -123,12 +159,53 @@ export class AceOfShadows extends Game {
 	}
 
 	public buildForeground(): void {
+		this.setUpTable();
+
+		// Settings button in the top left corner
+		this.settingsButton = new Button({
+			emoji: '⚙️',
+			color: this.SETTINGS_BUTTON_COLOR,
+			width: this.SETTINGS_BUTTON_WIDTH,
+			height: this.SETTINGS_BUTTON_HEIGHT,
+			margin: 1,
+			fontSize: this.SETTINGS_BUTTON_FONT_SIZE,
+			onClick: () => this.openSettingsPanel(),
+		});
+		this.foregroundContainer.addChild(this.settingsButton);
+
+		this.settingsPanel = new DeckSettingsPanel(this.app, {
+			onApply: settings => this.applySettings(settings),
+		});
+		this.foregroundContainer.addChild(this.settingsPanel);
+	}
+
+	/**
+	 * Lays out the stacks and a new central pile for the current settings, with fresh buttons
+	 */
+	private setUpTable(): void {
+		this.moveInterval = this.settings.dealIntervalMS;
+		this.animationDuration = this.settings.animationDurationMS;
+		this.moveCooldown = 0;
+
+		this.seed = this.settings.seed ?? createSeed();
+		const deal = planDeal(this.settings, this.seed);
+		this.dealStackIndices = deal.stackIndices;
+
+		// Under the buttons and panels
+		this.table = new Container();
+		this.foregroundContainer.addChildAt(this.table, 0);
 		this.createDuelDisks();
-		this.createCards();
+		this.createCards(deal.pile);
+		this.cardsInHolders = this.cardHolderPositions.map(() => null);
+		this.isRevealing = false;
+		this.cardDrag = new CardDrag(this.cardContainer, {
+			onGrab: card => this.grabCard(card),
+			onDrop: (card, cancelled) => this.dropCard(card, cancelled),
+		});
 
 		// Hurry up button
 		this.hurryUpButton = new Button({
-			text: 'Hurry up!',
+			text: i18n.t('aceOfShadows.hurryUp'),
 			color: 0xff6b35, // Orange
 			width: 100,
 			height: 60,
@@ -136,11 +213,11 @@ export class AceOfShadows extends Game {
 			borderRadius: 8,
 			onClick: () => this.toggleSpeedBoost(),
 		});
-		this.foregroundContainer.addChild(this.hurryUpButton);
+		this.foregroundContainer.addChildAt(this.hurryUpButton, 1);
 
 		// Win button (initially hidden)
 		this.winButton = new Button({
-			text: 'Press to win',
+			text: i18n.t('aceOfShadows.win'),
 			color: 0x4caf50, // Green
 			width: 400,
 			height: 100,
@@ -150,22 +227,51 @@ export class AceOfShadows extends Game {
 			onClick: () => this.startWinSequence(),
 		});
 		this.winButton.visible = false;
-		this.foregroundContainer.addChild(this.winButton);
+		this.foregroundContainer.addChildAt(this.winButton, 2);
+	}
+
+	/**
+	 * Clears the table, the win sequence included, and deals again with new settings.
+	 * The settings are written to the URL so that it can be shared
+	 */
+	private applySettings(settings: DeckSettings): void {
+		this.settings = settings;
+		writeDeckSettings(settings);
+
+		this.tweens.killAll();
+		this.cleanupVictoryVideo();
+		this.wasVictoryVideoPlaying = false;
+		if (this.isMusicDucked) {
+			audio.unduckMusic(0);
+			this.isMusicDucked = false;
+		}
+		this.destroyTable();
+
+		this.setUpTable();
+		this.onResize();
+	}
+
+	private openSettingsPanel(): void {
+		if (!this.settingsPanel) return;
+
+		// Re-added so that it covers anything created since, such as the buttons of a new table
+		this.foregroundContainer.addChild(this.settingsPanel);
+		this.settingsPanel.open(this.settings, this.seed);
 	}
 
 	public start(): void {
-		this.app.ticker.add(this.update, this);
-		sound.play('yu-gi-oh_full_theme', { loop: true, volume: 0.2 });
+		this.ticker.add(this.update, this);
+		audio.playMusic('yu-gi-oh_full_theme', { volume: 0.04 });
 	}
 
 	/**
 	 * Deals the top card according to the specified interval.
-	 * Also updates currently moving cards
+	 * Card movement itself is animated by tweens
 	 * @param deltaTime - The time since the last update.
 	 */
 	public update(_deltaTime: number): void {
 		// Tick down the move cooldown
-		this.moveCooldown -= this.app.ticker.deltaMS;
+		this.moveCooldown -= this.ticker.deltaMS;
 
 		// Check if it's time to move the next card
 		if (this.moveCooldown <= 0 && this.mainStack.length > 0) {
@@ -173,82 +279,30 @@ export class AceOfShadows extends Game {
 			this.moveCooldown = this.moveInterval;
 		}
 
-		// Show win button when all cards are dealt
-		if (
-			this.mainStack.length === 0 &&
-			this.winButton &&
-			!this.winButton.visible
-		) {
-			this.winButton.visible = true;
+		// Show win button when all cards are dealt, while the player's stack has a card for each empty card holder
+		if (this.winButton) {
+			this.winButton.visible =
+				this.mainStack.length === 0 &&
+				this.getPlayerStack().cards.length >=
+					this.getEmptyHolderIndices().length;
 		}
+	}
 
-		// Update moving cards
-		for (let i = this.movingCards.length - 1; i >= 0; i--) {
-			const card = this.movingCards[i];
-
-			card.moveTimeElapsed += this.app.ticker.deltaMS;
-			const progress = Math.min(
-				card.moveTimeElapsed / this.animationDuration,
-				1
-			);
-
-			// Ease out animation
-			const easeProgress = 1 - Math.pow(1 - progress, 3);
-
-			// Move card
-			card.x =
-				card.initialX + (card.targetX - card.initialX) * easeProgress;
-			card.y =
-				card.initialY + (card.targetY - card.initialY) * easeProgress;
-
-			// Rotate card
-			card.rotation =
-				card.initialRotation +
-				(card.targetRotation - card.initialRotation) * easeProgress;
-
-			if (progress >= 1) {
-				card.x = card.targetX;
-				card.y = card.targetY;
-				card.rotation = card.targetRotation;
-
-				// Remove from moving cards array
-				this.movingCards.splice(i, 1);
-			}
+	public pause(): void {
+		// The victory video plays outside of Pixi, so it doesn't stop with the game ticker
+		if (this.victoryVideoElement) {
+			this.wasVictoryVideoPlaying = !this.victoryVideoElement.paused;
+			this.victoryVideoElement.pause();
 		}
+	}
 
-		// Update flip animations for cards that are currently flipping
-		for (let i = this.flippingCards.length - 1; i >= 0; i--) {
-			const card = this.flippingCards[i];
-
-			card.flipTimeElapsed += this.app.ticker.deltaMS;
-			const progress = Math.min(
-				card.flipTimeElapsed / this.flipAnimationDuration,
-				1
-			);
-
-			// Create a 3D flip effect by scaling the width
-			// At the halfway point, change the texture
-			const scaleX = scaled(
-				Math.abs(Math.cos(progress * Math.PI)) * this.CARD_SCALE_RESIZE
-			);
-			card.scale.x = scaleX;
-			if (progress >= 0.5 && !card.textureChanged) {
-				card.texture = Assets.get(
-					this.cardHolderTextures[this.flippedTextures]
-				);
-				card.textureChanged = true;
-				this.flippedTextures++;
-			}
-
-			// Complete the flip
-			if (progress >= 1) {
-				card.scale.x = scaled(
-					Math.abs(Math.cos(Math.PI)) * this.CARD_SCALE_RESIZE
-				);
-				// Remove completed flip from the array
-				this.flippingCards.splice(i, 1);
-			}
+	public resume(): void {
+		if (this.victoryVideoElement && this.wasVictoryVideoPlaying) {
+			this.victoryVideoElement.play().catch(error => {
+				console.error('Failed to resume victory video:', error);
+			});
 		}
+		this.wasVictoryVideoPlaying = false;
 	}
 
 	public onResize(): void {
@@ -258,35 +312,24 @@ export class AceOfShadows extends Game {
 			this.app.screen.height
 		);
 
-		// Duel disks
-		if (this.topDuelDisk && this.bottomDuelDisk) {
-			this.topDuelDisk.scale.set(1);
-			this.topDuelDisk.x = this.app.screen.width * 0.5;
-			this.topDuelDisk.y = scaled(this.DUEL_DISK_Y_OFFSET);
-			this.topDuelDisk.scale.set(scaled(this.DUEL_DISK_SCALE));
-
-			this.bottomDuelDisk.x = this.app.screen.width * 0.5;
-			this.bottomDuelDisk.y =
-				this.app.screen.height - scaled(this.DUEL_DISK_Y_OFFSET);
-			this.bottomDuelDisk.scale.set(scaled(this.DUEL_DISK_SCALE));
-
-			// Update deck end positions after repositioning and rescaling duel disks
-			this.updateEndPositions();
+		// Duel disks and their card holders
+		if (this.stacks.length > 0) {
+			this.updateSeats();
+			this.stacks.forEach(stack => {
+				[stack.duelDisk, stack.cardHolder].forEach(sprite => {
+					sprite.x = stack.seat.x;
+					sprite.y = stack.seat.y;
+					sprite.rotation = stack.seat.rotation;
+					sprite.scale.set(
+						scaled(this.DUEL_DISK_SCALE) * this.tableScale
+					);
+				});
+			});
+
+			// Update card holder positions after repositioning and rescaling duel disks
 			this.updateCardHolderPositions();
 		}
 
-		// Card holders
-		if (this.topCardHolder && this.bottomCardHolder) {
-			this.topCardHolder.x = this.app.screen.width * 0.5;
-			this.topCardHolder.y = scaled(this.DUEL_DISK_Y_OFFSET);
-			this.topCardHolder.scale.set(scaled(this.DUEL_DISK_SCALE));
-
-			this.bottomCardHolder.x = this.app.screen.width * 0.5;
-			this.bottomCardHolder.y =
-				this.app.screen.height - scaled(this.DUEL_DISK_Y_OFFSET);
-			this.bottomCardHolder.scale.set(scaled(this.DUEL_DISK_SCALE));
-		}
-
 		// Cards
 		this.updateCardScales();
 		this.updateCardPositions();
@@ -304,105 +347,169 @@ export class AceOfShadows extends Game {
 			this.winButton.x = this.app.screen.width * 0.5;
 			this.winButton.y = this.app.screen.height * 0.5;
 		}
+		if (this.dealAgainButton) {
+			this.dealAgainButton.x = this.app.screen.width * 0.5;
+			this.dealAgainButton.y = this.app.screen.height * 0.5;
+		}
+
+		// Settings button (top left)
+		if (this.settingsButton) {
+			this.settingsButton.x =
+				scaled(this.SETTINGS_BUTTON_MARGIN) +
+				scaled(this.SETTINGS_BUTTON_WIDTH) * 0.5;
+			this.settingsButton.y =
+				scaled(this.SETTINGS_BUTTON_MARGIN) +
+				scaled(this.SETTINGS_BUTTON_HEIGHT) * 0.5;
+		}
+		this.settingsPanel?.onResize();
 	}
 
 	public destroy(): void {
-		sound.stop('yu-gi-oh_full_theme');
+		audio.stopMusic('yu-gi-oh_full_theme');
+		if (this.isMusicDucked) {
+			audio.unduckMusic(0);
+			this.isMusicDucked = false;
+		}
 
-		if (this.victoryVideoTimeout) {
-			clearTimeout(this.victoryVideoTimeout);
+		// Win sequence and card tweens are killed along with the game's scene
+		this.destroyTable();
+		if (this.settingsButton) this.settingsButton.destroy();
+		if (this.settingsPanel) this.settingsPanel.destroy();
+		if (this.victoryVideoElement) {
+			this.victoryVideoElement.pause();
+			this.victoryVideoElement.remove();
 		}
-		this.app.ticker.remove(this.dealCardToHolders, this);
-		this.app.ticker.remove(this.flipDealtCards, this);
-		this.app.ticker.remove(this.updateVideoFade, this);
+		this.background.destroy();
+	}
 
+	/**
+	 * Destroys the stacks, the cards and the buttons of the current table
+	 */
+	private destroyTable(): void {
 		this.cards.forEach(card => {
 			card.destroy();
 		});
 		this.cards = [];
-		this.topStack = [];
-		this.bottomStack = [];
+		this.stacks = [];
 		this.mainStack = [];
-		this.movingCards = [];
-		this.flippingCards = [];
 		this.cardsInHolders = [];
-		this.cardHolderPositions = [];
-
-		if (this.topDuelDisk) this.topDuelDisk.destroy();
-		if (this.bottomDuelDisk) this.bottomDuelDisk.destroy();
-		if (this.topCardHolder) this.topCardHolder.destroy();
-		if (this.bottomCardHolder) this.bottomCardHolder.destroy();
-		if (this.cardContainer) this.cardContainer.destroy();
-		if (this.winButton) this.winButton.destroy();
-		if (this.victoryVideoElement) {
-			this.victoryVideoElement.pause();
-			this.victoryVideoElement.remove();
+		this.heldCardOrigins.clear();
+		if (this.cardDrag) {
+			this.cardDrag.destroy();
+			this.cardDrag = null;
+		}
+
+		// Duel disks, card holders and the card container
+		if (this.table) this.table.destroy({ children: true });
+		if (this.hurryUpButton) {
+			this.hurryUpButton.destroy();
+			this.hurryUpButton = null;
+		}
+		if (this.winButton) {
+			this.winButton.destroy();
+			this.winButton = null;
+		}
+		if (this.dealAgainButton) {
+			this.dealAgainButton.destroy();
+			this.dealAgainButton = null;
 		}
-		this.background.destroy();
 	}
 
+	/**
+	 * Creates a duel disk and a card holder for each stack, with the cards layered in-between
+	 */
 	private createDuelDisks(): void {
-		// Top duel disk
-		this.topDuelDisk = new Sprite(
-			Assets.get('assets/sprites/duel_disk.png')
-		);
-		this.topDuelDisk.anchor.set(0.5, 0.5);
-		this.topDuelDisk.x = this.app.screen.width * 0.5;
-		this.topDuelDisk.y = scaled(this.DUEL_DISK_Y_OFFSET);
-		this.topDuelDisk.rotation = Math.PI;
-		this.foregroundContainer.addChild(this.topDuelDisk);
-
-		// Bottom duel disk
-		this.bottomDuelDisk = new Sprite(
-			Assets.get('assets/sprites/duel_disk.png')
-		);
-		this.bottomDuelDisk.anchor.set(0.5, 0.5);
-		this.bottomDuelDisk.x = this.app.screen.width * 0.5;
-		this.foregroundContainer.addChild(this.bottomDuelDisk);
+		const createSprite = (texture: string): Sprite => {
+			const sprite = new Sprite(Assets.get(texture));
+			sprite.anchor.set(0.5, 0.5);
+			sprite.scale.set(scaled(this.DUEL_DISK_SCALE));
+			return sprite;
+		};
+
+		this.stacks = Array.from({ length: this.settings.stackCount }, () => ({
+			seat: { x: 0, y: 0, rotation: 0 },
+			duelDisk: createSprite('assets/sprites/duel_disk.png'),
+			cardHolder: createSprite(
+				'assets/sprites/duel_disk_card_holder.png'
+			),
+			cards: [],
+		}));
+
+		// First layer - duel disks
+		this.stacks.forEach(stack => this.table.addChild(stack.duelDisk));
 
 		// Card containers in-between layers so that the cards can slot into the card holders
 		this.cardContainer = new Container();
-		this.foregroundContainer.addChild(this.cardContainer);
+		this.table.addChild(this.cardContainer);
 
 		// Second layer - duel disk card holders
-		// Top
-		this.topCardHolder = new Sprite(
-			Assets.get('assets/sprites/duel_disk_card_holder.png')
-		);
-		this.topCardHolder.anchor.set(0.5, 0.5);
-		this.topCardHolder.x = this.app.screen.width * 0.5;
-		this.topCardHolder.y = scaled(this.DUEL_DISK_Y_OFFSET);
-		this.topCardHolder.rotation = Math.PI;
-		this.topCardHolder.scale.set(scaled(this.DUEL_DISK_SCALE));
-		this.foregroundContainer.addChild(this.topCardHolder);
-
-		// Bottom
-		this.bottomCardHolder = new Sprite(
-			Assets.get('assets/sprites/duel_disk_card_holder.png')
+		this.stacks.forEach(stack => this.table.addChild(stack.cardHolder));
+
+		this.updateSeats();
+	}
+
+	/**
+	 * Lays the stacks out for the screen size, shrinking the duel disks and cards when they would overlap
+	 */
+	private updateSeats(): void {
+		const screenWidth = this.app.screen.width;
+		const screenHeight = this.app.screen.height;
+		const seatsAt = (inset: number) =>
+			layoutStacks(
+				this.settings.layout,
+				this.stacks.length,
+				screenWidth,
+				screenHeight,
+				inset
+			);
+
+		// Seats only get further apart as they get closer to the edges, so shrinking once is enough
+		const inset = scaled(this.DUEL_DISK_Y_OFFSET);
+		const duelDiskWidth =
+			this.stacks[0].duelDisk.texture.width *
+			scaled(this.DUEL_DISK_SCALE);
+		this.tableScale = Math.min(
+			1,
+			getSeatSpacing(seatsAt(inset)) / duelDiskWidth
 		);
-		this.bottomCardHolder.anchor.set(0.5, 0.5);
-		this.bottomCardHolder.x = this.app.screen.width * 0.5;
-		this.bottomCardHolder.y =
-			this.app.screen.height - scaled(this.DUEL_DISK_Y_OFFSET);
-		this.bottomCardHolder.scale.set(scaled(this.DUEL_DISK_SCALE));
-		this.foregroundContainer.addChild(this.bottomCardHolder);
+		seatsAt(inset * this.tableScale).forEach((seat, i) => {
+			this.stacks[i].seat = seat;
+		});
 	}
 
-	private updateEndPositions(): void {
-		const offsetX = this.topDuelDisk.width * 0.2;
-		const offsetY = this.topDuelDisk.height * 0.21;
+	/**
+	 * Gets the stack the win sequence deals from: the one nearest the bottom of the screen, where the player sits
+	 */
+	private getPlayerStack(): CardStack {
+		return this.stacks[
+			getPlayerSeatIndex(this.stacks.map(stack => stack.seat))
+		];
+	}
 
-		// Top duel disk end position
-		this.topEndPosition.x = this.topDuelDisk.x + offsetX;
-		this.topEndPosition.y = this.topDuelDisk.y + offsetY;
+	/**
+	 * Gets where a card sits in a stack: in its duel disk's card slot, offset to give the illusion of deck size
+	 * @param stack - The stack
+	 * @param index - The card's index in the stack, from the bottom
+	 */
+	private getStackSlot(
+		stack: CardStack,
+		index: number
+	): { x: number; y: number; rotation: number } {
+		const offset = index * scaled(this.CARD_STACK_OFFSET);
+		const position = toTable(
+			stack.seat,
+			-stack.duelDisk.width * 0.2 + offset,
+			-stack.duelDisk.height * 0.21 - offset
+		);
+		return { ...position, rotation: stack.seat.rotation + Math.PI * 0.5 };
+	}
 
-		// Bottom duel disk end position (flip the Y offset since it's rotated)
-		this.bottomEndPosition.x = this.bottomDuelDisk.x - offsetX;
-		this.bottomEndPosition.y = this.bottomDuelDisk.y - offsetY;
+	private getCardScale(): number {
+		return scaled(this.CARD_SCALE_RESIZE) * this.tableScale;
 	}
 
 	private updateCardScales(): void {
-		const cardScale = scaled(this.CARD_SCALE_RESIZE);
+		const cardScale = this.getCardScale();
 		this.cards.forEach(card => {
 			card.scale.set(cardScale);
 		});
@@ -429,63 +536,50 @@ export class AceOfShadows extends Game {
 		this.originalCardCenter.x = centerX;
 		this.originalCardCenter.y = centerY;
 
-		// Top stack
-		this.topStack.forEach((card, index) => {
-			if (this.topEndPosition) {
-				const stackX =
-					this.topEndPosition.x +
-					index * scaled(this.CARD_STACK_OFFSET) * -1;
-				const stackY =
-					this.topEndPosition.y +
-					index * scaled(this.CARD_STACK_OFFSET) * -1;
-
-				card.x = stackX;
-				card.y = stackY;
-				card.targetX = stackX;
-				card.targetY = stackY;
-				card.targetRotation = Math.PI * 1.5;
-				card.rotation = Math.PI * 1.5;
-			}
-		});
-
-		// Bottom stack
-		this.bottomStack.forEach((card, index) => {
-			if (this.bottomEndPosition) {
-				const stackX =
-					this.bottomEndPosition.x +
-					index * scaled(this.CARD_STACK_OFFSET) * 1;
-				const stackY =
-					this.bottomEndPosition.y +
-					index * scaled(this.CARD_STACK_OFFSET) * 1;
-
-				card.x = stackX;
-				card.y = stackY;
-				card.targetX = stackX;
-				card.targetY = stackY;
-				card.targetRotation = Math.PI * 0.5;
-				card.rotation = Math.PI * 0.5;
-			}
+		// Stacks
+		this.stacks.forEach(stack => {
+			stack.cards.forEach((card, index) => {
+				const slot = this.getStackSlot(stack, index);
+				this.tweens.killTweensOf(card);
+				card.x = slot.x;
+				card.y = slot.y;
+				card.rotation = slot.rotation;
+			});
 		});
 
-		// Cards in holders (win sequence)
+		// Cards in holders
 		this.cardsInHolders.forEach((card, index) => {
-			if (index < this.cardHolderPositions.length) {
+			if (card && index < this.cardHolderPositions.length) {
 				const holderPos = this.cardHolderPositions[index];
+				this.tweens.killTweensOf(card);
 				card.x = holderPos.x;
 				card.y = holderPos.y;
-				card.targetX = holderPos.x;
-				card.targetY = holderPos.y;
-				card.targetRotation = card.rotation;
+				card.rotation = holderPos.rotation;
 			}
 		});
 	}
 
 	private toggleSpeedBoost(): void {
-		// Apply speed boost and delete the button
-		this.moveInterval = this.boostedMoveInterval;
-		this.animationDuration = this.boostedAnimationDuration;
+		// Apply speed boost and delete the button, never slowing down settings that are faster already
+		this.moveInterval = Math.min(
+			this.moveInterval,
+			this.boostedMoveInterval
+		);
 		this.moveCooldown = this.moveInterval;
 
+		// Speed up cards already on their way
+		const boostedAnimationDuration = Math.min(
+			this.animationDuration,
+			this.boostedAnimationDuration
+		);
+		const speedUp = this.animationDuration / boostedAnimationDuration;
+		this.cards.forEach(card => {
+			this.tweens.getTweensOf(card).forEach(tween => {
+				tween.timeScale = speedUp;
+			});
+		});
+		this.animationDuration = boostedAnimationDuration;
+
 		// Remove the button from the foreground container
 		if (this.hurryUpButton && this.hurryUpButton.parent) {
 			this.hurryUpButton.parent.removeChild(this.hurryUpButton);
@@ -494,7 +588,11 @@ export class AceOfShadows extends Game {
 		}
 	}
 
-	private createCards(): void {
+	/**
+	 * Creates the central pile, its top card on top
+	 * @param pile - The cards, from the bottom of the pile to the top
+	 */
+	private createCards(pile: readonly CardData[]): void {
 		const centerX = this.app.screen.width * 0.5;
 		const centerY = this.app.screen.height * 0.5;
 
@@ -502,12 +600,10 @@ export class AceOfShadows extends Game {
 		this.originalCardCenter.x = centerX;
 		this.originalCardCenter.y = centerY;
 
-		const cardScale = scaled(this.CARD_SCALE_INITIAL);
+		const cardScale = scaled(this.CARD_SCALE_INITIAL) * this.tableScale;
 
-		for (let i = 0; i < 144; i++) {
-			const card = new Card(
-				Assets.get('assets/sprites/yu-gi-oh_small.png')
-			);
+		[...pile].reverse().forEach(data => {
+			const card = new Card(data);
 			card.scale.set(cardScale);
 
 			// Random position within a circular area (like cards randomly piled)
@@ -522,19 +618,11 @@ export class AceOfShadows extends Game {
 			card.y = y;
 			card.rotation = Math.random() * Math.PI * 2;
 
-			// Initialize card properties
-			card.initialX = card.x;
-			card.initialY = card.y;
-			card.targetX = card.x;
-			card.targetY = card.y;
-			card.moveTimeElapsed = 0;
-			card.initialRotation = card.rotation;
-			card.targetRotation = card.rotation;
-
+			// Drawn from the top, so each card goes under the ones drawn before
 			this.cards.push(card);
-			this.mainStack.push(card);
-			this.cardContainer.addChild(card);
-		}
+			this.mainStack.unshift(card);
+			this.cardContainer.addChildAt(card, 0);
+		});
 	}
 
 	private dealTopCard(): void {
@@ -552,41 +640,18 @@ export class AceOfShadows extends Game {
 			this.hurryUpButton.visible = false;
 		}
 
-		const targetStack =
-			this.currentTarget === 'top' ? this.topStack : this.bottomStack;
-		const endPosition =
-			this.currentTarget === 'top'
-				? this.topEndPosition
-				: this.bottomEndPosition;
-
-		// Add a small offset to give illusion of deck size
-		const isTopTarget = this.currentTarget === 'top';
-		const stackX =
-			endPosition.x +
-			targetStack.length *
-				scaled(this.CARD_STACK_OFFSET) *
-				(isTopTarget ? -1 : 1);
-		const stackY =
-			endPosition.y +
-			targetStack.length *
-				scaled(this.CARD_STACK_OFFSET) *
-				(isTopTarget ? 1 : -1);
-
-		// Toggle target stack for next card
-		this.currentTarget = this.currentTarget === 'top' ? 'bottom' : 'top';
-
-		// Calculate trajectory
-		topCard.targetX = stackX;
-		topCard.targetY = stackY;
-		topCard.moveTimeElapsed = 0;
+		// Pick the target stack in the dealing order, and the card's slot on top of it
+		const targetStack = this.stacks[this.dealStackIndices.shift()!];
+		const slot = this.getStackSlot(targetStack, targetStack.cards.length);
 
 		// Calculate target rotation
-		const targetRotation = isTopTarget ? Math.PI * 1.5 : Math.PI * 0.5; // Top stack: 180 degrees, Bottom stack: 0 degrees
+		const targetRotation = slot.rotation;
 		const currentRotation = topCard.rotation;
 
 		const direction = Math.random() > 0.5 ? 1 : -1; // Randomly choose (1 for clockwise, -1 for counter-clockwise)
 
-		const rotationDiff = targetRotation - currentRotation;
+		// Wrap the difference so that the card turns less than a full turn
+		const rotationDiff = (targetRotation - currentRotation) % (Math.PI * 2);
 		let rotationAmount;
 
 		if (direction > 0) {
@@ -596,15 +661,15 @@ export class AceOfShadows extends Game {
 			rotationAmount =
 				rotationDiff <= 0 ? rotationDiff : rotationDiff - Math.PI * 2;
 		}
-		topCard.targetRotation = currentRotation + rotationAmount;
 
-		// Store initial values for the animation
-		topCard.initialX = topCard.x;
-		topCard.initialY = topCard.y;
-		topCard.initialRotation = topCard.rotation;
-
-		targetStack.push(topCard);
-		this.movingCards.push(topCard);
+		targetStack.cards.push(topCard);
+		this.moveCard(
+			topCard,
+			slot.x,
+			slot.y,
+			currentRotation + rotationAmount,
+			this.animationDuration
+		);
 
 		// Move card to top of display list so it appears on top of other cards in the stack
 		this.cardContainer.setChildIndex(
@@ -614,8 +679,7 @@ export class AceOfShadows extends Game {
 
 		const randomSound = `deal_${Math.floor(Math.random() * 2) + 1}`;
 		const volume = Math.random() * 0.05 + 0.1;
-		sound.volume(randomSound, volume);
-		sound.play(randomSound);
+		audio.playSfx(randomSound, { volume });
 	}
 
 	private updateCardHolderPositions(): void {
@@ -627,18 +691,39 @@ export class AceOfShadows extends Game {
 			{ x: 0.31, y: 0.22, rotation: -0.05 },
 		];
 
+		// Around the player's duel disk
+		const { seat, duelDisk } = this.getPlayerStack();
 		for (let i = 0; i < 5; i++) {
-			const offsetX =
-				this.bottomDuelDisk.width * cardHolderPositionOffsets[i].x;
-			const offsetY =
-				this.bottomDuelDisk.height * cardHolderPositionOffsets[i].y;
-			this.cardHolderPositions[i].x = this.bottomDuelDisk.x + offsetX;
-			this.cardHolderPositions[i].y = this.bottomDuelDisk.y + offsetY;
+			const position = toTable(
+				seat,
+				duelDisk.width * cardHolderPositionOffsets[i].x,
+				duelDisk.height * cardHolderPositionOffsets[i].y
+			);
+			this.cardHolderPositions[i].x = position.x;
+			this.cardHolderPositions[i].y = position.y;
 			this.cardHolderPositions[i].rotation =
-				Math.PI * cardHolderPositionOffsets[i].rotation;
+				seat.rotation + Math.PI * cardHolderPositionOffsets[i].rotation;
 		}
 	}
 
+	/**
+	 * Moves a card to a new position and rotation, easing out
+	 */
+	private moveCard(
+		card: Card,
+		x: number,
+		y: number,
+		rotation: number,
+		duration: number
+	): void {
+		this.tweens.killTweensOf(card);
+		this.tweens.to(card, {
+			to: { x, y, rotation },
+			duration,
+			ease: Easing.cubicOut,
+		});
+	}
+
 	private startWinSequence(): void {
 		// Remove the win button from the foreground container
 		if (this.winButton && this.winButton.parent) {
@@ -647,39 +732,161 @@ export class AceOfShadows extends Game {
 			this.winButton = null;
 		}
 
-		// Deal 5 cards from bottom stack to card holders at boosted speed
-		this.app.ticker.add(this.dealCardToHolders, this);
+		// Cards can't be moved once revealed, so held ones go back first
+		this.cardDrag?.cancelAll();
+		this.isRevealing = true;
+
+		// The cards already in holders, and the top cards of the player's stack for the empty ones, top card first
+		const emptyHolderIndices = this.getEmptyHolderIndices();
+		const playerCards = this.getPlayerStack().cards;
+		const dealtCards = playerCards
+			.slice(playerCards.length - emptyHolderIndices.length)
+			.reverse();
+		const hand = [
+			...this.cardsInHolders.filter(card => card !== null),
+			...dealtCards,
+		];
+		const isVictory = isExodiaComplete(hand.map(card => card.data));
+
+		// Deal to the empty card holders at boosted speed, flip them all, and then play the victory video or offer
+		// to deal again. Pieces of Exodia go to their own card holder when they are all dealt at once
+		const sequence = this.tweens.timeline(() =>
+			isVictory ? this.triggerVictoryVideo() : this.showDealAgainButton()
+		);
+		const isWholeHandDealt =
+			emptyHolderIndices.length === this.cardHolderPositions.length;
+		dealtCards.forEach((card, index) => {
+			const holderIndex =
+				isVictory && isWholeHandDealt
+					? getExodiaPieceIndex(card.data)
+					: emptyHolderIndices[index];
+			sequence
+				.call(() => this.dealCardToHolder(holderIndex))
+				.wait(this.winSequenceDealCooldown);
+		});
+		sequence.wait(this.winSequenceFlipDelay);
+		this.cardHolderPositions.forEach((_, index) => {
+			if (index > 0) {
+				sequence.wait(this.winSequenceFlipCooldown);
+			}
+			sequence.call(() => this.flipCard(this.cardsInHolders[index]!));
+		});
+		sequence.wait(this.victoryVideoDelay);
+	}
+
+	private getEmptyHolderIndices(): number[] {
+		return this.cardHolderPositions
+			.map((_, index) => index)
+			.filter(index => !this.cardsInHolders[index]);
 	}
 
-	private dealCardToHolders(): void {
-		// Deal only 5 cards
-		if (this.cardsInHolders.length >= 5) {
-			this.app.ticker.remove(this.dealCardToHolders, this);
-			this.app.ticker.add(this.flipDealtCards, this);
-			return;
+	/**
+	 * Takes a card off the top of its stack or out of its card holder to drag it, unless it is being revealed
+	 * @returns Whether the card can be dragged
+	 */
+	private grabCard(card: Card): boolean {
+		if (this.isRevealing) return false;
+
+		let origin: CardPlace;
+		const stack = this.stacks.find(stack => stack.cards.at(-1) === card);
+		const holderIndex = this.cardsInHolders.indexOf(card);
+		if (stack) {
+			stack.cards.pop();
+			origin = { stack };
+		} else if (holderIndex >= 0) {
+			this.cardsInHolders[holderIndex] = null;
+			origin = { holderIndex };
+		} else {
+			// Still in the central pile
+			return false;
 		}
 
-		this.dealCardCooldown -= this.app.ticker.deltaMS;
-		if (this.dealCardCooldown > 0) return;
+		// Stop it mid-deal if it was on its way
+		this.tweens.killTweensOf(card);
+		this.heldCardOrigins.set(card, origin);
+		return true;
+	}
+
+	/**
+	 * Snaps a dragged card onto the nearest stack or empty card holder within a card's length, or sends it back
+	 * where it was picked up from
+	 */
+	private dropCard(card: Card, cancelled: boolean): void {
+		const origin = this.heldCardOrigins.get(card);
+		if (!origin) return;
+		this.heldCardOrigins.delete(card);
+
+		const target = cancelled ? null : this.findDropTarget(card);
+		this.putCard(
+			card,
+			target ?? origin,
+			target ? this.CARD_SNAP_DURATION : this.CARD_RETURN_DURATION
+		);
+	}
+
+	/**
+	 * Finds the place nearest a card, among the tops of the stacks and the empty card holders
+	 * @returns The place, or null if none is within a card's length
+	 */
+	private findDropTarget(card: Card): CardPlace | null {
+		const places: { place: CardPlace; x: number; y: number }[] = [
+			...this.stacks.map(stack => ({
+				place: { stack },
+				...this.getStackSlot(stack, stack.cards.length),
+			})),
+			...this.getEmptyHolderIndices().map(holderIndex => ({
+				place: { holderIndex },
+				...this.cardHolderPositions[holderIndex],
+			})),
+		];
 
-		const cardToDeal = this.bottomStack.pop()!;
-		const cardIndex = this.cardsInHolders.length;
-		const targetPos = this.cardHolderPositions[cardIndex];
+		let nearest: CardPlace | null = null;
+		let nearestDistance = card.texture.height * card.scale.y;
+		places.forEach(({ place, x, y }) => {
+			const distance = Math.hypot(x - card.x, y - card.y);
+			if (distance < nearestDistance) {
+				nearest = place;
+				nearestDistance = distance;
+			}
+		});
+		return nearest;
+	}
 
-		// Set up movement
-		cardToDeal.targetX = targetPos.x;
-		cardToDeal.targetY = targetPos.y;
-		cardToDeal.moveTimeElapsed = 0;
-		cardToDeal.initialX = cardToDeal.x;
-		cardToDeal.initialY = cardToDeal.y;
-		cardToDeal.initialRotation = cardToDeal.rotation;
-		cardToDeal.targetRotation = targetPos.rotation;
+	/**
+	 * Puts a card on top of a stack or in a card holder, turning it the shortest way to its rotation there
+	 */
+	private putCard(card: Card, place: CardPlace, duration: number): void {
+		let target: { x: number; y: number; rotation: number };
+		if ('stack' in place) {
+			target = this.getStackSlot(place.stack, place.stack.cards.length);
+			place.stack.cards.push(card);
+		} else {
+			target = this.cardHolderPositions[place.holderIndex];
+			this.cardsInHolders[place.holderIndex] = card;
+		}
 
-		this.cardsInHolders.push(cardToDeal);
-		this.movingCards.push(cardToDeal);
-		this.dealCardCooldown = this.winSequenceDealCooldown;
-		this.animationDuration = this.boostedAnimationDuration;
-		this.moveInterval = this.winSequenceDealCooldown - 50;
+		const fullTurn = Math.PI * 2;
+		const rotation =
+			target.rotation +
+			Math.round((card.rotation - target.rotation) / fullTurn) * fullTurn;
+		this.moveCard(card, target.x, target.y, rotation, duration);
+	}
+
+	/**
+	 * Deals the top card of the player's stack to a card holder
+	 */
+	private dealCardToHolder(holderIndex: number): void {
+		const cardToDeal = this.getPlayerStack().cards.pop()!;
+		const targetPos = this.cardHolderPositions[holderIndex];
+
+		this.cardsInHolders[holderIndex] = cardToDeal;
+		this.moveCard(
+			cardToDeal,
+			targetPos.x,
+			targetPos.y,
+			targetPos.rotation,
+			this.boostedAnimationDuration
+		);
 
 		// Move card to top of display list so it appears on come out of the top of the deck
 		this.cardContainer.setChildIndex(
@@ -688,44 +895,70 @@ export class AceOfShadows extends Game {
 		);
 
 		const volume = Math.random() * 0.05 + 0.1;
-		sound.volume('deal_2', volume);
-		sound.play('deal_2');
-	}
-
-	private flipDealtCards(): void {
-		// Deal only 5 cards
-		if (this.flippedCards >= 5) {
-			this.app.ticker.remove(this.flipDealtCards, this);
-			this.victoryVideoTimeout = setTimeout(() => {
-				this.triggerVictoryVideo();
-			}, 1000);
-			return;
-		}
-
-		this.flipCardCooldown -= this.app.ticker.deltaMS;
-		if (this.flipCardCooldown > 0) return;
-
-		const cardIndex = this.flippedCards;
-		const cardToFlip = this.cardsInHolders[cardIndex]!;
+		audio.playSfx('deal_2', { volume });
+	}
 
-		// Start the flip animation
-		this.flippingCards.push(cardToFlip);
-		this.flipCardCooldown = this.winSequenceFlipCooldown;
-		this.flippedCards++;
+	/**
+	 * Flips a card to reveal its face, with a 3D effect made by scaling its width down and back up.
+	 * Cards without art are dimmed instead
+	 * @param card - The card to flip
+	 */
+	private flipCard(card: Card): void {
+		const { faceTexture } = card.data;
+		const cardScale = this.getCardScale();
+		const halfDuration = this.flipAnimationDuration * 0.5;
+
+		this.tweens
+			.timeline()
+			.to(card.scale, {
+				to: { x: 0 },
+				duration: halfDuration,
+				ease: Easing.sineIn,
+			})
+			.call(() => {
+				if (faceTexture) {
+					card.texture = Assets.get(faceTexture);
+				} else {
+					card.tint = this.CARD_WITHOUT_ART_TINT;
+				}
+			})
+			.to(card.scale, {
+				to: { x: cardScale },
+				duration: halfDuration,
+				ease: Easing.sineOut,
+			});
+
+		// Play flip sound, ducking the music under it
+		audio.playSfx('card_flip', { volume: 0.3, duck: true });
+	}
 
-		// Play flip sound
-		sound.volume('card_flip', 0.3);
-		sound.play('card_flip');
+	/**
+	 * Offers to deal again after revealing a hand without all five pieces of Exodia
+	 */
+	private showDealAgainButton(): void {
+		this.dealAgainButton = new Button({
+			text: i18n.t('aceOfShadows.dealAgain'),
+			color: 0xff6b35, // Orange
+			width: 400,
+			height: 100,
+			fontSize: 32,
+			emoji: '🔁',
+			borderRadius: 8,
+			// A seed from the URL would deal the same losing hand again, so the next deal gets a new one
+			onClick: () => this.applySettings({ ...this.settings, seed: null }),
+		});
+		this.dealAgainButton.x = this.app.screen.width * 0.5;
+		this.dealAgainButton.y = this.app.screen.height * 0.5;
+		this.foregroundContainer.addChildAt(this.dealAgainButton, 1);
 	}
 
 	private triggerVictoryVideo(): void {
-		this.app.ticker.add(this.updateVideoFade, this);
-
 		// Get cached video element
 		this.victoryVideoElement! = Assets.get('video-exodia_obliterate');
 		this.victoryVideoElement.currentTime = 0;
-		this.victoryVideoElement.muted = false;
-		this.victoryVideoElement.volume = 0.1;
+		this.victoryVideoElement.muted = audio.isMuted();
+		this.victoryVideoElement.volume =
+			0.1 * audio.getMasterVolume() * audio.getBusVolume('sfx');
 
 		// Configure video for full-screen overlay
 		this.victoryVideoElement.style.position = 'fixed';
@@ -740,8 +973,10 @@ export class AceOfShadows extends Game {
 		// Add video element to the DOM
 		document.body.appendChild(this.victoryVideoElement);
 
-		// Start fade-in animation
+		// Start fade-in animation, silencing the music under the video
 		this.startVideoFade(true);
+		audio.duckMusic(0, 1500);
+		this.isMusicDucked = true;
 
 		// Play the video
 		this.victoryVideoElement.play().catch(error => {
@@ -751,53 +986,32 @@ export class AceOfShadows extends Game {
 		// Clean up when video ends
 		this.victoryVideoElement.addEventListener('ended', () => {
 			this.startVideoFade(false);
+			audio.unduckMusic(800);
+			this.isMusicDucked = false;
 		});
 	}
 
+	/**
+	 * Fades the victory video in or out
+	 * @param isFadeIn - Whether to fade in (1.5s, ease out) or out (0.8s, ease in)
+	 */
 	private startVideoFade(isFadeIn: boolean): void {
-		const fadeDuration = isFadeIn ? 1500 : 800; // 1.5s fade-in, 0.8s fade-out
-		this.videoFadeAnimation = {
-			isActive: true,
-			duration: fadeDuration,
-			fadeTimeElapsed: 0,
-			isFadeIn: isFadeIn,
-		};
-	}
-
-	private updateVideoFade(): void {
-		if (!this.videoFadeAnimation.isActive || !this.victoryVideoElement)
-			return;
-
-		this.videoFadeAnimation.fadeTimeElapsed += this.app.ticker.deltaMS;
-		const progress =
-			this.videoFadeAnimation.fadeTimeElapsed /
-			this.videoFadeAnimation.duration;
-
-		let easeProgress: number;
-		let opacity: number;
-
-		if (this.videoFadeAnimation.isFadeIn) {
-			// Ease out animation for fade-in
-			easeProgress = 1 - Math.pow(1 - progress, 3);
-			opacity = easeProgress;
-			sound.volume('yu-gi-oh_full_theme', 0.2 - easeProgress * 0.2); // Fade out the music
-		} else {
-			// Ease in animation for fade-out
-			easeProgress = Math.pow(progress, 3);
-			opacity = 1 - easeProgress;
-			sound.volume('yu-gi-oh_full_theme', easeProgress * 0.2); // Bring music back
-		}
-		this.victoryVideoElement.style.opacity = opacity.toString();
-
-		if (progress >= 1) {
-			// Animation complete
-			this.videoFadeAnimation.isActive = false;
-
-			if (!this.videoFadeAnimation.isFadeIn) {
-				// Fade-out complete, cleanup
-				this.cleanupVictoryVideo();
-			}
-		}
+		this.tweens.killTweensOf(this.videoFade);
+		this.tweens.to(this.videoFade, {
+			to: { opacity: isFadeIn ? 1 : 0 },
+			duration: isFadeIn ? 1500 : 800,
+			ease: isFadeIn ? Easing.cubicOut : Easing.cubicIn,
+			onUpdate: () => {
+				if (!this.victoryVideoElement) return;
+				this.victoryVideoElement.style.opacity =
+					this.videoFade.opacity.toString();
+			},
+			onComplete: () => {
+				if (!isFadeIn) {
+					this.cleanupVictoryVideo();
+				}
+			},
+		});
 	}
 
 	private cleanupVictoryVideo(): void {
@@ -808,3 +1022,13 @@ export class AceOfShadows extends Game {
 		}
 	}
 }
+
+registerGame({
+	id: 'ACE_OF_SHADOWS',
+	name: 'Ace of Shadows',
+	route: 'ace-of-shadows',
+	emoji: '🃏',
+	color: 0x1a232b, // Dark blue-grey
+	bundle: 'ace-of-shadows',
+	GameClass: AceOfShadows,
+});
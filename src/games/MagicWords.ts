@@ -7,76 +7,161 @@ import {
 	Graphics,
 	Application,
 	Assets,
-	HTMLText,
+	type FederatedWheelEvent,
 } from 'pixi.js';
-import { sound } from '@pixi/sound';
+import { audio } from '../core/AudioManager';
 import { Game } from '../core/Game';
+import { registerGame } from '../core/GameRegistry';
+import { scaled, isMobileDevice, resizeToFit, fitText } from '../core/Utils';
+import { i18n } from '../core/I18n';
+import { Easing, type Timeline } from '../core/Tween';
+import type { DialogueAsset, DialogueOrigin } from '../core/AssetLoader';
+import type { DialogueChoice, DialogueData } from '../dialogue/DialogueData';
+import { DialogueRunner } from '../dialogue/DialogueRunner';
+import { Typewriter } from '../dialogue/Typewriter';
 import {
-	textToHtmlWithEmojis,
-	scaled,
-	isMobileDevice,
-	resizeToFit,
-} from '../core/Utils';
-
-interface DialogueData {
-	dialogue: Array<{
-		name: string;
-		text: string;
-	}>;
-	emojies: Array<{
-		name: string;
-		url: string;
-	}>;
-	avatars: Array<{
-		name: string;
-		url: string;
-		position: string;
-	}>;
+	countMarkupCharacters,
+	markupToPlainText,
+	parseMarkup,
+	type MarkupToken,
+} from '../dialogue/DialogueMarkup';
+import { GlyphCache, RichText } from '../dialogue/RichText';
+import {
+	DialogueBacklog,
+	type BacklogEntry,
+} from '../dialogue/DialogueBacklog';
+import { CharacterStage } from '../dialogue/CharacterStage';
+import {
+	DialogueSaveStore,
+	type DialogueSave,
+} from '../dialogue/DialogueSaves';
+import { DialogueSavePanel } from '../dialogue/DialogueSavePanel';
+import {
+	DIALOGUE_AUTHORING_FILE,
+	DialogueAuthoring,
+	type DialogueAuthoringResult,
+} from '../dialogue/DialogueAuthoring';
+import { DialogueErrorPanel } from '../dialogue/DialogueErrorPanel';
+import { Button } from '../ui/Button';
+
+/**
+ * How lines advance: on click, automatically after a delay, or quickly until the end or a choice
+ */
+type PlaybackMode = 'manual' | 'auto' | 'skip';
+
+/**
+ * A button shown in the dialogue banner, such as a choice
+ */
+interface BannerButton {
+	text: string;
+	onClick: () => void;
 }
 
+// Name of the dialogue asset, also used to tell its saves apart
+const DIALOGUE_NAME = 'magicwords';
+
 /**
  * Interactive dialogue system game with character portraits, emoji support, and animated UI elements.
  *
  * Features a visual novel-style interface with character avatars, dialogue text with inline emoji images,
  * smooth fade-in animations, and click-to-advance functionality.
  *
+ * Lines can be styled with markup, see DialogueMarkup, and are revealed like a typewriter, holding at
+ * [pause=ms] markers and playing [sfx=alias] sound cues. Clicking during the reveal shows the whole line,
+ * and clicking again advances.
+ *
+ * Lines already shown can be read again in a backlog, opened with its button, by scrolling up or with the B key.
+ *
+ * The toolbar also toggles auto mode (A key), which advances after a delay that grows with the line's length,
+ * and skip mode (S key), which runs through lines quickly until the end or a choice.
+ *
+ * Progress is autosaved on every line, and can be saved to and loaded from slots in the toolbar's save panel.
+ * On entry, the latest save is offered to continue from.
+ *
+ * Scripts can branch: lines can link to each other, offer choices shown as buttons in the dialogue banner,
+ * and set and check variables, see DialogueData. Linear scripts play in order.
+ *
+ * If the dialogue endpoint can't be reached, plays the bundled copy of the script behind an offline badge,
+ * or shows an offline message if neither could be loaded.
+ *
+ * In development, writers can play a local dialogue file in authoring mode, see DialogueAuthoring. Saving the file
+ * reloads the script in place, staying on the current line, and its problems are listed on screen.
+ *
  * @extends Game
  */
 export class MagicWords extends Game {
 	// UI Constants
-	private readonly CHARACTER_PORTRAIT_SCALE = 2;
 	private readonly CHARACTER_NAME_FONT_SIZE = 64;
 	private readonly DIALOGUE_FONT_SIZE = 40;
 	private readonly CONTINUE_INDICATOR_FONT_SIZE = 48;
-	private readonly COMPLETION_FONT_SIZE = 48;
+	private readonly BANNER_MESSAGE_FONT_SIZE = 48;
 	private readonly TEXT_MARGIN = 50;
 	private readonly TEXT_TOP_MARGIN = 16;
 	private readonly DIALOGUE_TOP_MARGIN = 120;
 	private readonly CONTINUE_INDICATOR_MARGIN = 30;
+	private readonly OFFLINE_BADGE_FONT_SIZE = 28;
+	private readonly OFFLINE_BADGE_MARGIN = 30;
+	private readonly OFFLINE_BADGE_COLOR = 0xffb74d; // Light orange
+	private readonly CHOICE_BUTTON_WIDTH = 560;
+	private readonly CHOICE_BUTTON_HEIGHT = 72;
+	private readonly CHOICE_BUTTON_SPACING = 16;
+	private readonly CHOICE_BUTTON_FONT_SIZE = 26;
+	private readonly CHOICE_BUTTON_COLOR = 0x7e57c2; // Deep purple
+	private readonly TOOLBAR_BUTTON_WIDTH = 120;
+	private readonly TOOLBAR_BUTTON_HEIGHT = 80;
+	private readonly TOOLBAR_EMOJI_FONT_SIZE = 48;
+	private readonly TOOLBAR_TEXT_FONT_SIZE = 28;
+	private readonly TOOLBAR_BUTTON_COLOR = 0xffd700; // Golden, like the game scene buttons
+	private readonly TOOLBAR_ACTIVE_COLOR = 0x4caf50; // Green
+	private readonly TOOLBAR_MARGIN = 24;
+	private readonly TOOLBAR_SPACING = 16;
+	private readonly AUTO_ADVANCE_BASE_DELAY = 1000;
+	private readonly AUTO_ADVANCE_DELAY_PER_CHARACTER = 50;
+	private readonly SKIP_ADVANCE_DELAY = 100;
 	private readonly ANIMATION_MOVEMENT = 10;
+	private readonly ANIMATION_HALF_PERIOD = 1047; // ~2.1 seconds for a full up and down cycle
+	private readonly DARK_OVERLAY_ALPHA = 0.3;
+	private readonly DIALOGUE_BANNER_ALPHA = 0.9;
+	private readonly FADE_IN_DURATION = 500;
+	private readonly DIALOGUE_START_DELAY = 1000;
+	private readonly TYPEWRITER_CHARACTERS_PER_SECOND = 40;
 
 	// UI Elements
 	private background!: Sprite;
 	private darkOverlay!: Graphics;
 	private dialogueBanner!: Graphics;
-	private characterPortrait!: Sprite;
+	private stage!: CharacterStage;
 	private characterNameText!: Text;
-	private dialogueTextContainer!: HTMLText;
-	private completionText!: Text;
+	private dialogueTextContainer!: RichText;
+	private bannerMessage!: Text;
 	private continueIndicator!: Text;
-	private dialogueData!: DialogueData;
-	private currentDialogueIndex: number = 0;
+	private offlineBadge: Text | null = null;
+	private choiceButtons: Button[] = [];
+	private toolbar: Container | null = null;
+	private toolbarButtons: Button[] = [];
+	private autoButton: Button | null = null;
+	private skipButton: Button | null = null;
+	private backlog: DialogueBacklog | null = null;
+	private savePanel: DialogueSavePanel | null = null;
+	private errorPanel: DialogueErrorPanel | null = null;
+	private dialogueData: DialogueData | null = null;
+	private dialogueOrigin: DialogueOrigin | null = null;
+	private dialogue: DialogueRunner | null = null;
+	private saves: DialogueSaveStore | null = null;
+	private typewriter: Typewriter | null = null;
+	private glyphs: GlyphCache | null = null;
+	private playbackMode: PlaybackMode = 'manual';
+	private autoAdvanceDelay: Timeline | null = null;
+	private authoring: DialogueAuthoring | null = null;
+	private isPaused: boolean = false;
 
-	// Dialogue and animation state
-	private timeout: ReturnType<typeof setTimeout> | null = null;
-	private overlayAnimationTime: number = 0;
-	private dialogueBannerAnimationTime: number = 0;
-	private darkOverlayAlpha: number = 0;
-	private dialogueBannerAlpha: number = 0;
+	// Animation state
+	private continueIndicatorBob = { offset: -1 };
 
 	// Data
-	private emojiBase64Map: Map<string, string> = new Map();
+	private emojiTextures: Map<string, Texture> = new Map();
 	private avatarMap: Map<string, Texture> = new Map();
+	private dialogueAsset: DialogueAsset | null = null;
 
 	constructor(
 		app: Application,
@@ -99,6 +184,7 @@ export class MagicWords extends Game {
 
 		// Dark overlay
 		this.darkOverlay = new Graphics();
+		this.darkOverlay.alpha = 0;
 		this.backgroundContainer.addChild(this.darkOverlay);
 	}
 
@@ -107,69 +193,66 @@ export class MagicWords extends Game {
 	}
 
 	public update(_deltaTime: number): void {
-		if (!this.continueIndicator) return;
-		// Animate the continue indicator up and down
-		const time = Date.now() * 0.003;
-		const movement = Math.sin(time) * scaled(this.ANIMATION_MOVEMENT);
-		this.continueIndicator.y =
-			this.app.screen.height -
-			scaled(this.CONTINUE_INDICATOR_MARGIN) +
-			movement;
-
-		// Sync blinking with movement: opaque at top, transparent at bottom
-		// Convert movement range (-5 to +5) to alpha range (1.0 to 0.6)
-		const normalizedMovement = (movement + 5) / 10; // 0 to 1
-		this.continueIndicator.alpha = 0.6 + 0.4 * normalizedMovement;
+		// Text effects animate every frame, everything else is tween-driven
+		this.dialogueTextContainer?.update(this.ticker.deltaMS);
 	}
 
 	public start(): void {
+		this.ticker.add(this.update, this);
+
 		// Start animation sequence after 1 second
-		this.timeout = setTimeout(() => {
-			this.app.ticker.add(this.animateDarkening, this);
+		this.tweens.delay(this.DIALOGUE_START_DELAY, () => {
+			this.tweens.to(this.darkOverlay, {
+				to: { alpha: 1 },
+				duration: this.FADE_IN_DURATION,
+			});
 			this.createDialogueUI();
-		}, 1000);
-		this.app.ticker.add(this.update, this);
-		sound.play('street_ambience', { loop: true, volume: 0.5 });
+		});
+		audio.playAmbience('street_ambience', { volume: 0.1 });
 	}
 
-	private animateDarkening = (): void => {
-		this.overlayAnimationTime += this.app.ticker.deltaMS;
-		const progress = Math.min(this.overlayAnimationTime / 500, 1); // 0.5 seconds
-
-		// Darken the overlay
-		this.darkOverlay.clear();
-		this.darkOverlayAlpha = progress * 0.3; // 30% opacity max
-		this.darkOverlay.beginFill(0x000000, this.darkOverlayAlpha);
-		this.darkOverlay.drawRect(
-			0,
-			0,
-			this.app.screen.width,
-			this.app.screen.height
+	private createDialogueUI(): void {
+		// Glyphs of the dialogue text, shared with the backlog
+		this.glyphs = new GlyphCache(
+			'Arial, sans-serif',
+			this.app.renderer.resolution
 		);
-		this.darkOverlay.endFill();
-
-		if (progress >= 1) {
-			this.app.ticker.remove(this.animateDarkening, this);
-		}
-	};
 
-	private createDialogueUI(): void {
 		// Create grey banner covering bottom 40% of the page (initially transparent)
 		this.dialogueBanner = new Graphics();
+		this.dialogueBanner.alpha = 0;
+		this.drawDialogueBanner();
 		this.foregroundContainer.addChild(this.dialogueBanner);
 
-		// Start banner fade-in animation
-		this.dialogueBannerAnimationTime = 0;
-		this.app.ticker.add(this.animateBannerFadeIn, this);
+		// Fade in the banner, then start the first dialogue
+		this.tweens.to(this.dialogueBanner, {
+			to: { alpha: 1 },
+			duration: this.FADE_IN_DURATION,
+			onComplete: () => {
+				if (DIALOGUE_AUTHORING_FILE) {
+					this.startAuthoring();
+				}
+
+				if (!this.dialogueData) {
+					this.showBannerMessage(i18n.t('magicWords.loadFailed'));
+					return;
+				}
+
+				this.setUpDialogue();
+			},
+		});
+
+		// Let the player know when the live script couldn't be fetched
+		if (
+			this.dialogueOrigin !== 'remote' &&
+			this.dialogueOrigin !== 'translation'
+		) {
+			this.createOfflineBadge();
+		}
 
-		// Create character portrait (initially hidden)
-		this.characterPortrait = new Sprite();
-		this.characterPortrait.anchor.set(0.5, 1);
-		this.characterPortrait.x = this.app.screen.width * 0.5;
-		this.characterPortrait.y = this.app.screen.height * 0.6;
-		this.characterPortrait.scale.set(scaled(this.CHARACTER_PORTRAIT_SCALE)); // Larger scale
-		this.characterPortrait.visible = false;
-		this.foregroundContainer.addChild(this.characterPortrait);
+		// Create character stage, where speakers enter as they speak
+		this.stage = new CharacterStage(this.app, this.tweens);
+		this.foregroundContainer.addChild(this.stage);
 
 		// Create character name text
 		this.characterNameText = new Text(
@@ -203,16 +286,473 @@ export class MagicWords extends Game {
 			this.app.screen.height - scaled(this.CONTINUE_INDICATOR_MARGIN);
 		this.continueIndicator.visible = false; // Hidden initially
 		this.foregroundContainer.addChild(this.continueIndicator);
+
+		// Animate the continue indicator up and down, syncing blinking with movement
+		this.tweens.to(this.continueIndicatorBob, {
+			to: { offset: 1 },
+			duration: this.ANIMATION_HALF_PERIOD,
+			ease: Easing.sineInOut,
+			repeat: -1,
+			yoyo: true,
+			onUpdate: () => this.positionContinueIndicator(),
+		});
+	}
+
+	/**
+	 * Shows the continue indicator, creates the toolbar and its panels, and starts the dialogue
+	 */
+	private setUpDialogue(): void {
+		this.continueIndicator.visible = true;
+		this.backlog = new DialogueBacklog(
+			this.app,
+			this.glyphs!,
+			this.emojiTextures
+		);
+		this.savePanel = new DialogueSavePanel(this.app, {
+			onSave: slot => this.saveToSlot(slot),
+			onLoad: slot => this.loadFromSlot(slot),
+		});
+		this.createToolbar();
+		this.startDialogue();
+	}
+
+	/**
+	 * Creates the toolbar in the top left corner, with the backlog button and the auto and skip toggles
+	 */
+	private createToolbar(): void {
+		this.toolbar = new Container();
+		// Keep presses from advancing the dialogue
+		this.toolbar.eventMode = 'static';
+		this.toolbar.on('pointerdown', event => event.stopPropagation());
+		this.foregroundContainer.addChild(this.toolbar);
+
+		const createToolbarButton = (
+			label: { emoji?: string; text?: string },
+			onClick: () => void
+		): Button =>
+			new Button({
+				...label,
+				color: this.TOOLBAR_BUTTON_COLOR,
+				width: this.TOOLBAR_BUTTON_WIDTH,
+				height: this.TOOLBAR_BUTTON_HEIGHT,
+				margin: 1,
+				fontSize: label.emoji
+					? this.TOOLBAR_EMOJI_FONT_SIZE
+					: this.TOOLBAR_TEXT_FONT_SIZE,
+				onClick,
+			});
+
+		this.autoButton = createToolbarButton(
+			{ text: i18n.t('magicWords.auto') },
+			() => this.togglePlaybackMode('auto')
+		);
+		this.skipButton = createToolbarButton(
+			{ text: i18n.t('magicWords.skip') },
+			() => this.togglePlaybackMode('skip')
+		);
+		this.toolbarButtons = [
+			createToolbarButton({ emoji: '📜' }, () => this.openBacklog()),
+			createToolbarButton({ emoji: '💾' }, () => this.openSavePanel()),
+			this.autoButton,
+			this.skipButton,
+		];
+		this.toolbarButtons.forEach(button => this.toolbar!.addChild(button));
+		this.positionToolbar();
+	}
+
+	private positionToolbar(): void {
+		const buttonWidth = scaled(this.TOOLBAR_BUTTON_WIDTH);
+		this.toolbarButtons.forEach((button, i) => {
+			button.onResize();
+			button.x =
+				scaled(this.TOOLBAR_MARGIN) +
+				buttonWidth * 0.5 +
+				i * (buttonWidth + scaled(this.TOOLBAR_SPACING));
+			button.y =
+				scaled(this.TOOLBAR_MARGIN) +
+				scaled(this.TOOLBAR_BUTTON_HEIGHT) * 0.5;
+		});
+	}
+
+	private togglePlaybackMode(mode: PlaybackMode): void {
+		this.setPlaybackMode(this.playbackMode === mode ? 'manual' : mode);
+	}
+
+	private setPlaybackMode(mode: PlaybackMode): void {
+		this.playbackMode = mode;
+		this.autoButton?.setColor(
+			mode === 'auto'
+				? this.TOOLBAR_ACTIVE_COLOR
+				: this.TOOLBAR_BUTTON_COLOR
+		);
+		this.skipButton?.setColor(
+			mode === 'skip'
+				? this.TOOLBAR_ACTIVE_COLOR
+				: this.TOOLBAR_BUTTON_COLOR
+		);
+
+		this.autoAdvanceDelay?.kill();
+		this.autoAdvanceDelay = null;
+
+		// Skipping shows the line being revealed at once, which schedules the next advance
+		if (mode === 'skip' && this.typewriter?.isActive()) {
+			this.typewriter.complete();
+		} else if (!this.typewriter?.isActive()) {
+			this.scheduleAutoAdvance();
+		}
+	}
+
+	/**
+	 * Advances after a delay in auto and skip modes, once the current line is fully shown.
+	 * Skip mode stops at choices, while auto mode waits for the choice to be picked
+	 */
+	private scheduleAutoAdvance(): void {
+		const line = this.dialogue?.getCurrentLine();
+		if (this.playbackMode === 'manual' || !this.dialogue || !line) return;
+
+		if (this.dialogue.isAwaitingChoice()) {
+			if (this.playbackMode === 'skip') {
+				this.setPlaybackMode('manual');
+			}
+			return;
+		}
+
+		const length = countMarkupCharacters(parseMarkup(line.text));
+		const delay =
+			this.playbackMode === 'skip'
+				? this.SKIP_ADVANCE_DELAY
+				: this.AUTO_ADVANCE_BASE_DELAY +
+					length * this.AUTO_ADVANCE_DELAY_PER_CHARACTER;
+
+		this.autoAdvanceDelay?.kill();
+		this.autoAdvanceDelay = this.tweens.delay(delay, () => {
+			this.autoAdvanceDelay = null;
+
+			// Wait for the backlog and save panel to be closed
+			if (this.backlog?.isOpen() || this.savePanel?.isOpen()) {
+				this.scheduleAutoAdvance();
+			} else {
+				this.advanceDialogue();
+			}
+		});
+	}
+
+	private openBacklog(): void {
+		if (!this.backlog) return;
+
+		// Re-added so that it covers anything created since, such as choice buttons
+		this.foregroundContainer.addChild(this.backlog);
+		this.backlog.open();
+	}
+
+	private openSavePanel(): void {
+		if (!this.savePanel || !this.saves) return;
+
+		// Re-added so that it covers anything created since, such as choice buttons
+		this.foregroundContainer.addChild(this.savePanel);
+		this.savePanel.open(this.saves.getSlots());
+	}
+
+	private saveToSlot(slot: number): void {
+		// Nothing to save once the dialogue is complete
+		const progress = this.dialogue?.getProgress();
+		if (!this.saves || !progress) return;
+
+		this.saves.save(slot, progress);
+		this.savePanel?.refresh(this.saves.getSlots());
+	}
+
+	private loadFromSlot(slot: number): void {
+		const save = this.saves?.getSlots()[slot];
+		if (save) {
+			this.savePanel?.close();
+			this.loadSave(save);
+		}
+	}
+
+	/**
+	 * Starts the dialogue, offering to continue from the latest save if there is one
+	 */
+	private startDialogue(): void {
+		const save = this.saves?.getLatest();
+		if (!save) {
+			this.showCurrentDialogue();
+			this.addCurrentLineToBacklog();
+			return;
+		}
+
+		this.showBannerMessage(i18n.t('magicWords.welcomeBack'));
+		this.showBannerButtons([
+			{
+				text: i18n.t('magicWords.continue'),
+				onClick: () => this.loadSave(save),
+			},
+			{
+				text: i18n.t('magicWords.startOver'),
+				onClick: () => this.startOver(),
+			},
+		]);
+	}
+
+	/**
+	 * Picks up the dialogue from a save. If its line is no longer in the script, offers to start over instead
+	 */
+	private loadSave(save: DialogueSave): void {
+		const progress = this.saves?.resolve(save);
+		if (!this.dialogue || !progress) {
+			this.showBannerMessage(i18n.t('magicWords.saveOutdated'));
+			this.showBannerButtons([
+				{
+					text: i18n.t('magicWords.startOver'),
+					onClick: () => this.startOver(),
+				},
+			]);
+			return;
+		}
+
+		this.dialogue.restore(progress);
+		this.hideBannerMessage();
+		this.showCurrentDialogue();
+
+		// The lines read before the save aren't saved, so the backlog starts again from its line
+		this.backlog?.clear();
+		this.addCurrentLineToBacklog();
+	}
+
+	private startOver(): void {
+		this.dialogue?.restart();
+		this.hideBannerMessage();
+		this.showCurrentDialogue();
+		this.backlog?.clear();
+		this.addCurrentLineToBacklog();
+	}
+
+	/**
+	 * Saves the current line to the autosave slot. Clears the autosave at the start of the dialogue and once it is
+	 * complete, since there is nothing to continue then
+	 */
+	private autosave(): void {
+		if (!this.saves) return;
+
+		const progress = this.dialogue?.getProgress();
+		if (
+			!progress ||
+			(progress.lineIndex === 0 && progress.choices.length === 0)
+		) {
+			this.saves.delete(DialogueSaveStore.AUTOSAVE_SLOT);
+		} else {
+			this.saves.save(DialogueSaveStore.AUTOSAVE_SLOT, progress);
+		}
+	}
+
+	private onWheel = (event: FederatedWheelEvent): void => {
+		// Scrolling up over the dialogue opens the backlog, like in most visual novels
+		if (event.deltaY < 0) {
+			this.openBacklog();
+		}
+	};
+
+	private onKeyDown = (event: KeyboardEvent): void => {
+		// Leave browser shortcuts and held keys alone, and ignore keys while paused
+		if (
+			event.ctrlKey ||
+			event.metaKey ||
+			event.altKey ||
+			event.repeat ||
+			this.isPaused
+		) {
+			return;
+		}
+
+		// Modes only apply once the dialogue has started
+		if (event.code === 'KeyA' && this.toolbar) {
+			this.togglePlaybackMode('auto');
+		} else if (event.code === 'KeyS' && this.toolbar) {
+			this.togglePlaybackMode('skip');
+		} else if (event.code === 'KeyB') {
+			if (this.backlog?.isOpen()) {
+				this.backlog.close();
+			} else {
+				this.openBacklog();
+			}
+		} else if (event.code === 'Escape') {
+			this.backlog?.close();
+			this.savePanel?.close();
+		} else if (event.code === 'KeyP' && import.meta.env.DEV) {
+			this.benchmarkDialogueText();
+		}
+	};
+
+	/**
+	 * Logs how long the script's lines take to show and reveal with RichText, compared with HTMLText.
+	 * Development builds only, so the benchmark is left out of production bundles
+	 */
+	private async benchmarkDialogueText(): Promise<void> {
+		if (!import.meta.env.DEV || !this.dialogueData) return;
+
+		console.log('Benchmarking dialogue text rendering...');
+		try {
+			const { benchmarkDialogueText } =
+				await import('../dialogue/RichTextBenchmark');
+			const results = await benchmarkDialogueText(
+				this.app,
+				this.dialogueData.dialogue.map(line => line.text),
+				this.emojiTextures,
+				scaled(this.DIALOGUE_FONT_SIZE),
+				this.getDialogueTextWidth()
+			);
+			console.table(results);
+		} catch (error) {
+			console.error('Dialogue text benchmark failed:', error);
+		}
 	}
 
-	private animateBannerFadeIn = (): void => {
-		this.dialogueBannerAnimationTime += this.app.ticker.deltaMS;
-		const progress = Math.min(this.dialogueBannerAnimationTime / 500, 1); // 0.5 seconds
+	/**
+	 * Watches the authored dialogue file, checking it once now, so that problems with the version loaded show on screen
+	 */
+	private startAuthoring(): void {
+		this.errorPanel = new DialogueErrorPanel(this.app);
+		this.foregroundContainer.addChild(this.errorPanel);
+		this.authoring = new DialogueAuthoring(this.dialogueAsset, result =>
+			this.onDialogueAuthored(result)
+		);
+		this.authoring.load();
+	}
+
+	private onDialogueAuthored({
+		data,
+		problems,
+	}: DialogueAuthoringResult): void {
+		if (problems.length === 0) {
+			this.errorPanel?.hide();
+		} else if (this.errorPanel) {
+			// Re-added so that it covers anything created since, such as choice buttons
+			this.foregroundContainer.addChild(this.errorPanel);
+			this.errorPanel.show(
+				data
+					? `${DIALOGUE_AUTHORING_FILE} has problems, the invalid parts were left out`
+					: `${DIALOGUE_AUTHORING_FILE} was rejected, the last valid version keeps playing`,
+				problems
+			);
+		}
+
+		// Nothing to reload if the file was rejected or saved unchanged
+		if (
+			!data ||
+			JSON.stringify(data) === JSON.stringify(this.dialogueData)
+		) {
+			return;
+		}
+		this.reloadDialogue(data);
+	}
 
-		// Fade in the banner
+	/**
+	 * Swaps in a new version of the script, staying on the current line wherever it moved to, the way saves are
+	 * resolved. If the line was removed, stays at the same position in the script. A complete dialogue starts over.
+	 *
+	 * Emoji and avatar images are only loaded with the scene, so new ones show as placeholders until the page is reloaded
+	 */
+	private reloadDialogue(data: DialogueData): void {
+		const progress = this.dialogue?.getProgress() ?? null;
+		const save = progress && this.saves?.snapshot(progress);
+
+		this.dialogueData = data;
+		this.dialogue = new DialogueRunner(data);
+		this.saves = new DialogueSaveStore(DIALOGUE_NAME, data);
+
+		// The file is playing, whatever was loaded with the scene
+		this.offlineBadge?.destroy();
+		this.offlineBadge = null;
+
+		// The first valid version of a script that couldn't be loaded with the scene
+		if (!this.toolbar) {
+			this.hideBannerMessage();
+			this.setUpDialogue();
+			return;
+		}
+
+		if (progress && save) {
+			this.dialogue.restore(
+				this.saves.resolve(save) ?? {
+					...progress,
+					lineIndex: Math.min(
+						progress.lineIndex,
+						data.dialogue.length - 1
+					),
+				}
+			);
+		}
+		this.autoAdvanceDelay?.kill();
+		this.autoAdvanceDelay = null;
+		this.hideBannerMessage();
+		this.showCurrentDialogue();
+
+		// The lines read so far stay in the backlog, with the current one updated. A complete dialogue starts over
+		const entry = this.getCurrentBacklogEntry();
+		if (progress && entry) {
+			this.backlog?.replaceLastEntry(entry);
+		} else {
+			this.backlog?.clear();
+			this.addCurrentLineToBacklog();
+		}
+	}
+
+	private createOfflineBadge(): void {
+		this.offlineBadge = new Text(
+			this.dialogueData
+				? i18n.t('magicWords.offlineCached')
+				: i18n.t('magicWords.offlineUnavailable'),
+			new TextStyle({
+				fontFamily: 'Arial, sans-serif',
+				fontSize: scaled(this.OFFLINE_BADGE_FONT_SIZE),
+				fill: this.OFFLINE_BADGE_COLOR,
+				fontWeight: 'bold',
+			})
+		);
+		this.offlineBadge.anchor.set(0.5, 0);
+		this.positionOfflineBadge();
+		this.foregroundContainer.addChild(this.offlineBadge);
+	}
+
+	private positionOfflineBadge(): void {
+		if (!this.offlineBadge) return;
+
+		this.offlineBadge.style.fontSize = scaled(this.OFFLINE_BADGE_FONT_SIZE);
+		fitText(
+			this.offlineBadge,
+			this.app.screen.width - scaled(this.TEXT_MARGIN) * 2,
+			false
+		);
+		this.offlineBadge.x = this.app.screen.width * 0.5;
+		this.offlineBadge.y = scaled(this.OFFLINE_BADGE_MARGIN);
+	}
+
+	private positionContinueIndicator(): void {
+		const offset = this.continueIndicatorBob.offset;
+		this.continueIndicator.x =
+			this.app.screen.width - scaled(this.CONTINUE_INDICATOR_MARGIN);
+		this.continueIndicator.y =
+			this.app.screen.height -
+			scaled(this.CONTINUE_INDICATOR_MARGIN) +
+			offset * scaled(this.ANIMATION_MOVEMENT);
+		this.continueIndicator.alpha = 0.6 + 0.4 * (offset + 1) * 0.5;
+	}
+
+	private drawDarkOverlay(): void {
+		this.darkOverlay.clear();
+		this.darkOverlay.beginFill(0x000000, this.DARK_OVERLAY_ALPHA);
+		this.darkOverlay.drawRect(
+			0,
+			0,
+			this.app.screen.width,
+			this.app.screen.height
+		);
+		this.darkOverlay.endFill();
+	}
+
+	private drawDialogueBanner(): void {
 		this.dialogueBanner.clear();
-		this.dialogueBannerAlpha = progress * 0.9;
-		this.dialogueBanner.beginFill(0x404040, this.dialogueBannerAlpha);
+		this.dialogueBanner.beginFill(0x404040, this.DIALOGUE_BANNER_ALPHA);
 		this.dialogueBanner.drawRect(
 			0,
 			this.app.screen.height * 0.6,
@@ -220,119 +760,270 @@ export class MagicWords extends Game {
 			this.app.screen.height * 0.4
 		);
 		this.dialogueBanner.endFill();
+	}
 
-		if (progress >= 1) {
-			// Animation complete, start the first dialogue
-			this.app.ticker.remove(this.animateBannerFadeIn, this);
-			// Show the continue indicator now that dialogue is starting
-			this.continueIndicator.visible = true;
-			this.showCurrentDialogue();
+	private onDialoguePointerDown = (): void => {
+		// Clicking stops skipping, rather than advancing
+		if (this.playbackMode === 'skip') {
+			this.setPlaybackMode('manual');
+			return;
 		}
+
+		this.advanceDialogue();
 	};
 
-	private advanceDialogue = (): void => {
-		sound.play('dialogue_next');
+	private advanceDialogue(): void {
+		// Nothing to advance through without a script, and choices and prompts are picked with their buttons
+		if (!this.dialogue) return;
 
-		if (this.isDialogueComplete()) {
-			// Hide completion text and restart dialogue index
-			this.completionText.visible = false;
-			this.currentDialogueIndex = 0;
-			this.showCurrentDialogue();
+		// Advancing by hand restarts the auto mode delay from the next line
+		this.autoAdvanceDelay?.kill();
+		this.autoAdvanceDelay = null;
 
-			// Make dialogue text container visible again
-			this.dialogueTextContainer.visible = true;
+		// The first click reveals the whole line, the next one advances
+		if (this.typewriter?.isActive()) {
+			this.typewriter.complete();
+			return;
+		}
+
+		if (this.choiceButtons.length > 0) return;
+
+		// Skipping is too fast for a sound per line
+		if (this.playbackMode !== 'skip') {
+			audio.playSfx('dialogue_next', { volume: 0.2 });
+		}
+
+		if (this.dialogue.isComplete()) {
+			// Hide completion text and restart the dialogue, resetting its variables
+			this.startOver();
 		} else {
-			this.currentDialogueIndex++;
+			this.dialogue.advance();
 			this.showCurrentDialogue();
+			this.addCurrentLineToBacklog();
 		}
-	};
+	}
 
-	private loadDialogueData(): void {
-		// Get the preloaded dialogue data from cache (using the first dialogue file)
-		this.dialogueData = Assets.cache.get('dialogue-data-magicwords');
-		this.emojiBase64Map = Assets.cache.get('emoji-base64');
-		this.avatarMap = Assets.cache.get('avatar-textures');
+	private chooseOption(choice: DialogueChoice): void {
+		this.dialogue?.choose(choice);
+		this.showCurrentDialogue();
+		this.addCurrentLineToBacklog();
 	}
 
-	private isDialogueComplete(): boolean {
-		return this.currentDialogueIndex >= this.dialogueData.dialogue.length;
+	private loadDialogueData(): void {
+		// Get the preloaded dialogue data from cache (using the first dialogue file). Null if it couldn't be loaded
+		this.dialogueData =
+			Assets.cache.get(`dialogue-data-${DIALOGUE_NAME}`) ?? null;
+		this.dialogueOrigin =
+			Assets.cache.get(`dialogue-origin-${DIALOGUE_NAME}`) ?? null;
+		this.emojiTextures =
+			Assets.cache.get(`emoji-textures-${DIALOGUE_NAME}`) ?? new Map();
+		this.avatarMap =
+			Assets.cache.get(`avatar-textures-${DIALOGUE_NAME}`) ?? new Map();
+		this.dialogueAsset =
+			Assets.cache.get(`dialogue-asset-${DIALOGUE_NAME}`) ?? null;
+
+		if (this.dialogueData) {
+			this.dialogue = new DialogueRunner(this.dialogueData);
+			this.saves = new DialogueSaveStore(
+				DIALOGUE_NAME,
+				this.dialogueData
+			);
+		}
 	}
 
 	private showCurrentDialogue(): void {
-		if (this.isDialogueComplete()) {
+		const dialogueEntry = this.dialogue?.getCurrentLine();
+		if (!this.dialogue || !dialogueEntry) {
+			// A choice can end the dialogue, so its buttons are cleared first
+			this.showChoices([]);
 			this.showDialogueComplete();
+			this.autosave();
+
+			// Skipping stops at the end, while auto mode carries on once the dialogue is restarted
+			if (this.playbackMode === 'skip') {
+				this.setPlaybackMode('manual');
+			}
 			return;
 		}
 
-		const dialogueEntry =
-			this.dialogueData.dialogue[this.currentDialogueIndex];
-
 		// Show character name
 		this.characterNameText.text = dialogueEntry.name;
+		this.autosave();
 
 		// Show character portrait
 		this.showCharacterPortrait(dialogueEntry.name);
 
-		// Show dialogue text with emojis
-		this.showDialogueText(dialogueEntry.text);
+		// Reveal dialogue text with emojis, then show choices, if any, in place of the continue indicator
+		this.clearChoices();
+		this.continueIndicator.visible = false;
+		this.showDialogueText(dialogueEntry.text, () => {
+			if (this.dialogue) {
+				this.showChoices(this.dialogue.getChoices());
+				this.scheduleAutoAdvance();
+			}
+		});
 	}
 
-	private showCharacterPortrait(characterName: string): void {
-		const avatarTexture = this.avatarMap.get(characterName);
-
-		if (avatarTexture) {
-			// Use the character's specific portrait
-			this.characterPortrait.texture = avatarTexture;
-			this.characterPortrait.visible = true;
-		} else {
-			// Use unknown.png for characters without portraits
-			const unknownTexture = Assets.get('assets/sprites/unknown.png');
-			if (unknownTexture) {
-				this.characterPortrait.texture = unknownTexture;
-				this.characterPortrait.visible = true;
-			} else {
-				// If unknown.png is not available, hide the portrait
-				this.characterPortrait.visible = false;
-				return;
-			}
+	/**
+	 * Keeps the line being shown for the backlog. Only called when a line is reached, not when it is shown again
+	 */
+	private addCurrentLineToBacklog(): void {
+		const entry = this.getCurrentBacklogEntry();
+		if (entry) {
+			this.backlog?.addEntry(entry);
 		}
+	}
 
-		// Position based on character position from dialogue data
-		this.positionCharacterPortrait(characterName);
+	private getCurrentBacklogEntry(): BacklogEntry | null {
+		const line = this.dialogue?.getCurrentLine();
+		if (!line) return null;
+
+		return {
+			name: line.name,
+			text: line.text,
+			avatar:
+				this.avatarMap.get(line.name) ??
+				Assets.get('assets/sprites/unknown.png') ??
+				null,
+		};
 	}
 
-	private positionCharacterPortrait(characterName: string): void {
+	private showChoices(choices: DialogueChoice[]): void {
+		this.showBannerButtons(
+			choices.map(choice => ({
+				// Buttons can't show markup or emoji images, so they are left out
+				text: markupToPlainText(choice.text),
+				onClick: () => this.chooseOption(choice),
+			}))
+		);
+	}
+
+	/**
+	 * Shows buttons in the dialogue banner in place of the continue indicator, replacing any shown before.
+	 * Clicking the banner does nothing while they are shown
+	 */
+	private showBannerButtons(buttons: BannerButton[]): void {
+		this.clearChoices();
+
+		this.choiceButtons = buttons.map(
+			({ text, onClick }) =>
+				new Button({
+					text,
+					color: this.CHOICE_BUTTON_COLOR,
+					width: this.CHOICE_BUTTON_WIDTH,
+					height: this.CHOICE_BUTTON_HEIGHT,
+					fontSize: this.CHOICE_BUTTON_FONT_SIZE,
+					onClick,
+				})
+		);
+		this.choiceButtons.forEach(button =>
+			this.foregroundContainer.addChild(button)
+		);
+		this.continueIndicator.visible = this.choiceButtons.length === 0;
+
+		this.positionChoiceButtons();
+	}
+
+	private clearChoices(): void {
+		this.choiceButtons.forEach(button => button.destroy());
+		this.choiceButtons = [];
+	}
+
+	/**
+	 * Stacks the choice buttons in the bottom right of the dialogue banner, first choice on top
+	 */
+	private positionChoiceButtons(): void {
+		const buttonHeight = scaled(this.CHOICE_BUTTON_HEIGHT);
+		const spacing = scaled(this.CHOICE_BUTTON_SPACING);
+		const x =
+			this.app.screen.width -
+			scaled(this.TEXT_MARGIN) -
+			scaled(this.CHOICE_BUTTON_WIDTH) * 0.5;
+
+		this.choiceButtons.forEach((button, i) => {
+			const rowsFromBottom = this.choiceButtons.length - 1 - i;
+			button.x = x;
+			button.y =
+				this.app.screen.height -
+				scaled(this.CONTINUE_INDICATOR_MARGIN) -
+				buttonHeight * 0.5 -
+				rowsFromBottom * (buttonHeight + spacing);
+		});
+	}
+
+	/**
+	 * Gets the dialogue text width, leaving room for the choice buttons when they are shown
+	 */
+	private getDialogueTextWidth(): number {
+		const fullWidth = this.app.screen.width - scaled(this.TEXT_MARGIN) * 2;
+		if (!this.dialogue?.isAwaitingChoice()) return fullWidth;
+
+		return (
+			fullWidth -
+			scaled(this.CHOICE_BUTTON_WIDTH) -
+			scaled(this.TEXT_MARGIN)
+		);
+	}
+
+	private showCharacterPortrait(characterName: string): void {
+		// Use unknown.png for characters without portraits
+		const texture =
+			this.avatarMap.get(characterName) ??
+			Assets.get('assets/sprites/unknown.png');
+		if (!texture) return;
+
+		// Characters without an avatar stand on the right, like those with an invalid position
 		const avatarData = this.dialogueData?.avatars.find(
 			a => a.name === characterName
 		);
-		if (avatarData?.position === 'left') {
-			this.characterPortrait.x = this.app.screen.width * 0.2; // Left side
-		} else {
-			this.characterPortrait.x = this.app.screen.width * 0.8; // Right side
-		}
+		this.stage.setSpeaker(
+			characterName,
+			texture,
+			avatarData?.position ?? 'right'
+		);
 	}
 
 	/**
-	 * Renders dialogue text with inline emoji images using HTMLText.
-	 *
-	 * Replaces {emoji} tags with img tags
+	 * Reveals dialogue text like a typewriter, with inline emoji images.
 	 *
-	 * @param text - The dialogue text containing {emoji} tags
+	 * @param text - The dialogue text, with markup
+	 * @param onRevealed - Callback when the whole line is shown
 	 */
-	private showDialogueText(text: string): void {
+	private showDialogueText(text: string, onRevealed: () => void): void {
+		const tokens = parseMarkup(text);
+		this.typewriter?.kill();
+		this.typewriter = this.tweens.add(
+			new Typewriter(tokens, {
+				charactersPerSecond: this.TYPEWRITER_CHARACTERS_PER_SECOND,
+				onUpdate: revealedCharacters =>
+					this.dialogueTextContainer.setVisibleCharacters(
+						revealedCharacters
+					),
+				onCue: alias => audio.playSfx(alias, { volume: 0.2 }),
+				onComplete: onRevealed,
+			})
+		);
+		this.renderDialogueText(tokens);
+
+		// Skipping shows lines whole
+		if (this.playbackMode === 'skip') {
+			this.typewriter.complete();
+		}
+	}
+
+	/**
+	 * Lays out dialogue text with inline emoji images, showing the part the typewriter revealed
+	 * @param tokens - The parsed text of a new line, or undefined to lay out the current line again, e.g. on resize
+	 */
+	private renderDialogueText(tokens?: MarkupToken[]): void {
 		const fontSize = scaled(this.DIALOGUE_FONT_SIZE);
-		// Replace {emoji} tags with <img> tags using the emojiMap
-		const html = textToHtmlWithEmojis(text, this.emojiBase64Map, fontSize);
 
 		// Create container if it doesn't exist
 		if (!this.dialogueTextContainer) {
-			this.dialogueTextContainer = new HTMLText(html, {
-				fontFamily: 'Arial, sans-serif',
-				fontSize: fontSize,
+			this.dialogueTextContainer = new RichText({
+				glyphs: this.glyphs!,
+				emojiTextures: this.emojiTextures,
 				fill: '#ffffff',
-				wordWrap: true,
-				align: 'left',
-				whiteSpace: 'normal',
 			});
 			this.foregroundContainer.addChild(this.dialogueTextContainer);
 		}
@@ -341,40 +1032,91 @@ export class MagicWords extends Game {
 		this.dialogueTextContainer.x = scaled(this.TEXT_MARGIN);
 		this.dialogueTextContainer.y =
 			this.app.screen.height * 0.6 + scaled(this.DIALOGUE_TOP_MARGIN);
-		this.dialogueTextContainer.text = html;
-		this.dialogueTextContainer.style.fontSize = fontSize;
-		this.dialogueTextContainer.style.wordWrapWidth =
-			this.app.screen.width - scaled(this.TEXT_MARGIN) * 2;
+		if (tokens) {
+			this.dialogueTextContainer.setText(
+				tokens,
+				fontSize,
+				this.getDialogueTextWidth()
+			);
+		} else {
+			this.dialogueTextContainer.setSize(
+				fontSize,
+				this.getDialogueTextWidth()
+			);
+		}
+		this.dialogueTextContainer.setVisibleCharacters(
+			this.typewriter?.getRevealedCount() ?? 0
+		);
 	}
 
 	private showDialogueComplete(): void {
-		this.characterPortrait.visible = false;
+		this.showBannerMessage(
+			i18n.t(
+				isMobileDevice()
+					? 'magicWords.completeTap'
+					: 'magicWords.completeClick'
+			)
+		);
+	}
+
+	/**
+	 * Hides the current dialogue and shows a message in the middle of the banner
+	 * @param message - The message to show
+	 */
+	private showBannerMessage(message: string): void {
+		this.stage?.exitAll();
 		this.characterNameText.text = '';
 
 		// Hide dialogue text container (don't destroy it, we'll reuse it)
+		this.typewriter?.kill();
 		if (this.dialogueTextContainer) {
 			this.dialogueTextContainer.visible = false;
 		}
 
-		// Create completion message if it doesn't exist, otherwise just show it
-		if (!this.completionText) {
-			this.completionText = new Text(
-				`Dialogue Complete!\n${isMobileDevice() ? 'Tap' : 'Click'} to restart`,
+		// Create banner message if it doesn't exist, otherwise just update it
+		if (!this.bannerMessage) {
+			this.bannerMessage = new Text(
+				message,
 				new TextStyle({
 					fontFamily: 'Arial, sans-serif',
-					fontSize: scaled(this.COMPLETION_FONT_SIZE),
+					fontSize: scaled(this.BANNER_MESSAGE_FONT_SIZE),
 					fill: 0xffffff,
 					align: 'center',
 					fontWeight: 'bold',
 				})
 			);
-			this.completionText.anchor.set(0.5, 0.5);
-			this.foregroundContainer.addChild(this.completionText);
+			this.bannerMessage.anchor.set(0.5, 0.5);
+			this.foregroundContainer.addChild(this.bannerMessage);
 		}
-		this.completionText.x = this.app.screen.width * 0.5;
-		this.completionText.y =
+		this.bannerMessage.text = message;
+		this.fitBannerMessage();
+		this.bannerMessage.x = this.app.screen.width * 0.5;
+		this.bannerMessage.y =
 			this.app.screen.height * 0.6 + this.app.screen.height * 0.4 * 0.5;
-		this.completionText.visible = true;
+		this.bannerMessage.visible = true;
+	}
+
+	/**
+	 * Wraps the banner message within the text margins, e.g. for longer translations
+	 */
+	private fitBannerMessage(): void {
+		fitText(
+			this.bannerMessage,
+			this.app.screen.width - scaled(this.TEXT_MARGIN) * 2
+		);
+	}
+
+	/**
+	 * Hides the banner message and shows the dialogue text again
+	 */
+	private hideBannerMessage(): void {
+		this.clearChoices();
+		if (this.bannerMessage) {
+			this.bannerMessage.visible = false;
+		}
+		if (this.dialogueTextContainer) {
+			this.dialogueTextContainer.visible = true;
+		}
 	}
 
 	private resizeBackgroundToFit(): void {
@@ -390,47 +1132,15 @@ export class MagicWords extends Game {
 		this.resizeBackgroundToFit();
 
 		// Update dark overlay
-		this.darkOverlay.clear();
-		this.darkOverlay.beginFill(0x000000, this.darkOverlayAlpha);
-		this.darkOverlay.drawRect(
-			0,
-			0,
-			this.app.screen.width,
-			this.app.screen.height
-		);
-		this.darkOverlay.endFill();
+		this.drawDarkOverlay();
 
 		// Update dialogue banner
 		if (this.dialogueBanner) {
-			this.dialogueBanner.clear();
-			this.dialogueBanner.beginFill(0x404040, this.dialogueBannerAlpha);
-			this.dialogueBanner.drawRect(
-				0,
-				this.app.screen.height * 0.6,
-				this.app.screen.width,
-				this.app.screen.height * 0.4
-			);
-			this.dialogueBanner.endFill();
+			this.drawDialogueBanner();
 		}
 
-		// Reposition and resize character portrait
-		if (this.characterPortrait && this.characterPortrait.visible) {
-			// Update scale
-			this.characterPortrait.scale.set(
-				scaled(this.CHARACTER_PORTRAIT_SCALE)
-			);
-
-			// Recalculate position based on current dialogue
-			if (
-				this.dialogueData &&
-				this.currentDialogueIndex < this.dialogueData.dialogue.length
-			) {
-				const currentDialogue =
-					this.dialogueData.dialogue[this.currentDialogueIndex];
-				this.positionCharacterPortrait(currentDialogue.name);
-			}
-			this.characterPortrait.y = this.app.screen.height * 0.6;
-		}
+		// Reposition and resize characters on stage
+		this.stage?.onResize();
 
 		// Reposition and resize character name text
 		if (this.characterNameText) {
@@ -442,73 +1152,105 @@ export class MagicWords extends Game {
 				this.app.screen.height * 0.6 + scaled(this.TEXT_TOP_MARGIN);
 		}
 
-		// Reposition dialogue text container and update its properties
+		// Glyphs are rendered at a font size, so they are rendered again at the new one
+		this.glyphs?.clear();
+
+		// Lay out dialogue text again, so that emoji images match the new font size along with the text
 		if (this.dialogueTextContainer) {
-			// Update font size and word wrap width
-			this.dialogueTextContainer.style.fontSize = scaled(
-				this.DIALOGUE_FONT_SIZE
-			);
-			this.dialogueTextContainer.style.wordWrapWidth =
-				this.app.screen.width - scaled(this.TEXT_MARGIN) * 2;
-			this.dialogueTextContainer.x = scaled(this.TEXT_MARGIN);
-			this.dialogueTextContainer.y =
-				this.app.screen.height * 0.6 + scaled(this.DIALOGUE_TOP_MARGIN); // Match initial positioning
+			this.renderDialogueText();
 		}
 
 		// Reposition and resize completion text
-		if (this.completionText) {
-			this.completionText.style.fontSize = scaled(
-				this.COMPLETION_FONT_SIZE
+		if (this.bannerMessage) {
+			this.bannerMessage.style.fontSize = scaled(
+				this.BANNER_MESSAGE_FONT_SIZE
 			);
-			this.completionText.x = this.app.screen.width * 0.5;
-			this.completionText.y =
+			this.fitBannerMessage();
+			this.bannerMessage.x = this.app.screen.width * 0.5;
+			this.bannerMessage.y =
 				this.app.screen.height * 0.6 +
 				this.app.screen.height * 0.4 * 0.5;
 		}
 
+		// Reposition and resize offline badge
+		this.positionOfflineBadge();
+
+		// Reposition choice buttons. They resize themselves
+		this.positionChoiceButtons();
+
+		// Reposition and resize toolbar and backlog
+		this.positionToolbar();
+		this.backlog?.onResize();
+		this.savePanel?.onResize();
+		this.errorPanel?.onResize();
+
 		// Reposition and resize continue indicator
 		if (this.continueIndicator) {
 			this.continueIndicator.style.fontSize = scaled(
 				this.CONTINUE_INDICATOR_FONT_SIZE
 			);
-			this.continueIndicator.x =
-				this.app.screen.width - scaled(this.CONTINUE_INDICATOR_MARGIN);
-			this.continueIndicator.y =
-				this.app.screen.height - scaled(this.CONTINUE_INDICATOR_MARGIN);
+			this.positionContinueIndicator();
 		}
 	}
 
+	public pause(): void {
+		// Key presses reach the window listener while paused
+		this.isPaused = true;
+	}
+
+	public resume(): void {
+		this.isPaused = false;
+	}
+
 	public addEventListeners(): void {
 		this.foregroundContainer.eventMode = 'static';
-		this.foregroundContainer.on('pointerdown', this.advanceDialogue);
+		this.foregroundContainer.on('pointerdown', this.onDialoguePointerDown);
+		this.foregroundContainer.on('wheel', this.onWheel);
+		window.addEventListener('keydown', this.onKeyDown);
 	}
 
 	public removeEventListeners(): void {
 		if (this.foregroundContainer) {
-			this.foregroundContainer.off('pointerdown', this.advanceDialogue);
+			this.foregroundContainer.off(
+				'pointerdown',
+				this.onDialoguePointerDown
+			);
+			this.foregroundContainer.off('wheel', this.onWheel);
 		}
+		window.removeEventListener('keydown', this.onKeyDown);
 	}
 
 	public destroy(): void {
-		sound.stop('street_ambience');
-		// Prevent bug when exiting back to main menu
-		if (this.timeout) {
-			clearTimeout(this.timeout);
-		}
-
-		// Remove ticker callbacks
-		this.app.ticker.remove(this.animateDarkening, this);
-		this.app.ticker.remove(this.animateBannerFadeIn, this);
-		this.app.ticker.remove(this.update, this);
+		audio.stop('street_ambience');
+		// Tweens, including the delayed dialogue start, are killed along with the game's scene
 
 		// Destroy all sprites and graphics
 		this.background?.destroy();
 		this.darkOverlay?.destroy();
 		this.dialogueBanner?.destroy();
-		this.characterPortrait?.destroy();
+		this.stage?.destroy();
 		this.characterNameText?.destroy();
 		this.dialogueTextContainer?.destroy();
-		this.completionText?.destroy();
+		this.bannerMessage?.destroy();
 		this.continueIndicator?.destroy();
+		this.offlineBadge?.destroy();
+		this.clearChoices();
+		this.toolbarButtons.forEach(button => button.destroy());
+		this.toolbar?.destroy();
+		this.backlog?.destroy();
+		this.savePanel?.destroy();
+		this.authoring?.destroy();
+		this.errorPanel?.destroy();
+		this.glyphs?.destroy();
 	}
 }
+
+registerGame({
+	id: 'MAGIC_WORDS',
+	name: 'Magic Words',
+	route: 'magic-words',
+	emoji: '🗣️',
+	color: 0xb39ddb, // Light purple
+	bundle: 'magic-words',
+	GameClass: MagicWords,
+});
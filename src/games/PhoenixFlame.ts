@@ -6,10 +6,13 @@ import {
 	TextStyle,
 	// ParticleContainer, // Ended up not using this due to visual glitch problems
 } from 'pixi.js';
-import { Emitter } from '@pixi/particle-emitter';
+import { Emitter, type EmitterConfigV3 } from '@pixi/particle-emitter';
 import { Game } from '../core/Game';
-import { isMobileDevice, isUsingHeight, scaled } from '../core/Utils';
-import { sound } from '@pixi/sound';
+import { registerGame } from '../core/GameRegistry';
+import { fitText, isMobileDevice, isUsingHeight, scaled } from '../core/Utils';
+import { i18n } from '../core/I18n';
+import { audio } from '../core/AudioManager';
+import { PARTICLE_TEXTURE_FOLDER } from '../core/ParticleConfig';
 
 /**
  * Interactive particle flame game with mouse/touch controls to intensify the flame.
@@ -30,6 +33,7 @@ export class PhoenixFlame extends Game {
 	// UI Constants
 	private readonly TITLE_FONT_SIZE_PORTRAIT = 40;
 	private readonly TITLE_FONT_SIZE_LANDSCAPE = 48;
+	private readonly TITLE_MAX_WIDTH_FACTOR = 0.9;
 	private readonly PARTICLE_COUNT_FONT_SIZE = 32;
 	private readonly EMITTER_Y_OFFSET = 100;
 	private readonly TITLE_DROP_SHADOW_BLUR = 4;
@@ -47,8 +51,8 @@ export class PhoenixFlame extends Game {
 	// Particle System
 	private normalEmitter: Emitter | null = null;
 	private intenseEmitter: Emitter | null = null;
-	private normalEmitterConfig: any;
-	private intenseEmitterConfig: any;
+	private normalEmitterConfig: EmitterConfigV3 | null = null;
+	private intenseEmitterConfig: EmitterConfigV3 | null = null;
 
 	// Event Handlers
 	private boundPointerMove: (event: PointerEvent) => void;
@@ -69,17 +73,19 @@ export class PhoenixFlame extends Game {
 		this.boundPointerUp = (event: PointerEvent) => this.onPointerUp(event);
 	}
 
-	private loadTexturesForConfig(config: any): void {
+	private loadTexturesForConfig(config: EmitterConfigV3): void {
 		const textureRandomBehavior = config.behaviors.find(
-			(b: any) => b.type === 'textureRandom'
+			behavior => behavior.type === 'textureRandom'
 		);
 
-		if (textureRandomBehavior && textureRandomBehavior.config.textures) {
-			const texturePaths = textureRandomBehavior.config.textures;
+		// Configs are validated on load, so textures are always an array of paths
+		if (textureRandomBehavior) {
+			const texturePaths: string[] =
+				textureRandomBehavior.config.textures;
 			const loadedTextures = [];
 
 			for (const texturePath of texturePaths) {
-				const fullPath = `assets/particles/${texturePath}`;
+				const fullPath = `${PARTICLE_TEXTURE_FOLDER}${texturePath}`;
 				const texture = Assets.get(fullPath);
 				if (texture) {
 					loadedTextures.push(texture);
@@ -94,46 +100,70 @@ export class PhoenixFlame extends Game {
 	}
 
 	private loadParticleTextures(): void {
-		const originalNormalConfig = Assets.cache.get('particle-config-flame');
-		const originalIntenseConfig = Assets.cache.get(
-			'particle-config-flame_hotter'
-		);
-
-		// Create deep copies of the configurations to avoid modifying the cached originals
-		this.normalEmitterConfig = JSON.parse(
-			JSON.stringify(originalNormalConfig)
-		);
-		this.intenseEmitterConfig = JSON.parse(
-			JSON.stringify(originalIntenseConfig)
-		);
-
 		const position = {
 			x: this.app.screen.width * 0.5,
 			y: this.app.screen.height - scaled(this.EMITTER_Y_OFFSET),
 		};
 
-		this.normalEmitterConfig.pos = position;
-		this.intenseEmitterConfig.pos = position;
+		this.normalEmitterConfig = this.prepareConfig(
+			'particle-config-flame',
+			position
+		);
+		this.intenseEmitterConfig = this.prepareConfig(
+			'particle-config-flame_hotter',
+			position
+		);
 
 		// Enforce 10 particle limit as per assignment requirements
 		// Note: Only for the normal emitter, not the intense emitter
-		this.normalEmitterConfig.maxParticles = 10;
+		if (this.normalEmitterConfig) {
+			this.normalEmitterConfig.maxParticles = 10;
+		}
+	}
+
+	/**
+	 * Copies a cached particle config and swaps its texture paths for textures
+	 * @param cacheKey - The config's cache key
+	 * @param position - The emitter position
+	 * @returns The emitter config, or null if the config was invalid or failed to load
+	 */
+	private prepareConfig(
+		cacheKey: string,
+		position: { x: number; y: number }
+	): EmitterConfigV3 | null {
+		const originalConfig: EmitterConfigV3 | null =
+			Assets.cache.get(cacheKey);
+		if (!originalConfig) {
+			console.error(
+				`Particle config unavailable, skipping its emitter: ${cacheKey}`
+			);
+			return null;
+		}
 
-		this.loadTexturesForConfig(this.normalEmitterConfig);
-		this.loadTexturesForConfig(this.intenseEmitterConfig);
+		// Create a deep copy of the configuration to avoid modifying the cached original
+		const config: EmitterConfigV3 = JSON.parse(
+			JSON.stringify(originalConfig)
+		);
+		config.pos = position;
+		this.loadTexturesForConfig(config);
+		return config;
 	}
 
 	private createEmitters(): void {
-		this.normalEmitter = new Emitter(
-			this.particleContainer,
-			this.normalEmitterConfig
-		);
-		this.intenseEmitter = new Emitter(
-			this.particleContainer,
-			this.intenseEmitterConfig
-		);
-		this.normalEmitter.emit = true;
-		this.intenseEmitter.emit = false;
+		if (this.normalEmitterConfig) {
+			this.normalEmitter = new Emitter(
+				this.particleContainer,
+				this.normalEmitterConfig
+			);
+			this.normalEmitter.emit = true;
+		}
+		if (this.intenseEmitterConfig) {
+			this.intenseEmitter = new Emitter(
+				this.particleContainer,
+				this.intenseEmitterConfig
+			);
+			this.intenseEmitter.emit = false;
+		}
 	}
 
 	public initialize(): void {
@@ -220,18 +250,20 @@ export class PhoenixFlame extends Game {
 	}
 
 	public start(): void {
-		this.app.ticker.add(this.update, this);
-		sound.play('fireplace', { loop: true });
+		this.ticker.add(this.update, this);
+		audio.playAmbience('fireplace', { volume: 0.2 });
 	}
 
 	public onResize(): void {
 		// Title
-		// Note: this could use a dynamic max text width to wrap, but using the hard coded \n placement makes it visually cleaner
-		this.title.text = isMobileDevice()
-			? `Press screen ${isUsingHeight() ? '\n' : ' '}to intensify the flame`
-			: `Hold the left mouse button ${
-					isUsingHeight() ? '\n' : ' '
-				}to intensify the flame`;
+		// Note: this could use a dynamic max text width to wrap, but placing the {break} by hand in each translation makes it
+		// visually cleaner. Text too long for the screen still shrinks to fit
+		this.title.text = i18n.t(
+			isMobileDevice()
+				? 'phoenixFlame.instructionTouch'
+				: 'phoenixFlame.instructionMouse',
+			{ break: isUsingHeight() ? '\n' : ' ' }
+		);
 
 		this.title.style.fontSize = scaled(
 			isUsingHeight()
@@ -242,6 +274,11 @@ export class PhoenixFlame extends Game {
 		this.title.style.dropShadowDistance = scaled(
 			this.TITLE_DROP_SHADOW_DISTANCE
 		);
+		fitText(
+			this.title,
+			this.app.screen.width * this.TITLE_MAX_WIDTH_FACTOR,
+			false
+		);
 		this.title.x = this.app.screen.width * 0.5;
 		this.title.y = this.app.screen.height * 0.2;
 
@@ -284,7 +321,9 @@ export class PhoenixFlame extends Game {
 			particleCount += this.intenseEmitter.particleCount;
 		}
 
-		this.particleCountText.text = `Particle count: ${particleCount}`;
+		this.particleCountText.text = i18n.t('phoenixFlame.particleCount', {
+			count: particleCount,
+		});
 	}
 
 	private onPointerMove(event: PointerEvent): void {
@@ -309,8 +348,8 @@ export class PhoenixFlame extends Game {
 	}
 
 	private intensifyFlame(): void {
-		sound.play('flame_on', { volume: 0.5 });
-		sound.volume('fireplace', 0.5);
+		audio.playSfx('flame_on', { volume: 0.1 });
+		audio.setVolume('fireplace', 0.5);
 		if (this.normalEmitter) {
 			this.normalEmitter.emit = false;
 		}
@@ -320,7 +359,7 @@ export class PhoenixFlame extends Game {
 	}
 
 	private normalizeFlame(): void {
-		sound.volume('fireplace', 0.2);
+		audio.setVolume('fireplace', 0.2);
 		if (this.normalEmitter) {
 			this.normalEmitter.emit = true;
 		}
@@ -336,8 +375,8 @@ export class PhoenixFlame extends Game {
 	}
 
 	public destroy(): void {
-		sound.stop('fireplace');
-		sound.stop('flame_on');
+		audio.stop('fireplace');
+		audio.stop('flame_on');
 		if (this.normalEmitter) {
 			this.normalEmitter.destroy();
 		}
@@ -346,3 +385,13 @@ export class PhoenixFlame extends Game {
 		}
 	}
 }
+
+registerGame({
+	id: 'PHOENIX_FLAME',
+	name: 'Phoenix Flame',
+	route: 'phoenix-flame',
+	emoji: '🔥',
+	color: 0xb8860b, // Dark goldenrod
+	bundle: 'phoenix-flame',
+	GameClass: PhoenixFlame,
+});
@@ -0,0 +1,5 @@
+// Each game registers itself in the game registry when its module is loaded.
+// To add a new game, import its module here. Import order is the main menu order.
+import './AceOfShadows';
+import './MagicWords';
+import './PhoenixFlame';
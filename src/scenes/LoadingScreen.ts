@@ -1,10 +1,14 @@
 import { Container, Text, TextStyle } from 'pixi.js';
 import { LoadingBar } from '../ui/LoadingBar';
-import { isUsingHeight, scaled } from '../core/Utils';
+import { fitText, isUsingHeight, scaled } from '../core/Utils';
+import { i18n } from '../core/I18n';
 
 /**
  * Loading screen scene with text and animated progress bar.
  *
+ * Shown while the app boots, and again the first time each game is entered while its assets load.
+ *
+ * @param subtitle - Optional text below the progress bar, already translated
  * @extends Container
  */
 export class LoadingScreen extends Container {
@@ -20,6 +24,7 @@ export class LoadingScreen extends Container {
 	private readonly LOADING_BAR_HEIGHT = 60;
 	private readonly LOADING_TEXT_MARGIN = 100;
 	private readonly SCREEN_CENTER_FACTOR = 0.5;
+	private readonly TEXT_MAX_WIDTH_FACTOR = 0.9;
 
 	// UI Elements
 	private loadingBar!: LoadingBar;
@@ -27,19 +32,23 @@ export class LoadingScreen extends Container {
 	private subtitle!: Text;
 	private boundOnResize: () => void;
 
-	constructor() {
+	constructor(
+		subtitle: string = i18n.t('loading.subtitle', {
+			break: isUsingHeight() ? '\n' : ' ',
+		})
+	) {
 		super();
 
 		this.boundOnResize = this.onResize.bind(this);
-		this.buildUI();
+		this.buildUI(subtitle);
 		this.onResize();
 		window.addEventListener('resize', this.boundOnResize);
 	}
 
-	private buildUI(): void {
+	private buildUI(subtitle: string): void {
 		// Title
 		this.title = new Text(
-			'Loading...',
+			i18n.t('loading.title'),
 			new TextStyle({
 				fontFamily: 'Arial, sans-serif',
 				fill: this.TITLE_COLOR,
@@ -63,7 +72,7 @@ export class LoadingScreen extends Container {
 
 		// Subtitle
 		this.subtitle = new Text(
-			`Preparing your amazing ${isUsingHeight() ? '\n' : ' '}gaming experience`,
+			subtitle,
 			new TextStyle({
 				fontFamily: 'Arial, sans-serif',
 				fill: this.SUBTITLE_COLOR,
@@ -94,6 +103,11 @@ export class LoadingScreen extends Container {
 		this.subtitle.y =
 			screenHeight * this.SCREEN_CENTER_FACTOR +
 			scaled(this.LOADING_TEXT_MARGIN);
+
+		// Longer translations wrap rather than run off the screen
+		const maxWidth = screenWidth * this.TEXT_MAX_WIDTH_FACTOR;
+		fitText(this.title, maxWidth);
+		fitText(this.subtitle, maxWidth);
 	}
 
 	public updateProgress(progress: number): void {
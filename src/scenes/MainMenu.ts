@@ -1,11 +1,15 @@
 import { Container, Text, TextStyle, Sprite, Assets } from 'pixi.js';
 import { GameManager } from '../core/GameManager';
 import { Button } from '../ui/Button';
-import { scaled, resizeToFit } from '../core/Utils';
-import { sound } from '@pixi/sound';
+import { scaled, resizeToFit, fitText } from '../core/Utils';
+import { getGames } from '../core/GameRegistry';
+import { Easing, TweenManager } from '../core/Tween';
+import { audio } from '../core/AudioManager';
+import { i18n } from '../core/I18n';
 
 /**
  * Main menu scene with game selection buttons, animated background video, and blinking instruction text.
+ * A language picker in the top right corner switches the language of the whole app.
  *
  * @extends Container
  */
@@ -27,28 +31,39 @@ export class MainMenu extends Container {
 	private readonly LOGO_Y_POSITION = 0.15;
 	private readonly TITLE_Y_POSITION = 0.3;
 	private readonly SUBTITLE_Y_POSITION = 0.4;
-	private readonly ANIMATION_SPEED = 0.003;
-	private readonly ANIMATION_ALPHA_BASE = 0.6;
-	private readonly ANIMATION_ALPHA_RANGE = 0.3;
-	private readonly ACE_OF_SHADOWS_COLOR = 0x1a232b; // Dark blue-grey
-	private readonly MAGIC_WORDS_COLOR = 0xb39ddb; // Light purple
-	private readonly PHOENIX_FLAME_COLOR = 0xb8860b; // Dark goldenrod
+	private readonly ANIMATION_HALF_PERIOD = 1047; // ~2.1 seconds for a full blink
+	private readonly ANIMATION_ALPHA_MIN = 0.3;
+	private readonly ANIMATION_ALPHA_MAX = 0.9;
+	private readonly TEXT_MAX_WIDTH_FACTOR = 0.9;
+	private readonly LANGUAGE_BUTTON_WIDTH = 160;
+	private readonly LANGUAGE_BUTTON_HEIGHT = 60;
+	private readonly LANGUAGE_BUTTON_FONT_SIZE = 24;
+	private readonly LANGUAGE_BUTTON_MARGIN = 24;
+	private readonly LANGUAGE_BUTTON_SPACING = 12;
+	private readonly LANGUAGE_BUTTON_COLOR = 0x555555; // Dark grey
+	private readonly LANGUAGE_ACTIVE_COLOR = 0x4caf50; // Green
+	private readonly AUTHOR_NAME = 'Diogo Antunes';
 
 	// UI Elements
 	private title!: Text;
 	private subtitle!: Text;
+	private instruction!: Text;
 	private buttons!: Container;
+	private languageButtons: Map<string, Button> = new Map();
 	private logo!: Sprite;
 	private backgroundVideo!: Sprite;
 
 	// Core
 	private gameManager: GameManager;
 	private app: any;
+	private tweens: TweenManager;
 
 	constructor(gameManager: GameManager) {
 		super();
 		this.gameManager = gameManager;
 		this.app = gameManager.getApp();
+		this.tweens = new TweenManager(this.app.ticker);
+		this.tweens.bindTo(this);
 
 		this.setupBackgroundVideo();
 		this.buildUI();
@@ -59,7 +74,7 @@ export class MainMenu extends Container {
 		const videoTexture = Assets.get('background-video-texture-space');
 		this.backgroundVideo = new Sprite(videoTexture);
 		this.addChildAt(this.backgroundVideo, 0);
-		sound.play('space_loop', { loop: true, volume: 0.2, speed: 0.8 });
+		audio.playMusic('space_loop', { volume: 0.04, speed: 0.8 });
 	}
 
 	private buildUI(): void {
@@ -71,7 +86,7 @@ export class MainMenu extends Container {
 
 		// Title
 		this.title = new Text(
-			'Game Developer\nAssignment',
+			i18n.t('menu.title'),
 			new TextStyle({
 				fontFamily: 'Arial, sans-serif',
 				fill: this.TITLE_COLOR,
@@ -86,7 +101,7 @@ export class MainMenu extends Container {
 
 		// Subtitle
 		this.subtitle = new Text(
-			'Made by Diogo Antunes',
+			i18n.t('menu.subtitle', { author: this.AUTHOR_NAME }),
 			new TextStyle({
 				fontFamily: 'Arial, sans-serif',
 				fill: this.SUBTITLE_COLOR,
@@ -102,41 +117,20 @@ export class MainMenu extends Container {
 		// Buttons
 		this.buttons = new Container();
 		this.addChild(this.buttons);
-		const games = [
-			{
-				name: 'Ace of Shadows',
-				emoji: '🃏',
-				color: this.ACE_OF_SHADOWS_COLOR,
-				action: () => this.gameManager.startGame('ACE_OF_SHADOWS'),
-			},
-			{
-				name: 'Magic Words',
-				emoji: '🗣️',
-				color: this.MAGIC_WORDS_COLOR,
-				action: () => this.gameManager.startGame('MAGIC_WORDS'),
-			},
-			{
-				name: 'Phoenix Flame',
-				emoji: '🔥',
-				color: this.PHOENIX_FLAME_COLOR,
-				action: () => this.gameManager.startGame('PHOENIX_FLAME'),
-			},
-		];
-
-		games.forEach((game, index) => {
+		getGames().forEach((game, index) => {
 			const button = new Button({
 				text: game.name,
 				emoji: game.emoji,
 				color: game.color,
-				onClick: game.action || (() => {}),
+				onClick: () => this.gameManager.startGame(game.id),
 			});
 			button.y = index * scaled(this.BUTTON_SPACING);
 			this.buttons.addChild(button);
 		});
 
 		// Blinking text
-		const instruction = new Text(
-			'Select any game to start',
+		this.instruction = new Text(
+			i18n.t('menu.instruction'),
 			new TextStyle({
 				fontFamily: 'Arial, sans-serif',
 				fill: this.INSTRUCTION_COLOR,
@@ -146,16 +140,59 @@ export class MainMenu extends Container {
 				strokeThickness: scaled(this.INSTRUCTION_STROKE_THICKNESS),
 			})
 		);
-		instruction.anchor.set(0.5, 0.5);
-		this.addChild(instruction);
+		this.instruction.anchor.set(0.5, 0.5);
+		this.addChild(this.instruction);
 
 		// Blinking animation
-		this.app.ticker.add(() => {
-			const time = Date.now() * this.ANIMATION_SPEED;
-			instruction.alpha =
-				this.ANIMATION_ALPHA_BASE +
-				Math.sin(time) * this.ANIMATION_ALPHA_RANGE;
+		this.instruction.alpha = this.ANIMATION_ALPHA_MIN;
+		this.tweens.to(this.instruction, {
+			to: { alpha: this.ANIMATION_ALPHA_MAX },
+			duration: this.ANIMATION_HALF_PERIOD,
+			ease: Easing.sineInOut,
+			repeat: -1,
+			yoyo: true,
 		});
+
+		// Language picker, only worth showing with more than one language
+		const locales = i18n.getLocales();
+		if (locales.length > 1) {
+			locales.forEach(({ locale, name }) => {
+				const button = new Button({
+					text: name,
+					color: this.getLanguageButtonColor(locale),
+					width: this.LANGUAGE_BUTTON_WIDTH,
+					height: this.LANGUAGE_BUTTON_HEIGHT,
+					margin: 1,
+					fontSize: this.LANGUAGE_BUTTON_FONT_SIZE,
+					onClick: () => this.pickLanguage(locale),
+				});
+				this.languageButtons.set(locale, button);
+				this.addChild(button);
+			});
+		}
+	}
+
+	private getLanguageButtonColor(locale: string): number {
+		return locale === i18n.getLocale()
+			? this.LANGUAGE_ACTIVE_COLOR
+			: this.LANGUAGE_BUTTON_COLOR;
+	}
+
+	/**
+	 * Switches the app to a language, translating the menu in place
+	 */
+	private pickLanguage(locale: string): void {
+		this.gameManager.setLocale(locale);
+
+		this.title.text = i18n.t('menu.title');
+		this.subtitle.text = i18n.t('menu.subtitle', {
+			author: this.AUTHOR_NAME,
+		});
+		this.instruction.text = i18n.t('menu.instruction');
+		this.languageButtons.forEach((button, buttonLocale) =>
+			button.setColor(this.getLanguageButtonColor(buttonLocale))
+		);
+		this.positionElements();
 	}
 
 	private positionElements(): void {
@@ -167,13 +204,18 @@ export class MainMenu extends Container {
 		this.logo.x = screenWidth * 0.5;
 		this.logo.y = screenHeight * this.LOGO_Y_POSITION;
 
+		// Longer translations wrap rather than run off the screen
+		const maxTextWidth = screenWidth * this.TEXT_MAX_WIDTH_FACTOR;
+
 		// Title
 		this.title.style.fontSize = scaled(this.TITLE_FONT_SIZE);
+		fitText(this.title, maxTextWidth);
 		this.title.x = screenWidth * 0.5;
 		this.title.y = screenHeight * this.TITLE_Y_POSITION;
 
 		// Subtitle
 		this.subtitle.style.fontSize = scaled(this.SUBTITLE_FONT_SIZE);
+		fitText(this.subtitle, maxTextWidth);
 		this.subtitle.x = screenWidth * 0.5;
 		this.subtitle.y = screenHeight * this.SUBTITLE_Y_POSITION;
 
@@ -185,10 +227,26 @@ export class MainMenu extends Container {
 		});
 
 		// Instruction text
-		const instruction = this.children[this.children.length - 1] as Text;
-		instruction.style.fontSize = scaled(this.INSTRUCTION_FONT_SIZE);
-		instruction.x = screenWidth * 0.5;
-		instruction.y = screenHeight - scaled(this.INSTRUCTION_BOTTOM_OFFSET);
+		this.instruction.style.fontSize = scaled(this.INSTRUCTION_FONT_SIZE);
+		fitText(this.instruction, maxTextWidth);
+		this.instruction.x = screenWidth * 0.5;
+		this.instruction.y =
+			screenHeight - scaled(this.INSTRUCTION_BOTTOM_OFFSET);
+
+		// Language picker, right to left from the top right corner
+		const languageButtonWidth = scaled(this.LANGUAGE_BUTTON_WIDTH);
+		[...this.languageButtons.values()].reverse().forEach((button, i) => {
+			button.x =
+				screenWidth -
+				scaled(this.LANGUAGE_BUTTON_MARGIN) -
+				languageButtonWidth * 0.5 -
+				i *
+					(languageButtonWidth +
+						scaled(this.LANGUAGE_BUTTON_SPACING));
+			button.y =
+				scaled(this.LANGUAGE_BUTTON_MARGIN) +
+				scaled(this.LANGUAGE_BUTTON_HEIGHT) * 0.5;
+		});
 	}
 
 	public onResize(): void {
@@ -201,10 +259,12 @@ export class MainMenu extends Container {
 	}
 
 	public destroy(): void {
-		sound.stop('space_loop');
+		audio.stopMusic('space_loop');
 		this.title.destroy();
 		this.subtitle.destroy();
+		this.instruction.destroy();
 		this.buttons.destroy();
+		this.languageButtons.forEach(button => button.destroy());
 		this.logo.destroy();
 		this.backgroundVideo.destroy();
 		super.destroy();
@@ -1,6 +1,6 @@
 import { Container, Graphics, Text, TextStyle } from 'pixi.js';
-import { scaled } from '../core/Utils';
-import { sound } from '@pixi/sound';
+import { fitText, scaled } from '../core/Utils';
+import { audio } from '../core/AudioManager';
 
 export interface ButtonOptions {
 	text?: string;
@@ -22,6 +22,7 @@ export interface ButtonOptions {
 export class Button extends Container {
 	// UI Constants
 	private readonly STROKE_THICKNESS = 2;
+	private readonly TEXT_PADDING = 12;
 
 	// UI Elements
 	private background: Graphics;
@@ -90,7 +91,7 @@ export class Button extends Container {
 	public addEventListeners(options: ButtonOptions): void {
 		// On hover - brighten the color and enlarge
 		this.on('pointerover', () => {
-			sound.play('button_hover', { volume: 0.1 });
+			audio.playUi('button_hover', { volume: 0.02 });
 			const r = Math.min(((this.color >> 16) & 0xff) + 0x33, 0xff);
 			const g = Math.min(((this.color >> 8) & 0xff) + 0x33, 0xff);
 			const b = Math.min((this.color & 0xff) + 0x33, 0xff);
@@ -112,7 +113,11 @@ export class Button extends Container {
 
 		this.on('pointerup', () => {
 			this.scale.set(1.05);
-			sound.play('button_click', { volume: 0.1 });
+		});
+
+		// Only when pressed on the button too, so that releasing a drag over it, e.g. of a card, doesn't click it
+		this.on('pointertap', () => {
+			audio.playUi('button_click', { volume: 0.02 });
 			options.onClick();
 		});
 
@@ -128,6 +133,7 @@ export class Button extends Container {
 		this.off('pointerout');
 		this.off('pointerdown');
 		this.off('pointerup');
+		this.off('pointertap');
 		if (this.resizeHandler) {
 			window.removeEventListener('resize', this.resizeHandler);
 			this.resizeHandler = null;
@@ -170,6 +176,14 @@ export class Button extends Container {
 		}
 	}
 
+	/**
+	 * Changes the button color, e.g. to show a toggle's state
+	 */
+	public setColor(color: number): void {
+		this.color = color;
+		this.drawBackground(color);
+	}
+
 	private drawBackground(fillColor: number): void {
 		// Get scaled dimensions
 		const scaledWidth = scaled(this.originalWidth);
@@ -217,6 +231,23 @@ export class Button extends Container {
 
 		this.drawBackground(this.color);
 		this.positionElements();
+		this.fitTextElement();
+	}
+
+	/**
+	 * Shrinks the text to fit between the emojis, or the edges, e.g. for longer translations
+	 */
+	private fitTextElement(): void {
+		if (!this.textElement) return;
+
+		const padding = scaled(this.TEXT_PADDING);
+		const maxWidth = this.rightEmojiElement
+			? 2 *
+				(this.rightEmojiElement.x -
+					this.rightEmojiElement.width * 0.5 -
+					padding)
+			: scaled(this.originalWidth) - 2 * padding;
+		fitText(this.textElement, maxWidth, false);
 	}
 
 	public destroy(): void {
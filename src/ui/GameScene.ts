@@ -1,13 +1,20 @@
-import { Container, Application } from 'pixi.js';
+import { Container, Application, Graphics, Text, TextStyle } from 'pixi.js';
+import { audio } from '../core/AudioManager';
 import { GameManager } from '../core/GameManager';
 import { Button } from './Button';
 import { Game } from '../core/Game';
-import { scaled } from '../core/Utils';
+import type { GameConstructor } from '../core/GameRegistry';
+import { fitText, scaled } from '../core/Utils';
+import { i18n } from '../core/I18n';
 
 /**
  * Base scene container that provides common UI elements and game management for all game scenes.
  *
- * Handles game scene creation, resizing, and destruction.
+ * Handles game scene creation, resizing, pausing, and destruction.
+ *
+ * Each game runs on its own ticker, driven from app.ticker, so pausing freezes every ticker-driven animation
+ * and timer of the game. Pausing also suspends all sounds and calls the game's optional pause hook.
+ * Pauses automatically when the tab is hidden or the window loses focus.
  *
  * @extends Container
  */
@@ -21,9 +28,23 @@ export class GameScene extends Container {
 	private readonly BUTTON_FONT_SIZE = 48;
 	private readonly BUTTON_X_OFFSET_FACTOR = 0.4;
 	private readonly BUTTON_Y_OFFSET_FACTOR = 0.8;
+	private readonly BUTTON_SPACING = 16;
+	private readonly PAUSE_OVERLAY_COLOR = 0x000000; // Black
+	private readonly PAUSE_OVERLAY_ALPHA = 0.6;
+	private readonly PAUSE_TITLE_FONT_SIZE = 72;
+	private readonly PAUSE_TITLE_STROKE_THICKNESS = 4;
+	private readonly PAUSE_TITLE_Y_OFFSET = 100;
+	private readonly PAUSE_TITLE_MAX_WIDTH_FACTOR = 0.9;
+	private readonly RESUME_BUTTON_COLOR = 0x4caf50; // Green
+	private readonly RESUME_BUTTON_Y_OFFSET = 50;
 
 	// UI Elements
 	private backButton!: Button;
+	private pauseButton!: Button;
+	private pauseOverlay!: Container;
+	private pauseBackground!: Graphics;
+	private pauseTitle!: Text;
+	private resumeButton!: Button;
 	protected backgroundContainer!: Container;
 	protected foregroundContainer!: Container;
 
@@ -32,19 +53,20 @@ export class GameScene extends Container {
 	protected app: Application;
 	protected game!: Game;
 
-	constructor(
-		gameManager: GameManager,
-		GameClass: new (
-			app: Application,
-			backgroundContainer: Container,
-			foregroundContainer: Container
-		) => Game
-	) {
+	// Pause state
+	private isPaused: boolean = false;
+	private boundOnVisibilityChange: () => void;
+	private boundOnBlur: () => void;
+
+	constructor(gameManager: GameManager, GameClass: GameConstructor) {
 		super();
 		this.gameManager = gameManager;
 		this.app = gameManager.getApp();
+		this.boundOnVisibilityChange = this.onVisibilityChange.bind(this);
+		this.boundOnBlur = this.onBlur.bind(this);
 		this.buildUI();
 		this.createGame(GameClass);
+		this.addEventListeners();
 	}
 
 	private buildUI(): void {
@@ -56,6 +78,22 @@ export class GameScene extends Container {
 		this.foregroundContainer = new Container();
 		this.addChild(this.foregroundContainer);
 
+		// Pause overlay, above the game so it blocks any input to it
+		this.buildPauseOverlay();
+
+		// Pause button
+		this.pauseButton = new Button({
+			emoji: '⏸️',
+			color: this.BUTTON_COLOR,
+			width: this.BUTTON_WIDTH,
+			height: this.BUTTON_HEIGHT,
+			margin: this.BUTTON_MARGIN,
+			borderRadius: this.BUTTON_BORDER_RADIUS,
+			fontSize: this.BUTTON_FONT_SIZE,
+			onClick: () => this.togglePause(),
+		});
+		this.addChild(this.pauseButton);
+
 		// Back button
 		this.backButton = new Button({
 			emoji: '🏠',
@@ -65,24 +103,126 @@ export class GameScene extends Container {
 			margin: this.BUTTON_MARGIN,
 			borderRadius: this.BUTTON_BORDER_RADIUS,
 			fontSize: this.BUTTON_FONT_SIZE,
-			onClick: () => this.gameManager.backToMainMenu(),
+			onClick: () => {
+				// Resume first so sounds aren't left suspended for the next scene
+				this.resume();
+				this.gameManager.backToMainMenu();
+			},
 		});
 		this.addChild(this.backButton);
 		this.onResize();
 	}
 
+	private buildPauseOverlay(): void {
+		this.pauseOverlay = new Container();
+		this.pauseOverlay.eventMode = 'static'; // Swallow pointer events meant for the game
+		this.pauseOverlay.hitArea = this.app.screen;
+		this.pauseOverlay.visible = false;
+		this.addChild(this.pauseOverlay);
+
+		// Dimmed background
+		this.pauseBackground = new Graphics();
+		this.pauseOverlay.addChild(this.pauseBackground);
+
+		// Title
+		this.pauseTitle = new Text(
+			i18n.t('scene.paused'),
+			new TextStyle({
+				fontFamily: 'Arial, sans-serif',
+				fill: 0xffffff,
+				align: 'center',
+				fontWeight: 'bold',
+				stroke: 0x000000,
+			})
+		);
+		this.pauseTitle.anchor.set(0.5, 0.5);
+		this.pauseOverlay.addChild(this.pauseTitle);
+
+		// Resume button
+		this.resumeButton = new Button({
+			text: i18n.t('scene.resume'),
+			emoji: '▶️',
+			color: this.RESUME_BUTTON_COLOR,
+			onClick: () => this.resume(),
+		});
+		this.pauseOverlay.addChild(this.resumeButton);
+	}
+
+	private addEventListeners(): void {
+		document.addEventListener(
+			'visibilitychange',
+			this.boundOnVisibilityChange
+		);
+		window.addEventListener('blur', this.boundOnBlur);
+	}
+
+	private removeEventListeners(): void {
+		document.removeEventListener(
+			'visibilitychange',
+			this.boundOnVisibilityChange
+		);
+		window.removeEventListener('blur', this.boundOnBlur);
+	}
+
+	private onVisibilityChange(): void {
+		if (document.hidden) {
+			this.pause();
+		}
+	}
+
+	private onBlur(): void {
+		this.pause();
+	}
+
+	private togglePause(): void {
+		if (this.isPaused) {
+			this.resume();
+		} else {
+			this.pause();
+		}
+	}
+
+	/**
+	 * Freezes the game ticker, suspends all sounds and calls the game's pause hook
+	 */
+	public pause(): void {
+		if (this.isPaused) return;
+		this.isPaused = true;
+
+		audio.pauseAll();
+		this.game?.pause?.();
+		this.pauseOverlay.visible = true;
+	}
+
+	/**
+	 * Restores everything frozen by pause, picking up exactly where the game left off
+	 */
+	public resume(): void {
+		if (!this.isPaused) return;
+		this.isPaused = false;
+
+		this.pauseOverlay.visible = false;
+		this.game?.resume?.();
+		audio.resumeAll();
+	}
+
+	/**
+	 * Advances the game ticker by the time elapsed on app.ticker, unless paused.
+	 * Time spent paused is never added, so every game animation and timer resumes exactly where it was
+	 */
+	private updateGameTicker(): void {
+		if (this.isPaused) return;
+		this.game.ticker.update(
+			this.game.ticker.lastTime + this.app.ticker.elapsedMS
+		);
+	}
+
 	/**
 	 * Creates a new game instance and initializes it by calling its methods in order
 	 *
 	 * @param GameClass - The class of the game to create
 	 */
-	private createGame(
-		GameClass: new (
-			app: Application,
-			backgroundContainer: Container,
-			foregroundContainer: Container
-		) => Game
-	): void {
+	private createGame(GameClass: GameConstructor): void {
 		this.game = new GameClass(
 			this.app,
 			this.backgroundContainer,
@@ -93,11 +233,16 @@ export class GameScene extends Container {
 		this.game.buildForeground();
 		this.game.onResize();
 		this.game.addEventListeners?.();
+
+		// Drive the game's own ticker from the app ticker
+		this.game.ticker.lastTime = 0;
+		this.app.ticker.add(this.updateGameTicker, this);
 		this.game.start();
 	}
 
 	public onResize(): void {
 		const screenWidth = this.app.screen.width;
+		const screenHeight = this.app.screen.height;
 		const scaledButtonHeight = scaled(this.BUTTON_HEIGHT);
 
 		// Always position back button in top right corner
@@ -108,23 +253,67 @@ export class GameScene extends Container {
 		this.backButton.y =
 			0 + scaledButtonHeight * this.BUTTON_Y_OFFSET_FACTOR;
 
+		// Pause button to the left of the back button
+		this.pauseButton.onResize();
+		this.pauseButton.x =
+			this.backButton.x - scaled(this.BUTTON_WIDTH + this.BUTTON_SPACING);
+		this.pauseButton.y = this.backButton.y;
+
+		// Pause overlay
+		this.pauseBackground.clear();
+		this.pauseBackground.beginFill(
+			this.PAUSE_OVERLAY_COLOR,
+			this.PAUSE_OVERLAY_ALPHA
+		);
+		this.pauseBackground.drawRect(0, 0, screenWidth, screenHeight);
+		this.pauseBackground.endFill();
+
+		this.pauseTitle.style.fontSize = scaled(this.PAUSE_TITLE_FONT_SIZE);
+		this.pauseTitle.style.strokeThickness = scaled(
+			this.PAUSE_TITLE_STROKE_THICKNESS
+		);
+		fitText(
+			this.pauseTitle,
+			screenWidth * this.PAUSE_TITLE_MAX_WIDTH_FACTOR
+		);
+		this.pauseTitle.x = screenWidth * 0.5;
+		this.pauseTitle.y =
+			screenHeight * 0.5 - scaled(this.PAUSE_TITLE_Y_OFFSET);
+
+		this.resumeButton.x = screenWidth * 0.5;
+		this.resumeButton.y =
+			screenHeight * 0.5 + scaled(this.RESUME_BUTTON_Y_OFFSET);
+
 		// Call game's onResize method
 		this.game?.onResize();
 	}
 
 	/**
-	 * Removes the game instance from the ticker, as well as its event listeners, and then calls
+	 * Stops driving the game's ticker, removes the game's event listeners, and then calls
 	 * the game's destroy method, before destroying itself
 	 *
 	 */
 	public destroy(): void {
+		this.removeEventListeners();
+
+		// Never leave sounds suspended for the next scene
+		if (this.isPaused) {
+			audio.resumeAll();
+		}
+
+		this.app.ticker.remove(this.updateGameTicker, this);
 		if (this.game) {
-			this.app.ticker.remove(this.game.update, this);
 			this.game.removeEventListeners?.();
 			this.game.destroy();
 		}
 		this.backgroundContainer.destroy();
-		this.foregroundContainer.destroy();
+		this.foregroundContainer.destroy(); // Also kills the game's tweens
+		this.game?.ticker.destroy();
+		this.pauseButton.destroy();
+		this.pauseTitle.destroy();
+		this.pauseBackground.destroy();
+		this.resumeButton.destroy();
+		this.pauseOverlay.destroy();
 		this.backButton.destroy();
 		super.destroy();
 	}
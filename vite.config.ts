@@ -1,9 +1,44 @@
-import { defineConfig } from "vite";
-
-export default defineConfig({
-  base: "/softgames-challenge/",
-  build: {
-    outDir: "dist",
-    assetsDir: "assets",
-  },
-});
+import path from "node:path";
+import { defineConfig, loadEnv, normalizePath, type Plugin } from "vite";
+
+/**
+ * Dialogue authoring mode, for the dev server only. Tells Magic Words when the dialogue file named by
+ * VITE_DIALOGUE_AUTHORING_FILE changes, so that it reloads the script in place instead of the whole app.
+ * The file is relative to the public directory, e.g. dialogue/magicwords.json
+ */
+function dialogueAuthoring(file: string | undefined): Plugin {
+  let watchedFile: string | null = null;
+
+  return {
+    name: "dialogue-authoring",
+    apply: "serve",
+    configResolved(config) {
+      if (file) {
+        watchedFile = normalizePath(path.resolve(config.publicDir, file));
+      }
+    },
+    hotUpdate({ file: changedFile }) {
+      if (this.environment.name !== "client" || changedFile !== watchedFile) {
+        return;
+      }
+      this.environment.hot.send({
+        type: "custom",
+        event: "dialogue-authoring:change",
+      });
+      return [];
+    },
+  };
+}
+
+export default defineConfig(({ mode }) => {
+  const env = loadEnv(mode, process.cwd());
+
+  return {
+    base: "/softgames-challenge/",
+    build: {
+      outDir: "dist",
+      assetsDir: "assets",
+    },
+    plugins: [dialogueAuthoring(env.VITE_DIALOGUE_AUTHORING_FILE)],
+  };
+});